@@ -0,0 +1,18 @@
+#!/usr/bin/env node
+// Runs the TypeScript CLI in place, so it shares src/lib with the web routes.
+// tsx is a dev dependency: the CLI is for checkouts, not production installs
+import { fileURLToPath } from 'url';
+
+let registerCjs, registerEsm;
+try {
+  ({ register: registerCjs } = await import('tsx/cjs/api'));
+  ({ register: registerEsm } = await import('tsx/esm/api'));
+} catch {
+  console.error('rares-dl runs from source with tsx, a dev dependency. Install it with `npm install`, without --omit=dev.');
+  process.exit(1);
+}
+
+const tsconfig = fileURLToPath(new URL('../tsconfig.json', import.meta.url));
+registerCjs({ tsconfig });
+registerEsm({ tsconfig });
+await import('../src/cli/rares-dl.ts');
@@ -0,0 +1,14 @@
+import { NextResponse } from 'next/server';
+import { withRequestLogging } from '@/lib/api-request';
+import { checkHealth } from '@/lib/health';
+
+// Public, for load balancers and uptime checks: 503 while yt-dlp or ffmpeg is missing
+async function handleGet() {
+  const report = await checkHealth();
+  return NextResponse.json(report, {
+    status: report.status === 'ok' ? 200 : 503,
+    headers: { 'Cache-Control': 'no-store' }
+  });
+}
+
+export const GET = withRequestLogging('/api/health', handleGet);
@@ -0,0 +1,2 @@
+// Unversioned path from before /api/v1, kept so existing scripts keep working
+export { GET, DELETE } from '@/app/api/v1/library/[key]/route';
@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server';
+import { withRequestLogging } from '@/lib/api-request';
+import { gauge, renderMetrics } from '@/lib/metrics';
+import { liveProcessCounts } from '@/lib/process';
+import { tempDirUsage } from '@/lib/ytdlp';
+
+gauge('processes_active', 'yt-dlp and ffmpeg processes running, by command', () => {
+  const counts = liveProcessCounts();
+  return ['yt-dlp', 'ffmpeg'].map(command => ({ labels: { command }, value: counts[command] ?? 0 }));
+});
+
+gauge('temp_dirs', 'Temp directories of downloads, in use or left over', async () => [{ value: (await tempDirUsage()).dirs }]);
+
+gauge('temp_dir_bytes', 'Bytes in the temp directories of downloads', async () => [{ value: (await tempDirUsage()).bytes }]);
+
+// Counters and histograms in the Prometheus text format, for scrapers
+async function handleGet() {
+  return new NextResponse(await renderMetrics(), {
+    headers: {
+      'Content-Type': 'text/plain; version=0.0.4; charset=utf-8',
+      'Cache-Control': 'no-store'
+    }
+  });
+}
+
+export const GET = withRequestLogging('/api/metrics', handleGet);
@@ -0,0 +1,174 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { Archiver } from 'archiver';
+import { readdir, stat } from 'fs/promises';
+import { join } from 'path';
+import {
+  buildAudioArgs,
+  createTempDir,
+  isThumbnailFile,
+  removeTempDir,
+  runYtDlp
+} from '@/lib/ytdlp';
+import type { PlaylistDownloadRequest } from '@/lib/api-client';
+import { readBody, withRequestLogging } from '@/lib/api-request';
+import { validateSchema } from '@/lib/api-schema';
+import { validateAgainstVideo } from '@/lib/download';
+import { ApiError } from '@/lib/error-codes';
+import { errorResponse } from '@/lib/errors';
+import { sanitizeFilename } from '@/lib/format';
+import { checkOutputSize, hasOutputLimits } from '@/lib/limits';
+import { logger } from '@/lib/logger';
+import { checkCookieAccess } from '@/lib/network';
+import { getProvider } from '@/lib/providers';
+import { rateLimit } from '@/lib/rate-limit';
+import { appendFile, createZipStream } from '@/lib/zip';
+
+interface TrackFailure {
+  url: string;
+  error: string;
+}
+
+async function handlePost(request: NextRequest) {
+  const limited = rateLimit(request);
+  if (limited) {
+    return limited;
+  }
+
+  try {
+    return startPlaylistDownload(await readBody<PlaylistDownloadRequest>(request, 'PlaylistDownloadRequest'), request);
+  } catch (error) {
+    logger.error('Error downloading playlist', { error });
+    return errorResponse(error, 'Failed to download playlist');
+  }
+}
+
+// GET form (`?ids=a,b,c&format=mp3`) lets the browser save the zip natively
+async function handleGet(request: NextRequest) {
+  const limited = rateLimit(request);
+  if (limited) {
+    return limited;
+  }
+
+  const params = request.nextUrl.searchParams;
+  const body = {
+    ids: params.get('ids')?.split(',').filter(Boolean) ?? [],
+    provider: params.get('provider') ?? undefined,
+    format: params.get('format') ?? undefined,
+    original: params.get('original') === 'true',
+    title: params.get('title') ?? undefined,
+    cookies: params.get('cookies') === 'true' || undefined
+  };
+
+  try {
+    const schemaError = validateSchema('PlaylistDownloadRequest', body);
+    if (schemaError) {
+      throw new ApiError('invalid_request', schemaError);
+    }
+    return startPlaylistDownload(body as PlaylistDownloadRequest, request);
+  } catch (error) {
+    return errorResponse(error, 'Failed to download playlist');
+  }
+}
+
+function startPlaylistDownload(
+  { ids, provider: providerId = 'youtube', format, original, title, cookies }: PlaylistDownloadRequest,
+  request: NextRequest
+) {
+  const provider = getProvider(providerId);
+  if (!provider) {
+    throw new ApiError('invalid_request', 'Unsupported provider');
+  }
+  if (!provider.entryUrl) {
+    throw new ApiError('invalid_request', `${provider.name} playlists can't be downloaded as a zip`);
+  }
+
+  const urls = ids.map((id) => provider.entryUrl!(id));
+  if (!urls.every((url): url is string => url !== null)) {
+    throw new ApiError('invalid_request', 'Invalid entry id');
+  }
+
+  const cookieError = checkCookieAccess(request, cookies);
+  if (cookieError) {
+    throw cookieError;
+  }
+
+  const { archive, body } = createZipStream();
+  const zipName = `${(title && sanitizeFilename(title)) || 'playlist'}.zip`;
+
+  // Convert in the background while the zip streams to the client
+  writeTracks(urls, { format, original, cookies }, archive, request.signal).catch((error) => {
+    logger.error('Error writing playlist archive', { error });
+    archive.abort();
+  });
+
+  return new NextResponse(body, {
+    status: 200,
+    headers: {
+      'Content-Type': 'application/zip',
+      'Content-Disposition': `attachment; filename="${encodeURIComponent(zipName)}"`
+    }
+  });
+}
+
+async function writeTracks(
+  urls: string[],
+  options: { format?: string; original?: boolean; cookies?: boolean },
+  archive: Archiver,
+  signal: AbortSignal
+) {
+  const failures: TrackFailure[] = [];
+  const pad = String(urls.length).length;
+
+  for (const [index, url] of urls.entries()) {
+    if (signal.aborted || archive.destroyed) break;
+
+    const tempDir = await createTempDir();
+    try {
+      const trackNumber = String(index + 1).padStart(pad, '0');
+      const outputTemplate = join(tempDir, `${trackNumber} - %(title)s.%(ext)s`);
+
+      // Each entry is checked separately, so one long video doesn't fail the rest
+      if (hasOutputLimits()) {
+        const limitError = await validateAgainstVideo({ url, ...options }, signal);
+        if (limitError) {
+          throw new Error(limitError);
+        }
+      }
+
+      // Tracks run one at a time, so waiting for a yt-dlp process is fine
+      const output = await runYtDlp(buildAudioArgs({ url, outputTemplate, ...options }), { signal, queue: true, cookies: options.cookies });
+
+      const audioFile = (await readdir(tempDir)).find(f => !isThumbnailFile(f));
+      checkOutputSize(audioFile ? (await stat(join(tempDir, audioFile))).size : null, output);
+      if (!audioFile) {
+        throw new Error('No audio file created');
+      }
+
+      await appendFile(archive, join(tempDir, audioFile), audioFile);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Download failed';
+      logger.error('Error downloading playlist entry', { url, error: message });
+      failures.push({ url, error: message.trim() });
+    } finally {
+      await removeTempDir(tempDir);
+    }
+  }
+
+  if (signal.aborted || archive.destroyed) {
+    archive.abort();
+    return;
+  }
+
+  // Failed tracks are listed in the archive instead of failing the whole batch
+  if (failures.length > 0) {
+    const report = failures
+      .map(f => `${f.url}\n  ${f.error.replace(/\n/g, '\n  ')}`)
+      .join('\n\n');
+    archive.append(`${failures.length} of ${urls.length} tracks failed:\n\n${report}\n`, { name: 'failed.txt' });
+  }
+
+  await archive.finalize();
+}
+
+export const POST = withRequestLogging('/api/v1/download/playlist', handlePost);
+export const GET = withRequestLogging('/api/v1/download/playlist', handleGet);
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { readBody, withRequestLogging } from '@/lib/api-request';
+import { AudioRequest, convertAudio, prepareAudioRequest } from '@/lib/download';
+import { ApiError } from '@/lib/error-codes';
+import { errorResponse } from '@/lib/errors';
+import { fileResponse } from '@/lib/file-response';
+import { addToLibrary, findInLibrary, toConvertedFile } from '@/lib/library';
+import { logger } from '@/lib/logger';
+import { checkCookieAccess } from '@/lib/network';
+import { loudnessHeaders } from '@/lib/postprocess';
+import { rateLimit } from '@/lib/rate-limit';
+import { createTempDir, removeTempDir } from '@/lib/ytdlp';
+
+async function handlePost(request: NextRequest) {
+  const limited = rateLimit(request);
+  if (limited) {
+    return limited;
+  }
+
+  let tempDir: string | null = null;
+
+  try {
+    const body = await readBody<AudioRequest>(request, 'AudioRequest');
+
+    // Before anything looks the video up with the cookies
+    const cookieError = checkCookieAccess(request, body.cookies);
+    if (cookieError) {
+      throw cookieError;
+    }
+
+    if (body.callbackUrl !== undefined) {
+      throw new ApiError('invalid_request', 'Callbacks are only sent for jobs');
+    }
+    if (body.batchId !== undefined) {
+      throw new ApiError('invalid_request', 'Batches are only for jobs');
+    }
+
+    const audioRequest = await prepareAudioRequest(body, request.signal);
+
+    const cached = await findInLibrary(audioRequest);
+    if (cached) {
+      const file = toConvertedFile(cached);
+      return fileResponse(request, file, { headers: loudnessHeaders(file.loudness) });
+    }
+
+    // Create a unique temp directory for this download
+    tempDir = await createTempDir();
+
+    // Execute yt-dlp; a client that goes away stops it
+    const file = await convertAudio(audioRequest, tempDir, { signal: request.signal });
+    await addToLibrary(audioRequest, file).catch((error) => {
+      logger.error('Could not add download to the library', { error });
+    });
+
+    // Stream the file and clean up once the client has it (or went away)
+    const downloadDir = tempDir;
+    return fileResponse(request, file, {
+      onClose: () => removeTempDir(downloadDir),
+      headers: loudnessHeaders(file.loudness)
+    });
+  } catch (error) {
+    // Clean up on error
+    if (tempDir) {
+      await removeTempDir(tempDir);
+    }
+
+    // Nobody is left to answer when the client cancelled
+    if (request.signal.aborted) {
+      return new NextResponse(null, { status: 499 });
+    }
+
+    logger.error('Error downloading audio', { error });
+    return errorResponse(error, 'Failed to download audio');
+  }
+}
+
+export const POST = withRequestLogging('/api/v1/download', handlePost);
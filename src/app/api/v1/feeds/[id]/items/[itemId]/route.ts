@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withRequestLogging } from '@/lib/api-request';
+import { ApiError } from '@/lib/error-codes';
+import { errorResponse } from '@/lib/errors';
+import { removeFeedItem } from '@/lib/feeds';
+
+interface RouteParams {
+  params: Promise<{ id: string; itemId: string }>;
+}
+
+async function handleDelete(_request: NextRequest, { params }: RouteParams) {
+  const { id, itemId } = await params;
+
+  if (!(await removeFeedItem(id, itemId))) {
+    return errorResponse(new ApiError('not_found', 'Feed episode not found'));
+  }
+
+  return new NextResponse(null, { status: 204 });
+}
+
+export const DELETE = withRequestLogging('/api/v1/feeds/[id]/items/[itemId]', handleDelete);
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { FeedItemRequest } from '@/lib/api-client';
+import { readBody, withRequestLogging } from '@/lib/api-request';
+import { ApiError } from '@/lib/error-codes';
+import { errorResponse } from '@/lib/errors';
+import { addToFeed, toFeedSnapshot } from '@/lib/feeds';
+import { logger } from '@/lib/logger';
+import { checkCookieAccess } from '@/lib/network';
+import { validateSourceUrl } from '@/lib/providers';
+import { rateLimit } from '@/lib/rate-limit';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+async function handlePost(request: NextRequest, { params }: RouteParams) {
+  const limited = rateLimit(request);
+  if (limited) {
+    return limited;
+  }
+
+  try {
+    const { id } = await params;
+    const { url, cookies } = await readBody<FeedItemRequest>(request, 'FeedItemRequest');
+
+    const urlError = validateSourceUrl(url);
+    if (urlError) {
+      throw new ApiError('invalid_request', urlError);
+    }
+
+    // Episodes are converted later, with the cookies of whoever added them
+    const cookieError = checkCookieAccess(request, cookies);
+    if (cookieError) {
+      throw cookieError;
+    }
+
+    const feed = await addToFeed(id, url, { cookies, signal: request.signal });
+    return NextResponse.json(toFeedSnapshot(feed), { status: 202 });
+  } catch (error) {
+    logger.error('Error adding to feed', { error });
+    return errorResponse(error, 'Failed to add to the feed');
+  }
+}
+
+export const POST = withRequestLogging('/api/v1/feeds/[id]/items', handlePost);
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withRequestLogging } from '@/lib/api-request';
+import { errorResponse } from '@/lib/errors';
+import { refreshFeed, toFeedSnapshot } from '@/lib/feeds';
+import { logger } from '@/lib/logger';
+import { rateLimit } from '@/lib/rate-limit';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+async function handlePost(request: NextRequest, { params }: RouteParams) {
+  const limited = rateLimit(request);
+  if (limited) {
+    return limited;
+  }
+
+  try {
+    const { id } = await params;
+    const feed = await refreshFeed(id, request.signal);
+    return NextResponse.json(toFeedSnapshot(feed));
+  } catch (error) {
+    logger.error('Error refreshing feed', { error });
+    return errorResponse(error, 'Failed to refresh the feed');
+  }
+}
+
+export const POST = withRequestLogging('/api/v1/feeds/[id]/refresh', handlePost);
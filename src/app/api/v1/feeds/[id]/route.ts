@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withRequestLogging } from '@/lib/api-request';
+import { ApiError } from '@/lib/error-codes';
+import { errorResponse } from '@/lib/errors';
+import { deleteFeed, getFeed, toFeedSnapshot } from '@/lib/feeds';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+async function handleGet(_request: NextRequest, { params }: RouteParams) {
+  const { id } = await params;
+  const feed = await getFeed(id);
+
+  if (!feed) {
+    return errorResponse(new ApiError('not_found', 'Feed not found'));
+  }
+
+  return NextResponse.json(toFeedSnapshot(feed));
+}
+
+async function handleDelete(_request: NextRequest, { params }: RouteParams) {
+  const { id } = await params;
+
+  if (!(await deleteFeed(id))) {
+    return errorResponse(new ApiError('not_found', 'Feed not found'));
+  }
+
+  return new NextResponse(null, { status: 204 });
+}
+
+export const GET = withRequestLogging('/api/v1/feeds/[id]', handleGet);
+export const DELETE = withRequestLogging('/api/v1/feeds/[id]', handleDelete);
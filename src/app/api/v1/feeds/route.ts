@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { FeedCreateRequest } from '@/lib/api-client';
+import { readBody, withRequestLogging } from '@/lib/api-request';
+import { ApiError } from '@/lib/error-codes';
+import { errorResponse } from '@/lib/errors';
+import { createFeed, listFeeds, toFeedSnapshot } from '@/lib/feeds';
+import { logger } from '@/lib/logger';
+
+async function handleGet() {
+  try {
+    const feeds = await listFeeds();
+    return NextResponse.json({ feeds: feeds.map(toFeedSnapshot) });
+  } catch (error) {
+    logger.error('Error listing feeds', { error });
+    return errorResponse(error, 'Failed to list feeds');
+  }
+}
+
+async function handlePost(request: NextRequest) {
+  try {
+    const body = await readBody<FeedCreateRequest>(request, 'FeedCreateRequest');
+    if (!body.title.trim()) {
+      throw new ApiError('invalid_request', 'Title is required');
+    }
+
+    const feed = await createFeed(body);
+    return NextResponse.json(toFeedSnapshot(feed), { status: 201 });
+  } catch (error) {
+    logger.error('Error creating feed', { error });
+    return errorResponse(error, 'Failed to create feed');
+  }
+}
+
+export const GET = withRequestLogging('/api/v1/feeds', handleGet);
+export const POST = withRequestLogging('/api/v1/feeds', handlePost);
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { InfoRequest } from '@/lib/api-client';
+import { readBody, withRequestLogging } from '@/lib/api-request';
+import { ApiError } from '@/lib/error-codes';
+import { errorResponse } from '@/lib/errors';
+import { getVideoDetails } from '@/lib/info-cache';
+import { logger } from '@/lib/logger';
+import { checkCookieAccess } from '@/lib/network';
+import { matchSource, validateSourceUrl } from '@/lib/providers';
+import { rateLimit } from '@/lib/rate-limit';
+
+async function handlePost(request: NextRequest) {
+  const limited = rateLimit(request);
+  if (limited) {
+    return limited;
+  }
+
+  try {
+    const { url, cookies } = await readBody<InfoRequest>(request, 'InfoRequest');
+
+    const urlError = validateSourceUrl(url);
+    if (urlError) {
+      throw new ApiError('invalid_request', urlError);
+    }
+
+    const cookieError = checkCookieAccess(request, cookies);
+    if (cookieError) {
+      throw cookieError;
+    }
+
+    const source = matchSource(url)!;
+    if (source.playlist) {
+      throw new ApiError('invalid_request', 'Details are only available for single videos');
+    }
+
+    // Usually answered from the cache filled by /api/info
+    const details = await getVideoDetails(source.url, { signal: request.signal, cookies });
+    return NextResponse.json(details);
+  } catch (error) {
+    logger.error('Error fetching video details', { error });
+    return errorResponse(error, 'Failed to fetch video details');
+  }
+}
+
+export const POST = withRequestLogging('/api/v1/info/details', handlePost);
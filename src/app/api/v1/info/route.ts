@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { InfoRequest } from '@/lib/api-client';
+import { readBody, withRequestLogging } from '@/lib/api-request';
+import { ApiError } from '@/lib/error-codes';
+import { errorResponse } from '@/lib/errors';
+import { getVideoInfo } from '@/lib/info-cache';
+import { logger } from '@/lib/logger';
+import { checkCookieAccess } from '@/lib/network';
+import { matchSource, toProviderSummary, validateSourceUrl } from '@/lib/providers';
+import { rateLimit } from '@/lib/rate-limit';
+import { getPlaylistInfo } from '@/lib/video-info';
+
+async function handlePost(request: NextRequest) {
+  const limited = rateLimit(request);
+  if (limited) {
+    return limited;
+  }
+
+  try {
+    const { url, cookies } = await readBody<InfoRequest>(request, 'InfoRequest');
+
+    const urlError = validateSourceUrl(url);
+    if (urlError) {
+      throw new ApiError('invalid_request', urlError);
+    }
+
+    const cookieError = checkCookieAccess(request, cookies);
+    if (cookieError) {
+      throw cookieError;
+    }
+
+    const source = matchSource(url)!;
+    // Closing the page stops the lookup
+    const options = { signal: request.signal, cookies };
+    const info = source.playlist
+      ? await getPlaylistInfo(source.url, options)
+      : await getVideoInfo(source.url, options);
+    return NextResponse.json({ ...info, provider: toProviderSummary(source.provider) });
+  } catch (error) {
+    logger.error('Error fetching video info', { error });
+    return errorResponse(error, 'Failed to fetch video info');
+  }
+}
+
+export const POST = withRequestLogging('/api/v1/info', handlePost);
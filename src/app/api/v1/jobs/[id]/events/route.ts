@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withRequestLogging } from '@/lib/api-request';
+import { ApiError } from '@/lib/error-codes';
+import { errorResponse } from '@/lib/errors';
+import { getJob, isFinished, JobSnapshot, subscribe, toSnapshot } from '@/lib/jobs';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// Streams job snapshots as Server-Sent Events until the job finishes
+async function handleGet(request: NextRequest, { params }: RouteParams) {
+  const { id } = await params;
+  const job = getJob(id);
+
+  if (!job) {
+    return errorResponse(new ApiError('not_found', 'Job not found'));
+  }
+
+  const encoder = new TextEncoder();
+  let unsubscribe: (() => void) | null = null;
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false;
+
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        unsubscribe?.();
+        controller.close();
+      };
+
+      const send = (snapshot: JobSnapshot) => {
+        if (closed) return;
+        controller.enqueue(encoder.encode(`event: ${snapshot.status}\ndata: ${JSON.stringify(snapshot)}\n\n`));
+        if (snapshot.status !== 'queued' && snapshot.status !== 'running') {
+          close();
+        }
+      };
+
+      unsubscribe = subscribe(id, send);
+      request.signal.addEventListener('abort', close);
+
+      send(toSnapshot(job));
+      if (isFinished(job)) close();
+    },
+    cancel() {
+      unsubscribe?.();
+    }
+  });
+
+  return new NextResponse(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive'
+    }
+  });
+}
+
+export const GET = withRequestLogging('/api/v1/jobs/[id]/events', handleGet);
@@ -0,0 +1,44 @@
+import { NextRequest } from 'next/server';
+import { withRequestLogging } from '@/lib/api-request';
+import { ApiError } from '@/lib/error-codes';
+import { errorResponse } from '@/lib/errors';
+import { fileResponse } from '@/lib/file-response';
+import { getJob, removeJob } from '@/lib/jobs';
+import { loudnessHeaders } from '@/lib/postprocess';
+import { verifySignedPath } from '@/lib/signed-links';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+async function handleGet(request: NextRequest, { params }: RouteParams) {
+  const { id } = await params;
+
+  // Signed links skip the credentials check, so their signature must hold
+  const { pathname, searchParams } = request.nextUrl;
+  if (searchParams.has('signature') && !verifySignedPath(pathname, searchParams)) {
+    return errorResponse(new ApiError('unauthorized', 'This link is invalid or has expired'));
+  }
+
+  const job = getJob(id);
+
+  if (!job) {
+    return errorResponse(new ApiError('not_found', 'Job not found'));
+  }
+
+  if (job.status !== 'complete' || !job.file) {
+    return errorResponse(new ApiError('conflict', `Job is ${job.status}`));
+  }
+
+  // Once the whole file has been sent the job is done with; partial transfers
+  // keep it around until it expires so the client can resume with Range.
+  // Jobs with a webhook stay until then either: the receiver and the page
+  // may both fetch the file, through the signed link or not. So do batch
+  // jobs, which the batch's zip still needs
+  return fileResponse(request, job.file, {
+    onClose: (complete) => complete && !job.webhook && !job.batchId ? removeJob(id) : undefined,
+    headers: loudnessHeaders(job.file.loudness)
+  });
+}
+
+export const GET = withRequestLogging('/api/v1/jobs/[id]/file', handleGet);
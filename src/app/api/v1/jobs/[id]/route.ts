@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withRequestLogging } from '@/lib/api-request';
+import { ApiError } from '@/lib/error-codes';
+import { errorResponse } from '@/lib/errors';
+import { getJob, removeJob, toSnapshot } from '@/lib/jobs';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+async function handleGet(_request: NextRequest, { params }: RouteParams) {
+  const { id } = await params;
+  const job = getJob(id);
+
+  if (!job) {
+    return errorResponse(new ApiError('not_found', 'Job not found'));
+  }
+
+  return NextResponse.json(toSnapshot(job));
+}
+
+async function handleDelete(_request: NextRequest, { params }: RouteParams) {
+  const { id } = await params;
+
+  if (!getJob(id)) {
+    return errorResponse(new ApiError('not_found', 'Job not found'));
+  }
+
+  await removeJob(id);
+  return new NextResponse(null, { status: 204 });
+}
+
+export const GET = withRequestLogging('/api/v1/jobs/[id]', handleGet);
+export const DELETE = withRequestLogging('/api/v1/jobs/[id]', handleDelete);
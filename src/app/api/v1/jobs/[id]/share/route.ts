@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { ShareRequest } from '@/lib/api-client';
+import { readBody, withRequestLogging } from '@/lib/api-request';
+import { ApiError } from '@/lib/error-codes';
+import { errorResponse } from '@/lib/errors';
+import { getJob } from '@/lib/jobs';
+import { logger } from '@/lib/logger';
+import { createShare, toShareSnapshot, validateShareOptions } from '@/lib/shares';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+async function handlePost(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const body = await readBody<ShareRequest>(request, 'ShareRequest');
+
+    const optionsError = validateShareOptions(body);
+    if (optionsError) {
+      throw new ApiError('invalid_request', optionsError);
+    }
+
+    const job = getJob(id);
+    if (!job) {
+      throw new ApiError('not_found', 'Job not found');
+    }
+    if (job.status !== 'complete' || !job.file) {
+      throw new ApiError('conflict', `Job is ${job.status}`);
+    }
+
+    const share = await createShare(job.file, body);
+    return NextResponse.json(toShareSnapshot(share), { status: 201 });
+  } catch (error) {
+    logger.error('Error sharing job', { error });
+    return errorResponse(error, 'Failed to share job');
+  }
+}
+
+export const POST = withRequestLogging('/api/v1/jobs/[id]/share', handlePost);
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { Archiver } from 'archiver';
+import { withRequestLogging } from '@/lib/api-request';
+import { validateSchema } from '@/lib/api-schema';
+import { ApiError } from '@/lib/error-codes';
+import { errorResponse } from '@/lib/errors';
+import { sanitizeFilename } from '@/lib/format';
+import { getJob } from '@/lib/jobs';
+import { logger } from '@/lib/logger';
+import { appendFile, createZipStream } from '@/lib/zip';
+
+// Zips the files of finished jobs, e.g. a batch from the page (`?ids=a,b,c&name=batch`).
+// GET so the browser can save it natively; jobs stay available until they expire
+async function handleGet(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const body = {
+    ids: params.get('ids')?.split(',').filter(Boolean) ?? [],
+    name: params.get('name') ?? undefined
+  };
+
+  const schemaError = validateSchema('JobArchiveRequest', body);
+  if (schemaError) {
+    return errorResponse(new ApiError('invalid_request', schemaError));
+  }
+
+  const { archive, body: stream } = createZipStream();
+  const zipName = `${(body.name && sanitizeFilename(body.name)) || 'downloads'}.zip`;
+
+  writeJobFiles(body.ids, archive).catch((error) => {
+    logger.error('Error writing job archive', { error });
+    archive.abort();
+  });
+
+  return new NextResponse(stream, {
+    status: 200,
+    headers: {
+      'Content-Type': 'application/zip',
+      'Content-Disposition': `attachment; filename="${encodeURIComponent(zipName)}"`
+    }
+  });
+}
+
+async function writeJobFiles(ids: string[], archive: Archiver) {
+  const missing: string[] = [];
+  const names = new Set<string>();
+
+  for (const id of ids) {
+    if (archive.destroyed) return;
+
+    const job = getJob(id);
+    if (!job || job.status !== 'complete' || !job.file) {
+      missing.push(`${id}: ${job ? `job is ${job.status}` : 'job not found or expired'}`);
+      continue;
+    }
+
+    // Two videos with the same title would otherwise overwrite each other when unzipped
+    let name = job.file.filename;
+    for (let copy = 2; names.has(name); copy++) {
+      name = job.file.filename.replace(/(\.[^.]*)?$/, ` (${copy})$1`);
+    }
+    names.add(name);
+
+    await appendFile(archive, job.file.filePath, name);
+  }
+
+  if (missing.length > 0) {
+    archive.append(`${missing.length} of ${ids.length} files are missing:\n\n${missing.join('\n')}\n`, { name: 'failed.txt' });
+  }
+
+  await archive.finalize();
+}
+
+export const GET = withRequestLogging('/api/v1/jobs/archive', handleGet);
@@ -0,0 +1,55 @@
+import { createHash } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { publicOrigin, readBody, withRequestLogging } from '@/lib/api-request';
+import { AudioRequest, prepareAudioRequest } from '@/lib/download';
+import { requestUser } from '@/lib/auth';
+import { ApiError } from '@/lib/error-codes';
+import { errorResponse } from '@/lib/errors';
+import { createJob, toSnapshot } from '@/lib/jobs';
+import { logger } from '@/lib/logger';
+import { checkCookieAccess } from '@/lib/network';
+import { clientAddress, rateLimit } from '@/lib/rate-limit';
+import { validateCallbackUrl } from '@/lib/webhooks';
+
+// Batch IDs are chosen by the client, so they're scoped to the caller's
+// key, or address without one, and can't join or hold on to another's batch
+function scopedBatchId(request: NextRequest, batchId: string): string {
+  const caller = requestUser(request) ?? `ip:${clientAddress(request)}`;
+  return createHash('sha256').update(`${caller}\n${batchId}`).digest('hex');
+}
+
+async function handlePost(request: NextRequest) {
+  const limited = rateLimit(request);
+  if (limited) {
+    return limited;
+  }
+
+  try {
+    const body = await readBody<AudioRequest>(request, 'AudioRequest');
+
+    // Before anything looks the video up with the cookies
+    const cookieError = checkCookieAccess(request, body.cookies);
+    if (cookieError) {
+      throw cookieError;
+    }
+
+    if (body.callbackUrl !== undefined) {
+      const callbackError = await validateCallbackUrl(body.callbackUrl);
+      if (callbackError) {
+        throw new ApiError('invalid_request', callbackError);
+      }
+    }
+
+    const audioRequest = await prepareAudioRequest(body, request.signal);
+
+    const webhook = body.callbackUrl ? { url: body.callbackUrl, origin: publicOrigin(request) } : null;
+    const batchId = body.batchId ? scopedBatchId(request, body.batchId) : null;
+    const job = createJob(audioRequest, { webhook, batchId });
+    return NextResponse.json(toSnapshot(job), { status: 202 });
+  } catch (error) {
+    logger.error('Error creating job', { error });
+    return errorResponse(error, 'Failed to create job');
+  }
+}
+
+export const POST = withRequestLogging('/api/v1/jobs', handlePost);
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withRequestLogging } from '@/lib/api-request';
+import { ApiError } from '@/lib/error-codes';
+import { errorResponse } from '@/lib/errors';
+import { fileResponse } from '@/lib/file-response';
+import { getLibraryEntry, removeFromLibrary, toConvertedFile, touchLibraryEntry } from '@/lib/library';
+import { loudnessHeaders } from '@/lib/postprocess';
+
+interface RouteParams {
+  params: Promise<{ key: string }>;
+}
+
+async function handleGet(request: NextRequest, { params }: RouteParams) {
+  const { key } = await params;
+  const entry = await getLibraryEntry(key);
+
+  if (!entry) {
+    return errorResponse(new ApiError('not_found', 'Library entry not found'));
+  }
+
+  await touchLibraryEntry(key);
+  return fileResponse(request, toConvertedFile(entry), { headers: loudnessHeaders(entry.loudness) });
+}
+
+async function handleDelete(_request: NextRequest, { params }: RouteParams) {
+  const { key } = await params;
+
+  if (!(await removeFromLibrary(key))) {
+    return errorResponse(new ApiError('not_found', 'Library entry not found'));
+  }
+
+  return new NextResponse(null, { status: 204 });
+}
+
+export const GET = withRequestLogging('/api/v1/library/[key]', handleGet);
+export const DELETE = withRequestLogging('/api/v1/library/[key]', handleDelete);
@@ -0,0 +1,16 @@
+import { NextResponse } from 'next/server';
+import { withRequestLogging } from '@/lib/api-request';
+import { errorResponse } from '@/lib/errors';
+import { listLibrary } from '@/lib/library';
+import { logger } from '@/lib/logger';
+
+async function handleGet() {
+  try {
+    return NextResponse.json(await listLibrary());
+  } catch (error) {
+    logger.error('Error listing library', { error });
+    return errorResponse(error, 'Failed to list library');
+  }
+}
+
+export const GET = withRequestLogging('/api/v1/library', handleGet);
@@ -0,0 +1,10 @@
+import { NextResponse } from 'next/server';
+import { withRequestLogging } from '@/lib/api-request';
+import spec from '@/lib/openapi.json';
+
+// The OpenAPI document for this version of the API
+async function handleGet() {
+  return NextResponse.json(spec);
+}
+
+export const GET = withRequestLogging('/api/v1/openapi.json', handleGet);
@@ -0,0 +1,26 @@
+import { NextRequest } from 'next/server';
+import { withRequestLogging } from '@/lib/api-request';
+import { ApiError } from '@/lib/error-codes';
+import { errorResponse } from '@/lib/errors';
+import { feedItemFile, getFeedByToken } from '@/lib/feeds';
+import { fileResponse } from '@/lib/file-response';
+
+interface RouteParams {
+  params: Promise<{ token: string; file: string }>;
+}
+
+// An episode linked from the feed, as "<item id>.<ext>"
+async function handleGet(request: NextRequest, { params }: RouteParams) {
+  const { token, file } = await params;
+  const feed = await getFeedByToken(token);
+  const itemId = file.replace(/\.[^.]+$/, '');
+  const item = feed?.items.find(i => i.id === itemId && i.status === 'ready');
+
+  if (!feed || !item) {
+    return errorResponse(new ApiError('not_found', 'Episode not found'));
+  }
+
+  return fileResponse(request, feedItemFile(feed, item));
+}
+
+export const GET = withRequestLogging('/api/v1/podcasts/[token]/[file]', handleGet);
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { publicOrigin, withRequestLogging } from '@/lib/api-request';
+import { ApiError } from '@/lib/error-codes';
+import { errorResponse } from '@/lib/errors';
+import { getFeedByToken } from '@/lib/feeds';
+import { buildPodcastRss } from '@/lib/podcast-rss';
+
+interface RouteParams {
+  params: Promise<{ token: string }>;
+}
+
+// No credentials needed: the token in the path is the feed's secret
+async function handleGet(request: NextRequest, { params }: RouteParams) {
+  const { token } = await params;
+  const feed = await getFeedByToken(token);
+
+  if (!feed) {
+    return errorResponse(new ApiError('not_found', 'Feed not found'));
+  }
+
+  return new NextResponse(buildPodcastRss(feed, publicOrigin(request)), {
+    headers: { 'Content-Type': 'application/rss+xml; charset=utf-8' }
+  });
+}
+
+export const GET = withRequestLogging('/api/v1/podcasts/[token]/feed.xml', handleGet);
@@ -0,0 +1,38 @@
+import { NextRequest } from 'next/server';
+import { withRequestLogging } from '@/lib/api-request';
+import { errorResponse } from '@/lib/errors';
+import { fileResponse } from '@/lib/file-response';
+import { finishShareDownload, openShare, shareFile } from '@/lib/shares';
+
+const TRANSFER_COOKIE = 'share_transfer';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// No credentials needed: the signed link is the proof
+async function handleGet(request: NextRequest, { params }: RouteParams) {
+  const { id } = await params;
+
+  try {
+    // The cookie ties resumed requests to the download they continue
+    const cookie = request.cookies.get(TRANSFER_COOKIE)?.value ?? null;
+    const { share, transferId } = await openShare(id, request.nextUrl.searchParams, cookie);
+
+    const response = fileResponse(request, shareFile(share), {
+      onClose: (_complete, bytes) => finishShareDownload(transferId, bytes)
+    });
+    response.cookies.set(TRANSFER_COOKIE, transferId, {
+      path: request.nextUrl.pathname,
+      expires: new Date(share.expiresAt),
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: request.nextUrl.protocol === 'https:'
+    });
+    return response;
+  } catch (error) {
+    return errorResponse(error, 'Failed to open share');
+  }
+}
+
+export const GET = withRequestLogging('/api/v1/shares/[id]/file', handleGet);
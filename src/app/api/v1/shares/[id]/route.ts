@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withRequestLogging } from '@/lib/api-request';
+import { ApiError } from '@/lib/error-codes';
+import { errorResponse } from '@/lib/errors';
+import { deleteShare } from '@/lib/shares';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// Revokes the link and deletes the file
+async function handleDelete(_request: NextRequest, { params }: RouteParams) {
+  const { id } = await params;
+
+  if (!(await deleteShare(id))) {
+    return errorResponse(new ApiError('not_found', 'Share not found'));
+  }
+
+  return new NextResponse(null, { status: 204 });
+}
+
+export const DELETE = withRequestLogging('/api/v1/shares/[id]', handleDelete);
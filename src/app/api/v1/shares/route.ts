@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server';
+import { withRequestLogging } from '@/lib/api-request';
+import { errorResponse } from '@/lib/errors';
+import { logger } from '@/lib/logger';
+import { listShares, toShareSnapshot } from '@/lib/shares';
+
+async function handleGet() {
+  try {
+    const shares = await listShares();
+    return NextResponse.json({ shares: shares.map(toShareSnapshot) });
+  } catch (error) {
+    logger.error('Error listing shares', { error });
+    return errorResponse(error, 'Failed to list shares');
+  }
+}
+
+export const GET = withRequestLogging('/api/v1/shares', handleGet);
@@ -1,117 +1,161 @@
 'use client';
 
 import { useState, useRef } from 'react';
-
-interface VideoFormat {
-  format_id: string;
-  ext: string;
-  acodec: string;
-  abr?: number;
-  filesize?: number;
-  format_note?: string;
-}
-
-interface VideoInfo {
-  title: string;
-  thumbnail: string;
-  duration: number;
-  uploader: string;
-  formats: VideoFormat[];
-}
+import BatchPanel from '@/components/BatchPanel';
+import ChapterPanel, { CHAPTER_MARKER_FORMATS, ChapterMode } from '@/components/ChapterPanel';
+import ClipRangeSelector, { ClipRange } from '@/components/ClipRangeSelector';
+import ErrorMessage from '@/components/ErrorMessage';
+import FeedPanel from '@/components/FeedPanel';
+import FormatGrid from '@/components/FormatGrid';
+import JobProgressBar from '@/components/JobProgressBar';
+import LibraryPanel from '@/components/LibraryPanel';
+import MetadataForm, {
+  COVER_EDIT_FORMATS,
+  CoverMode,
+  metadataFromVideo,
+  TrackMetadata,
+} from '@/components/MetadataForm';
+import PlaylistPanel from '@/components/PlaylistPanel';
+import PostProcessingPanel from '@/components/PostProcessingPanel';
+import QualityControls from '@/components/QualityControls';
+import SharePanel from '@/components/SharePanel';
+import SourceFormatPicker from '@/components/SourceFormatPicker';
+import SubtitlePanel from '@/components/SubtitlePanel';
+import VideoDetailsPanel from '@/components/VideoDetailsPanel';
+import VideoPanel from '@/components/VideoPanel';
+import { api, AudioFormat, AudioRequest, JobSnapshot, PlaylistInfo, Share, ShareRequest, VideoInfo } from '@/lib/api-client';
+import { startDownload } from '@/lib/browser-download';
+import { notify, requestNotifications } from '@/lib/browser-notify';
+import { ApiError, ErrorCode } from '@/lib/error-codes';
+import { formatDuration } from '@/lib/format';
+import { waitForJob } from '@/lib/job-client';
+import { matchSource } from '@/lib/providers';
+import { hasPostProcessing, PostProcessing, shiftsTimestamps } from '@/lib/postprocess-options';
+import { AudioQuality, hasQualityOptions } from '@/lib/quality';
+import { guessPassthroughFormat, passthroughFormat } from '@/lib/source';
+import { checkSubtitleCombination, SubtitleOptions } from '@/lib/subtitle-options';
+import type { VideoOptions } from '@/lib/video-options';
 
 type DownloadState = 'idle' | 'fetching' | 'ready' | 'downloading' | 'complete' | 'error';
 
-const AUDIO_FORMATS = [
-  { value: 'mp3', label: 'MP3', desc: 'Universal compatibility', icon: '🎵' },
-  { value: 'aac', label: 'AAC', desc: 'Great quality, small size', icon: '🔊' },
-  { value: 'm4a', label: 'M4A', desc: 'Apple devices', icon: '🍎' },
-  { value: 'opus', label: 'Opus', desc: 'Best compression', icon: '⚡' },
-  { value: 'flac', label: 'FLAC', desc: 'Lossless quality', icon: '💎' },
-  { value: 'wav', label: 'WAV', desc: 'Uncompressed', icon: '📀' },
-];
-
 export default function Home() {
   const [url, setUrl] = useState('');
   const [videoInfo, setVideoInfo] = useState<VideoInfo | null>(null);
+  const [playlistInfo, setPlaylistInfo] = useState<PlaylistInfo | null>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
   const [state, setState] = useState<DownloadState>('idle');
   const [error, setError] = useState('');
+  const [errorCode, setErrorCode] = useState<ErrorCode | null>(null);
+  // Set after retrying a restricted video with the server's cookies
+  const [useCookies, setUseCookies] = useState(false);
   const [selectedFormat, setSelectedFormat] = useState('mp3');
+  const [job, setJob] = useState<JobSnapshot | null>(null);
+  const [clip, setClip] = useState<ClipRange | null>(null);
+  const [chapterMode, setChapterMode] = useState<ChapterMode>('none');
+  const [metadata, setMetadata] = useState<TrackMetadata | null>(null);
+  const [filenameTemplate, setFilenameTemplate] = useState('title');
+  const [cover, setCover] = useState<CoverMode>('thumbnail');
+  const [coverImage, setCoverImage] = useState<string | null>(null);
+  const [quality, setQuality] = useState<AudioQuality>({});
+  const [formatId, setFormatId] = useState<string | undefined>(undefined);
+  const [postProcessing, setPostProcessing] = useState<PostProcessing>({});
+  const [subtitles, setSubtitles] = useState<SubtitleOptions | null>(null);
+  const [mediaTab, setMediaTab] = useState<'audio' | 'video'>('audio');
+  const [videoOptions, setVideoOptions] = useState<VideoOptions>({ container: 'mp4' });
+  const [libraryVersion, setLibraryVersion] = useState(0);
+  const [batchMode, setBatchMode] = useState(false);
+  const [notifyWhenDone, setNotifyWhenDone] = useState(false);
+  const [shareOptions, setShareOptions] = useState<ShareRequest | null>(null);
+  const [share, setShare] = useState<Share | null>(null);
+  const [shareError, setShareError] = useState('');
   const abortControllerRef = useRef<AbortController | null>(null);
+  const jobIdRef = useRef<string | null>(null);
 
   const resetState = () => {
     setState('idle');
     setVideoInfo(null);
+    setPlaylistInfo(null);
     setError('');
   };
 
-  const fetchVideoInfo = async () => {
+  const showError = (err: unknown, fallback: string) => {
+    setError(err instanceof Error ? err.message : fallback);
+    setErrorCode(err instanceof ApiError ? err.code : null);
+    setState('error');
+  };
+
+  const fetchVideoInfo = async (withCookies = false) => {
     if (!url.trim()) {
-      setError('Please enter a YouTube URL');
+      setError('Please enter a URL');
+      setErrorCode(null);
       return;
     }
 
     setState('fetching');
     setError('');
     setVideoInfo(null);
+    setPlaylistInfo(null);
+    setClip(null);
+    setChapterMode('none');
+    setCover('thumbnail');
+    setCoverImage(null);
+    setFormatId(undefined);
+    setSubtitles(null);
+    setMediaTab('audio');
+    setVideoOptions(({ container }) => ({ container }));
+    setShare(null);
+    setShareError('');
+    setUseCookies(withCookies);
 
     try {
-      const response = await fetch('/api/info', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ url }),
-      });
-
-      const data = await response.json();
-
-      if (!response.ok) {
-        throw new Error(data.error || 'Failed to fetch video info');
+      const data = await api.info({ url, cookies: withCookies || undefined });
+
+      if (data.type === 'playlist') {
+        setPlaylistInfo(data);
+        setSelectedIds(new Set(data.entries.map((e) => e.id)));
+      } else {
+        setVideoInfo(data);
+        setMetadata(metadataFromVideo(data));
       }
-
-      setVideoInfo(data);
       setState('ready');
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Something went wrong. Please try again.');
-      setState('error');
+      showError(err, 'Something went wrong. Please try again.');
     }
   };
 
-  const handleDownload = async (original: boolean, format?: string) => {
+  const runJob = async (body: AudioRequest) => {
     setState('downloading');
     setError('');
+    setJob(null);
 
     abortControllerRef.current = new AbortController();
+    const { signal } = abortControllerRef.current;
 
     try {
-      const response = await fetch('/api/download', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ url, original, format }),
-        signal: abortControllerRef.current.signal,
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || 'Download failed');
+      const created = await api.createJob(body, signal);
+
+      jobIdRef.current = created.id;
+      setJob(created);
+
+      const finished = await waitForJob(created.id, setJob, signal);
+      if (finished.status !== 'complete') {
+        throw new ApiError(finished.errorCode ?? 'download_failed', finished.error ?? undefined);
       }
 
-      const contentDisposition = response.headers.get('Content-Disposition');
-      let filename = 'audio-file';
-      if (contentDisposition) {
-        const match = contentDisposition.match(/filename="(.+)"/);
-        if (match) {
-          filename = decodeURIComponent(match[1]);
-        }
+      // Before the browser fetches the file, which ends the job
+      if (shareOptions) {
+        setShareError('');
+        await api.shareJob(created.id, shareOptions).then(setShare, (err) => {
+          setShare(null);
+          setShareError(err instanceof Error ? err.message : 'Could not make the share link');
+        });
       }
 
-      const blob = await response.blob();
-      const downloadUrl = window.URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = downloadUrl;
-      a.download = filename;
-      document.body.appendChild(a);
-      a.click();
-      window.URL.revokeObjectURL(downloadUrl);
-      document.body.removeChild(a);
+      // The file endpoint supports Range, so the browser can resume it
+      startDownload(api.jobFileUrl(created.id));
+      jobIdRef.current = null;
+      setLibraryVersion((version) => version + 1);
+      if (notifyWhenDone) notify('Download ready', finished.filename ?? videoInfo?.title ?? '');
 
       setState('complete');
       setTimeout(() => setState('ready'), 3000);
@@ -120,30 +164,111 @@ export default function Home() {
         setState('ready');
         return;
       }
-      setError(err instanceof Error ? err.message : 'Download failed. Please try again.');
-      setState('error');
+      if (notifyWhenDone) notify('Download failed', videoInfo?.title ?? '');
+      showError(err, 'Download failed. Please try again.');
     }
   };
 
+  // Permission is asked when the box is ticked, as browsers require a click for it
+  const toggleNotifications = async (enabled: boolean) => {
+    setNotifyWhenDone(enabled && await requestNotifications());
+  };
+
+  // Subtitles going into the audio download rather than on their own
+  const bundledSubtitles = subtitles && subtitles.mode !== 'only' ? subtitles : undefined;
+
+  const handleDownload = (original: boolean, format?: string) => runJob({
+    url,
+    original,
+    format: format as AudioFormat | undefined,
+    formatId,
+    ...clip,
+    chapters: chapterMode === 'none' ? undefined : chapterMode,
+    metadata: metadata ?? undefined,
+    filenameTemplate: filenameTemplate as AudioRequest['filenameTemplate'],
+    cover,
+    coverImage: cover === 'custom' ? coverImage ?? undefined : undefined,
+    quality: !original && hasQualityOptions(quality) ? quality : undefined,
+    postProcessing: !original && hasPostProcessing(postProcessing) ? postProcessing : undefined,
+    subtitles: bundledSubtitles,
+    cookies: useCookies || undefined,
+  });
+
+  // Only the subtitle file; the audio options don't apply
+  const handleSubtitleDownload = () => subtitles && runJob({
+    url,
+    filenameTemplate: filenameTemplate as AudioRequest['filenameTemplate'],
+    subtitles: { ...subtitles, mode: 'only' },
+    cookies: useCookies || undefined,
+  });
+
+  // Picture and sound in a container; the audio options don't apply
+  const handleVideoDownload = () => runJob({
+    url,
+    video: videoOptions,
+    ...clip,
+    filenameTemplate: filenameTemplate as AudioRequest['filenameTemplate'],
+    cookies: useCookies || undefined,
+  });
+
+  const handlePlaylistDownload = () => {
+    if (!playlistInfo) return;
+
+    startDownload(api.playlistDownloadUrl({
+      // Keep playlist order regardless of the order entries were ticked
+      ids: playlistInfo.entries.filter((e) => selectedIds.has(e.id)).map((e) => e.id),
+      format: selectedFormat as AudioFormat,
+      title: playlistInfo.title,
+      provider: playlistInfo.provider.id,
+      cookies: useCookies || undefined,
+    }));
+
+    setState('complete');
+    setTimeout(() => setState('ready'), 3000);
+  };
+
+  // Quality options differ per codec, so start over when the format changes
+  const selectFormat = (format: string) => {
+    setSelectedFormat(format);
+    setQuality({});
+  };
+
+  // What "original" remuxes to, which decides the containers' capabilities
+  const sourceFormat = videoInfo?.formats.find((f) => f.format_id === formatId);
+  const originalFormat = sourceFormat ? passthroughFormat(sourceFormat.acodec) : guessPassthroughFormat(formatId);
+
+  // Cropped and uploaded covers can only be attached to some containers
+  const coverUnsupported = (format: string) =>
+    (cover === 'square' || cover === 'custom') && !COVER_EDIT_FORMATS.includes(format);
+
+  // Mirrors the post-processing checks in validateAudioRequest
+  const filtersUnsupported = (format: string) =>
+    hasPostProcessing(postProcessing) && (
+      (chapterMode !== 'none' && shiftsTimestamps(postProcessing)) ||
+      (format === 'opus' && cover === 'thumbnail')
+    );
+
+  // Mirrors the subtitle checks in validateAudioRequest
+  const subtitlesUnsupported = (format: string, filters?: PostProcessing) => bundledSubtitles
+    ? checkSubtitleCombination(bundledSubtitles, {
+      target: format,
+      chapters: chapterMode === 'none' ? undefined : chapterMode,
+      clipped: clip !== null,
+      postProcessing: filters,
+    })
+    : null;
+
   const cancelDownload = () => {
     if (abortControllerRef.current) {
       abortControllerRef.current.abort();
     }
-  };
-
-  const formatDuration = (seconds: number) => {
-    const hrs = Math.floor(seconds / 3600);
-    const mins = Math.floor((seconds % 3600) / 60);
-    const secs = seconds % 60;
-    if (hrs > 0) {
-      return `${hrs}:${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+    // Stop the server-side conversion too
+    if (jobIdRef.current) {
+      api.cancelJob(jobIdRef.current).catch(() => {});
+      jobIdRef.current = null;
     }
-    return `${mins}:${secs.toString().padStart(2, '0')}`;
   };
 
-  const isValidYouTubeUrl = (url: string) => {
-    return /^(https?:\/\/)?(www\.)?(youtube\.com|youtu\.be)\/.+/.test(url);
-  };
 
   return (
     <div className="min-h-screen bg-[#0a0a0a] text-white">
@@ -175,12 +300,32 @@ export default function Home() {
           </p>
         </div>
 
+        {/* Mode */}
+        <div className="flex gap-1 p-1 mb-4 bg-white/[0.02] border border-white/[0.05] rounded-xl w-fit">
+          {([['single', 'Single URL'], ['batch', 'Batch']] as const).map(([value, label]) => (
+            <button
+              key={value}
+              onClick={() => setBatchMode(value === 'batch')}
+              className={`px-4 py-1.5 rounded-lg text-sm transition-colors ${
+                batchMode === (value === 'batch') ? 'bg-white/10 text-white' : 'text-white/50 hover:text-white'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        {/* Batch Card; both cards stay mounted so switching keeps their progress */}
+        <div className={`bg-white/[0.02] border border-white/[0.05] rounded-2xl overflow-hidden ${batchMode ? '' : 'hidden'}`}>
+          <BatchPanel onConverted={() => setLibraryVersion((version) => version + 1)} />
+        </div>
+
         {/* Main Card */}
-        <div className="bg-white/[0.02] border border-white/[0.05] rounded-2xl overflow-hidden">
+        <div className={`bg-white/[0.02] border border-white/[0.05] rounded-2xl overflow-hidden ${batchMode ? 'hidden' : ''}`}>
           {/* URL Input Section */}
           <div className="p-6 md:p-8">
             <label className="block text-sm font-medium text-white/60 mb-3">
-              YouTube URL
+              Video or track URL, playlist or channel
             </label>
             <div className="flex gap-3">
               <div className="flex-1 relative">
@@ -196,7 +341,7 @@ export default function Home() {
                   onKeyDown={(e) => e.key === 'Enter' && state !== 'fetching' && fetchVideoInfo()}
                   disabled={state === 'fetching' || state === 'downloading'}
                 />
-                {url && isValidYouTubeUrl(url) && state === 'idle' && (
+                {url && matchSource(url) && state === 'idle' && (
                   <div className="absolute right-3 top-1/2 -translate-y-1/2">
                     <svg className="w-5 h-5 text-green-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
@@ -205,7 +350,7 @@ export default function Home() {
                 )}
               </div>
               <button
-                onClick={state === 'ready' || state === 'complete' ? resetState : fetchVideoInfo}
+                onClick={state === 'ready' || state === 'complete' ? resetState : () => fetchVideoInfo()}
                 disabled={state === 'fetching' || state === 'downloading'}
                 className="px-6 py-3.5 bg-white text-black font-medium rounded-xl hover:bg-white/90 disabled:opacity-50 disabled:cursor-not-allowed transition-all flex items-center gap-2 min-w-[120px] justify-center"
               >
@@ -227,15 +372,16 @@ export default function Home() {
 
             {/* Error Message */}
             {error && (
-              <div className="mt-4 p-4 bg-red-500/10 border border-red-500/20 rounded-xl flex items-start gap-3">
-                <svg className="w-5 h-5 text-red-400 flex-shrink-0 mt-0.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
-                </svg>
-                <div>
-                  <p className="text-red-400 text-sm font-medium">Error</p>
-                  <p className="text-red-400/70 text-sm mt-0.5">{error}</p>
-                </div>
-              </div>
+              <ErrorMessage
+                message={error}
+                code={errorCode}
+                // Restricted videos may work with the server's signed-in cookies
+                onRetryWithCookies={
+                  !useCookies && (errorCode === 'age_restricted' || errorCode === 'members_only')
+                    ? () => fetchVideoInfo(true)
+                    : undefined
+                }
+              />
             )}
           </div>
 
@@ -253,6 +399,19 @@ export default function Home() {
             </div>
           )}
 
+          {/* Playlist */}
+          {playlistInfo && (state === 'ready' || state === 'downloading' || state === 'complete') && (
+            <PlaylistPanel
+              playlist={playlistInfo}
+              selectedIds={selectedIds}
+              onSelectedIdsChange={setSelectedIds}
+              selectedFormat={selectedFormat}
+              onFormatChange={setSelectedFormat}
+              complete={state === 'complete'}
+              onDownload={handlePlaylistDownload}
+            />
+          )}
+
           {/* Video Info */}
           {videoInfo && (state === 'ready' || state === 'downloading' || state === 'complete') && (
             <>
@@ -262,7 +421,7 @@ export default function Home() {
                     <img
                       src={videoInfo.thumbnail}
                       alt={videoInfo.title}
-                      className="w-40 h-24 object-cover rounded-lg"
+                      className={`${videoInfo.provider.thumbnailAspect === 'square' ? 'w-24' : 'w-40'} h-24 object-cover rounded-lg`}
                     />
                     <div className="absolute bottom-2 right-2 px-1.5 py-0.5 bg-black/80 rounded text-xs font-medium">
                       {formatDuration(videoInfo.duration)}
@@ -272,134 +431,280 @@ export default function Home() {
                     <h3 className="font-semibold text-white line-clamp-2 mb-1">
                       {videoInfo.title}
                     </h3>
-                    <p className="text-white/50 text-sm">{videoInfo.uploader}</p>
-                    {videoInfo.formats.length > 0 && (
-                      <div className="flex flex-wrap gap-1.5 mt-3">
-                        {videoInfo.formats.slice(0, 4).map((f) => (
-                          <span
-                            key={f.format_id}
-                            className="px-2 py-0.5 bg-white/[0.05] rounded text-xs text-white/50"
-                          >
-                            {f.acodec} {f.abr ? `${f.abr}k` : ''}
-                          </span>
-                        ))}
-                      </div>
-                    )}
+                    <p className="text-white/50 text-sm">
+                      {videoInfo.uploader}
+                      <span className="text-white/30"> · {videoInfo.provider.name}</span>
+                    </p>
+                    <VideoDetailsPanel url={url} cookies={useCookies || undefined} />
                   </div>
                 </div>
               </div>
 
               {/* Download Options */}
               <div className="border-t border-white/[0.05] p-6 md:p-8 space-y-6">
-                {/* Original Quality Download */}
-                <div>
-                  <div className="flex items-center justify-between mb-3">
-                    <div>
-                      <h4 className="font-medium text-white">Original Quality</h4>
-                      <p className="text-sm text-white/40">Best audio quality, no conversion</p>
-                    </div>
-                    <span className="px-2 py-1 bg-green-500/10 text-green-400 text-xs font-medium rounded-full">
-                      Recommended
-                    </span>
-                  </div>
-                  <button
-                    onClick={() => handleDownload(true)}
-                    disabled={state === 'downloading'}
-                    className="w-full py-4 bg-gradient-to-r from-green-500 to-emerald-500 hover:from-green-600 hover:to-emerald-600 disabled:from-white/10 disabled:to-white/10 text-white font-medium rounded-xl transition-all flex items-center justify-center gap-3"
-                  >
-                    {state === 'downloading' ? (
-                      <>
-                        <svg className="animate-spin h-5 w-5" viewBox="0 0 24 24">
-                          <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" fill="none" />
-                          <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z" />
-                        </svg>
-                        <span>Downloading...</span>
-                        <button
-                          onClick={(e) => { e.stopPropagation(); cancelDownload(); }}
-                          className="ml-2 px-3 py-1 bg-white/20 hover:bg-white/30 rounded-lg text-sm transition-colors"
-                        >
-                          Cancel
-                        </button>
-                      </>
-                    ) : state === 'complete' ? (
-                      <>
-                        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
-                        </svg>
-                        <span>Downloaded!</span>
-                      </>
-                    ) : (
-                      <>
-                        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
-                        </svg>
-                        <span>Download Original</span>
-                      </>
-                    )}
-                  </button>
-                </div>
+                {state === 'downloading' && (
+                  <JobProgressBar job={job} onCancel={cancelDownload} />
+                )}
 
-                {/* Divider */}
-                <div className="relative">
-                  <div className="absolute inset-0 flex items-center">
-                    <div className="w-full border-t border-white/[0.05]"></div>
-                  </div>
-                  <div className="relative flex justify-center">
-                    <span className="px-4 bg-[#0a0a0a] text-white/30 text-sm">or convert to</span>
-                  </div>
-                </div>
+                <label className="flex items-center gap-2 text-sm text-white/50">
+                  <input
+                    type="checkbox"
+                    checked={notifyWhenDone}
+                    onChange={(e) => toggleNotifications(e.target.checked)}
+                  />
+                  Notify me when the download is done, so this tab can stay in the background
+                </label>
+
+                <SharePanel
+                  value={shareOptions}
+                  onChange={setShareOptions}
+                  share={share}
+                  onRevoked={() => setShare(null)}
+                  error={shareError}
+                  disabled={state === 'downloading'}
+                />
 
-                {/* Format Selection */}
-                <div>
-                  <h4 className="font-medium text-white mb-3">Convert Format</h4>
-                  <div className="grid grid-cols-2 md:grid-cols-3 gap-2 mb-4">
-                    {AUDIO_FORMATS.map((format) => (
+                {/* Audio or video */}
+                {videoInfo.videoFormats.length > 0 && (
+                  <div className="flex gap-1 p-1 bg-white/[0.02] border border-white/[0.05] rounded-xl w-fit">
+                    {([['audio', 'Audio'], ['video', 'Video']] as const).map(([value, label]) => (
                       <button
-                        key={format.value}
-                        onClick={() => setSelectedFormat(format.value)}
+                        key={value}
+                        onClick={() => setMediaTab(value)}
                         disabled={state === 'downloading'}
-                        className={`p-3 rounded-xl border transition-all text-left ${
-                          selectedFormat === format.value
-                            ? 'border-white/20 bg-white/[0.05]'
-                            : 'border-white/[0.05] hover:border-white/10 hover:bg-white/[0.02]'
-                        } disabled:opacity-50`}
+                        className={`px-4 py-1.5 rounded-lg text-sm transition-colors ${
+                          mediaTab === value ? 'bg-white/10 text-white' : 'text-white/50 hover:text-white'
+                        }`}
                       >
-                        <div className="flex items-center gap-2 mb-1">
-                          <span className="text-sm">{format.icon}</span>
-                          <span className="font-medium text-sm">{format.label}</span>
-                        </div>
-                        <p className="text-xs text-white/40">{format.desc}</p>
+                        {label}
                       </button>
                     ))}
                   </div>
-                  <button
-                    onClick={() => handleDownload(false, selectedFormat)}
+                )}
+
+                {/* Clip */}
+                {videoInfo.duration > 0 && (
+                  <ClipRangeSelector
+                    duration={videoInfo.duration}
+                    value={clip}
+                    onChange={setClip}
+                    disabled={state === 'downloading' || chapterMode !== 'none'}
+                  />
+                )}
+
+                {mediaTab === 'video' ? (
+                  <VideoPanel
+                    streams={videoInfo.videoFormats}
+                    value={videoOptions}
+                    onChange={setVideoOptions}
+                    onDownload={handleVideoDownload}
+                    downloading={state === 'downloading'}
                     disabled={state === 'downloading'}
-                    className="w-full py-4 bg-white/[0.05] hover:bg-white/[0.08] border border-white/[0.08] disabled:opacity-50 text-white font-medium rounded-xl transition-all flex items-center justify-center gap-3"
-                  >
-                    {state === 'downloading' ? (
-                      <>
-                        <svg className="animate-spin h-5 w-5" viewBox="0 0 24 24">
-                          <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" fill="none" />
-                          <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z" />
-                        </svg>
-                        <span>Converting...</span>
-                      </>
-                    ) : (
-                      <>
-                        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7h12m0 0l-4-4m4 4l-4 4m0 6H4m0 0l4 4m-4-4l4-4" />
-                        </svg>
-                        <span>Convert to {selectedFormat.toUpperCase()}</span>
-                      </>
+                  />
+                ) : (
+                  <>
+                    {/* Chapters */}
+                    {videoInfo.chapters.length > 0 && (
+                      <ChapterPanel
+                        chapters={videoInfo.chapters}
+                        mode={chapterMode}
+                        onModeChange={setChapterMode}
+                        disabled={state === 'downloading' || clip !== null}
+                      />
                     )}
-                  </button>
-                </div>
+
+                    {/* Tags and cover art */}
+                    {metadata && (
+                      <MetadataForm
+                        metadata={metadata}
+                        onMetadataChange={setMetadata}
+                        filenameTemplate={filenameTemplate}
+                        onFilenameTemplateChange={setFilenameTemplate}
+                        cover={cover}
+                        onCoverChange={setCover}
+                        coverImage={coverImage}
+                        onCoverImageChange={setCoverImage}
+                        thumbnail={videoInfo.thumbnail}
+                        thumbnailAspect={videoInfo.provider.thumbnailAspect}
+                        disabled={state === 'downloading'}
+                      />
+                    )}
+
+                    {/* Subtitles */}
+                    {videoInfo.subtitles.length > 0 && (
+                      <SubtitlePanel
+                        tracks={videoInfo.subtitles}
+                        value={subtitles}
+                        onChange={setSubtitles}
+                        onDownload={handleSubtitleDownload}
+                        disabled={state === 'downloading'}
+                      />
+                    )}
+
+                    {/* Source stream */}
+                    <SourceFormatPicker
+                      formats={videoInfo.formats}
+                      providerName={videoInfo.provider.name}
+                      value={formatId}
+                      onChange={setFormatId}
+                      disabled={state === 'downloading'}
+                    />
+
+                    {/* Original Quality Download */}
+                    <div>
+                      <div className="flex items-center justify-between mb-3">
+                        <div>
+                          <h4 className="font-medium text-white">Original Quality</h4>
+                          <p className="text-sm text-white/40">
+                            The source stream as {originalFormat.toUpperCase()}, no re-encoding
+                          </p>
+                        </div>
+                        <span className="px-2 py-1 bg-green-500/10 text-green-400 text-xs font-medium rounded-full">
+                          Recommended
+                        </span>
+                      </div>
+                      {subtitlesUnsupported(originalFormat) && (
+                        <p className="text-xs text-white/40 mb-3">{subtitlesUnsupported(originalFormat)}.</p>
+                      )}
+                      <button
+                        onClick={() => handleDownload(true)}
+                        disabled={
+                          state === 'downloading' ||
+                          (chapterMode === 'embed' && !CHAPTER_MARKER_FORMATS.includes(originalFormat)) ||
+                          coverUnsupported(originalFormat) ||
+                          subtitlesUnsupported(originalFormat) !== null ||
+                          !metadata?.title.trim()
+                        }
+                        className="w-full py-4 bg-gradient-to-r from-green-500 to-emerald-500 hover:from-green-600 hover:to-emerald-600 disabled:from-white/10 disabled:to-white/10 text-white font-medium rounded-xl transition-all flex items-center justify-center gap-3"
+                      >
+                        {state === 'downloading' ? (
+                          <>
+                            <svg className="animate-spin h-5 w-5" viewBox="0 0 24 24">
+                              <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" fill="none" />
+                              <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z" />
+                            </svg>
+                            <span>Downloading...</span>
+                            <button
+                              onClick={(e) => { e.stopPropagation(); cancelDownload(); }}
+                              className="ml-2 px-3 py-1 bg-white/20 hover:bg-white/30 rounded-lg text-sm transition-colors"
+                            >
+                              Cancel
+                            </button>
+                          </>
+                        ) : state === 'complete' ? (
+                          <>
+                            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+                            </svg>
+                            <span>Downloaded!</span>
+                          </>
+                        ) : (
+                          <>
+                            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+                            </svg>
+                            <span>Download Original</span>
+                          </>
+                        )}
+                      </button>
+                    </div>
+
+                    {/* Divider */}
+                    <div className="relative">
+                      <div className="absolute inset-0 flex items-center">
+                        <div className="w-full border-t border-white/[0.05]"></div>
+                      </div>
+                      <div className="relative flex justify-center">
+                        <span className="px-4 bg-[#0a0a0a] text-white/30 text-sm">or convert to</span>
+                      </div>
+                    </div>
+
+                    {/* Format Selection */}
+                    <div>
+                      <h4 className="font-medium text-white mb-3">Convert Format</h4>
+                      <FormatGrid
+                        selected={selectedFormat}
+                        onSelect={selectFormat}
+                        disabled={state === 'downloading'}
+                      />
+                      <div className="mb-4">
+                        <QualityControls
+                          format={selectedFormat}
+                          value={quality}
+                          onChange={setQuality}
+                          duration={clip ? clip.end - clip.start : videoInfo.duration}
+                          disabled={state === 'downloading'}
+                        />
+                      </div>
+                      <div className="mb-4">
+                        <PostProcessingPanel
+                          value={postProcessing}
+                          onChange={setPostProcessing}
+                          report={job?.loudness ?? null}
+                          disabled={state === 'downloading'}
+                        />
+                      </div>
+                      {chapterMode === 'embed' && !CHAPTER_MARKER_FORMATS.includes(selectedFormat) && (
+                        <p className="text-xs text-white/40 mb-3">
+                          {selectedFormat.toUpperCase()} can&apos;t hold chapter markers. Pick M4A, MP3 or Opus.
+                        </p>
+                      )}
+                      {coverUnsupported(selectedFormat) && (
+                        <p className="text-xs text-white/40 mb-3">
+                          Cropped or uploaded covers need MP3, M4A or FLAC.
+                        </p>
+                      )}
+                      {filtersUnsupported(selectedFormat) && (
+                        <p className="text-xs text-white/40 mb-3">
+                          {chapterMode !== 'none' && shiftsTimestamps(postProcessing)
+                            ? 'Silence trimming and speed changes can\'t be combined with chapters.'
+                            : 'Audio filters would drop the Opus cover art. Pick "No cover" or another format.'}
+                        </p>
+                      )}
+                      {subtitlesUnsupported(selectedFormat, postProcessing) && (
+                        <p className="text-xs text-white/40 mb-3">{subtitlesUnsupported(selectedFormat, postProcessing)}.</p>
+                      )}
+                      <button
+                        onClick={() => handleDownload(false, selectedFormat)}
+                        disabled={
+                          state === 'downloading' ||
+                          (chapterMode === 'embed' && !CHAPTER_MARKER_FORMATS.includes(selectedFormat)) ||
+                          coverUnsupported(selectedFormat) ||
+                          filtersUnsupported(selectedFormat) ||
+                          subtitlesUnsupported(selectedFormat, postProcessing) !== null ||
+                          !metadata?.title.trim()
+                        }
+                        className="w-full py-4 bg-white/[0.05] hover:bg-white/[0.08] border border-white/[0.08] disabled:opacity-50 text-white font-medium rounded-xl transition-all flex items-center justify-center gap-3"
+                      >
+                        {state === 'downloading' ? (
+                          <>
+                            <svg className="animate-spin h-5 w-5" viewBox="0 0 24 24">
+                              <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" fill="none" />
+                              <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z" />
+                            </svg>
+                            <span>Converting...</span>
+                          </>
+                        ) : (
+                          <>
+                            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7h12m0 0l-4-4m4 4l-4 4m0 6H4m0 0l4 4m-4-4l4-4" />
+                            </svg>
+                            <span>Convert to {selectedFormat.toUpperCase()}</span>
+                          </>
+                        )}
+                      </button>
+                    </div>
+                  </>
+                )}
               </div>
             </>
           )}
         </div>
 
+        <LibraryPanel refreshKey={libraryVersion} />
+
+        <FeedPanel />
+
         {/* Features */}
         <div className="mt-12 grid grid-cols-1 md:grid-cols-3 gap-4">
           <div className="p-5 bg-white/[0.02] border border-white/[0.05] rounded-xl">
@@ -0,0 +1,333 @@
+import { readFile } from 'fs/promises';
+import { resolve } from 'path';
+import { parseArgs } from 'util';
+import { validateSchema } from '@/lib/api-schema';
+import { AudioRequest, prepareAudioRequest, saveAudio } from '@/lib/download';
+import { ApiError, ERROR_HELP } from '@/lib/error-codes';
+import { formatDuration, parseDuration } from '@/lib/format';
+import { getVideoDetails, getVideoInfo } from '@/lib/info-cache';
+import { setLogLevel } from '@/lib/logger';
+import { INITIAL_PROGRESS, JobProgress, parseProgressLine, postprocessorLabel } from '@/lib/progress';
+import { matchSource, validateSourceUrl } from '@/lib/providers';
+import { formatBytes } from '@/lib/quality';
+import type { SubtitleFormat, SubtitleMode } from '@/lib/subtitle-options';
+import type { VideoContainer } from '@/lib/video-options';
+import { getPlaylistInfo } from '@/lib/video-info';
+
+// The server's JSON logs would bury the progress output; LOG_LEVEL brings them back
+if (!process.env.LOG_LEVEL) setLogLevel('silent');
+
+const USAGE = `Usage:
+  rares-dl info <url> [--json] [--cookies]
+  rares-dl get <url...> [options]
+  rares-dl get --batch <file> [options]
+
+Playlist and channel URLs download every entry. A batch file lists one URL
+per line; blank lines and lines starting with # are skipped, and - reads
+the list from stdin.
+
+Options for get:
+  -f, --format <format>     best, aac, alac, flac, m4a, mp3 (default), opus, vorbis, wav
+  -o, --out <dir>           Where to save the files (default: current directory)
+      --original            Keep the source stream without re-encoding
+      --source <id>         Source stream from "info", or best, best-m4a, best-opus
+      --start <time>        Clip start, e.g. 90 or 1:30
+      --end <time>          Clip end
+      --chapters <mode>     split (one file per chapter, zipped) or embed (markers)
+      --name <template>     title (default), artist-title, track-title, track-artist-title
+      --cover <mode>        thumbnail (default), square or none
+      --title, --artist, --album, --year, --track, --genre <value>
+                            Tags to write instead of the video's own; --title is required with any of them
+      --video               Download the video instead of extracting the audio
+      --height <px>         Tallest video resolution, e.g. 1080 (default: best)
+      --container <c>       Video container: mp4 (default), mkv or webm
+      --mute                Video without its audio
+      --subs <lang>         Subtitles in this language, from "info"
+      --auto-subs           Use the automatic captions in that language
+      --subs-format <fmt>   srt (default), vtt or txt (plain transcript)
+      --subs-mode <mode>    only (default; no audio), lyrics (into the tags) or sidecar (zipped with the audio)
+      --cookies             Use the cookie jar in YTDLP_COOKIES_FILE
+  -q, --quiet               Only print the saved paths
+`;
+
+// Bad arguments; printed with the usage instead of as a failed download
+class UsageError extends Error {}
+
+const TAGS = ['title', 'artist', 'album', 'year', 'track', 'genre'] as const;
+
+const { values: options, positionals } = (() => {
+  try {
+    return parseArgs({
+      allowPositionals: true,
+      options: {
+        json: { type: 'boolean' },
+        cookies: { type: 'boolean' },
+        batch: { type: 'string' },
+        format: { type: 'string', short: 'f' },
+        out: { type: 'string', short: 'o' },
+        original: { type: 'boolean' },
+        source: { type: 'string' },
+        start: { type: 'string' },
+        end: { type: 'string' },
+        chapters: { type: 'string' },
+        name: { type: 'string' },
+        cover: { type: 'string' },
+        title: { type: 'string' },
+        artist: { type: 'string' },
+        album: { type: 'string' },
+        year: { type: 'string' },
+        track: { type: 'string' },
+        genre: { type: 'string' },
+        video: { type: 'boolean' },
+        height: { type: 'string' },
+        container: { type: 'string' },
+        mute: { type: 'boolean' },
+        subs: { type: 'string' },
+        'auto-subs': { type: 'boolean' },
+        'subs-format': { type: 'string' },
+        'subs-mode': { type: 'string' },
+        quiet: { type: 'boolean', short: 'q' },
+        help: { type: 'boolean', short: 'h' }
+      }
+    });
+  } catch (error) {
+    console.error(`${(error as Error).message}\n\n${USAGE}`);
+    process.exit(2);
+  }
+})();
+
+// Ctrl-C stops yt-dlp and ffmpeg, which run in their own process groups
+const controller = new AbortController();
+process.once('SIGINT', () => controller.abort(new Error('Cancelled')));
+
+function parseTime(name: string, value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const seconds = parseDuration(value);
+  if (seconds === null) {
+    throw new UsageError(`--${name} must be seconds or a time like 1:30`);
+  }
+  return seconds;
+}
+
+// The request body the web page would send for these options
+function toRequestBody(url: string): AudioRequest {
+  const tags = Object.fromEntries(TAGS.filter(tag => options[tag] !== undefined).map(tag => [tag, options[tag]]));
+  return {
+    url,
+    format: options.format,
+    original: options.original,
+    formatId: options.source,
+    start: parseTime('start', options.start),
+    end: parseTime('end', options.end),
+    chapters: options.chapters as AudioRequest['chapters'],
+    metadata: Object.keys(tags).length > 0 ? tags : undefined,
+    filenameTemplate: options.name as AudioRequest['filenameTemplate'],
+    cover: options.cover as AudioRequest['cover'],
+    video: options.video ? {
+      container: (options.container ?? 'mp4') as VideoContainer,
+      height: options.height === undefined ? undefined : Number(options.height),
+      audio: options.mute ? false : undefined
+    } : undefined,
+    subtitles: options.subs === undefined ? undefined : {
+      language: options.subs,
+      automatic: options['auto-subs'],
+      format: options['subs-format'] as SubtitleFormat | undefined,
+      mode: (options['subs-mode'] ?? 'only') as SubtitleMode
+    },
+    cookies: options.cookies
+  };
+}
+
+// Rewrites one status line on a terminal; stays quiet when piped
+function progressReporter(label: string): ((line: string) => void) | undefined {
+  if (options.quiet || !process.stderr.isTTY) return undefined;
+
+  let progress: JobProgress = INITIAL_PROGRESS;
+  return (line) => {
+    const next = parseProgressLine(line, progress);
+    if (next === progress) return;
+    progress = next;
+
+    const status = progress.stage === 'downloading'
+      ? [`${progress.percent?.toFixed(1) ?? '?'}%`, progress.speed && `at ${progress.speed}`, progress.eta && `ETA ${progress.eta}`]
+        .filter(Boolean).join(' ')
+      : postprocessorLabel(progress.postprocessor ?? '');
+    process.stderr.write(`\r\x1b[K${label} ${status}`);
+  };
+}
+
+function log(message: string) {
+  if (!options.quiet) console.error(message);
+}
+
+function describeError(error: unknown): string {
+  if (error instanceof ApiError) {
+    return `${error.message} (${error.code}). ${ERROR_HELP[error.code].action}`;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
+
+async function readBatch(file: string): Promise<string[]> {
+  const text = file === '-'
+    ? await new Response(process.stdin as unknown as ReadableStream).text()
+    : await readFile(file, 'utf8');
+  return text.split('\n').map(line => line.trim()).filter(line => line && !line.startsWith('#'));
+}
+
+// Playlist and channel URLs stand for their entries
+async function expandUrls(urls: string[]): Promise<string[]> {
+  const expanded: string[] = [];
+  for (const url of urls) {
+    const urlError = validateSourceUrl(url);
+    if (urlError) {
+      throw new UsageError(`${url}: ${urlError}`);
+    }
+
+    const source = matchSource(url)!;
+    if (!source.playlist) {
+      expanded.push(source.url);
+      continue;
+    }
+    if (!source.provider.entryUrl) {
+      throw new UsageError(`${source.provider.name} playlists can't be downloaded entry by entry`);
+    }
+
+    const playlist = await getPlaylistInfo(source.url, { signal: controller.signal, cookies: options.cookies });
+    log(`${playlist.title}: ${playlist.entries.length} entries`);
+    for (const entry of playlist.entries) {
+      const entryUrl = source.provider.entryUrl(entry.id);
+      if (entryUrl) expanded.push(entryUrl);
+    }
+  }
+  return expanded;
+}
+
+async function info(url: string | undefined) {
+  const urlError = validateSourceUrl(url);
+  if (urlError) {
+    throw new UsageError(urlError);
+  }
+
+  const source = matchSource(url!)!;
+  const lookup = { signal: controller.signal, cookies: options.cookies };
+  const data = source.playlist ? await getPlaylistInfo(source.url, lookup) : await getVideoInfo(source.url, lookup);
+
+  if (options.json) {
+    console.log(JSON.stringify(data, null, 2));
+    return;
+  }
+
+  console.log(`${data.title}\n${data.uploader}`);
+  if (data.type === 'playlist') {
+    for (const [index, entry] of data.entries.entries()) {
+      console.log(`${String(index + 1).padStart(4)}  ${entry.duration ? formatDuration(entry.duration).padStart(8) : '        '}  ${entry.title}`);
+    }
+    return;
+  }
+
+  console.log(`Duration: ${formatDuration(data.duration)}`);
+  // Answered from the lookup above
+  const details = await getVideoDetails(source.url, lookup);
+  if (details.view_count !== null) {
+    console.log(`Views: ${details.view_count.toLocaleString('en-US')}`);
+  }
+  if (details.tags.length > 0) {
+    console.log(`Tags: ${details.tags.join(', ')}`);
+  }
+  if (data.chapters.length > 0) {
+    console.log(`\nChapters:`);
+    for (const chapter of data.chapters) {
+      console.log(`  ${formatDuration(chapter.start_time).padStart(8)}  ${chapter.title}`);
+    }
+  }
+  if (data.subtitles.length > 0) {
+    console.log(`\nSubtitles (for --subs):`);
+    for (const track of data.subtitles) {
+      console.log(`  ${track.language.padEnd(12)} ${track.name}${track.automatic ? ' (automatic, with --auto-subs)' : ''}`);
+    }
+  }
+  const heights = [...new Set(data.videoFormats.map(format => format.height))];
+  if (heights.length > 0) {
+    console.log(`\nVideo (for --video --height): ${heights.map(height => `${height}p`).join(', ')}`);
+  }
+  console.log(`\nSource streams (for --source):`);
+  for (const format of data.formats) {
+    const details = [format.acodec, format.abr && `${Math.round(format.abr)} kbps`, format.filesize && formatBytes(format.filesize), format.format_note]
+      .filter(Boolean).join(', ');
+    console.log(`  ${format.format_id.padEnd(12)} ${details}`);
+  }
+}
+
+async function get(args: string[]): Promise<number> {
+  const urls = [...args, ...(options.batch ? await readBatch(options.batch) : [])];
+  if (urls.length === 0) {
+    throw new UsageError('Give at least one URL, or --batch <file>');
+  }
+
+  // Option mistakes are the same for every URL, so they stop the run up front
+  const optionsError = validateSchema('AudioRequest', toRequestBody('-'));
+  if (optionsError) {
+    throw new UsageError(optionsError);
+  }
+
+  const outDir = resolve(options.out ?? '.');
+  const entries = await expandUrls(urls);
+  let failed = 0;
+
+  for (const [index, url] of entries.entries()) {
+    if (controller.signal.aborted) break;
+
+    const label = entries.length > 1 ? `[${index + 1}/${entries.length}]` : '';
+    const onLine = progressReporter(label || url);
+    try {
+      const request = await prepareAudioRequest(toRequestBody(url), controller.signal);
+      const file = await saveAudio(request, outDir, { signal: controller.signal, queue: true, onLine });
+      if (onLine) process.stderr.write('\r\x1b[K');
+      console.log(file.filePath);
+    } catch (error) {
+      if (onLine) process.stderr.write('\r\x1b[K');
+      if (controller.signal.aborted) break;
+      failed++;
+      console.error(`${label ? `${label} ` : ''}${url}: ${describeError(error)}`);
+    }
+  }
+
+  if (controller.signal.aborted) {
+    log('Cancelled');
+    return 130;
+  }
+  if (entries.length > 1) {
+    log(`${entries.length - failed} of ${entries.length} saved to ${outDir}`);
+  }
+  return failed > 0 ? 1 : 0;
+}
+
+async function main(): Promise<number> {
+  const [command, ...args] = positionals;
+  if (options.help || !command) {
+    console.log(USAGE);
+    return options.help ? 0 : 2;
+  }
+
+  switch (command) {
+    case 'info':
+      await info(args[0]);
+      return 0;
+    case 'get':
+      return get(args);
+    default:
+      throw new UsageError(`Unknown command: ${command}`);
+  }
+}
+
+main().then(
+  (code) => process.exit(code),
+  (error) => {
+    if (error instanceof UsageError) {
+      console.error(`${error.message}\n\n${USAGE}`);
+      process.exit(2);
+    }
+    console.error(describeError(error));
+    process.exit(controller.signal.aborted ? 130 : 1);
+  }
+);
@@ -0,0 +1,356 @@
+import { useRef, useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { AUDIO_FORMATS } from './FormatGrid';
+import { api, AudioFormat, JobSnapshot } from '@/lib/api-client';
+import { parseUrlList, retryWhenLimited, runPool } from '@/lib/batch';
+import { startDownload } from '@/lib/browser-download';
+import { ApiError, ERROR_HELP } from '@/lib/error-codes';
+import { formatDuration } from '@/lib/format';
+import { waitForJob } from '@/lib/job-client';
+import { postprocessorLabel } from '@/lib/progress';
+import { getProvider } from '@/lib/providers';
+
+type RowStatus = 'resolving' | 'ready' | 'converting' | 'complete' | 'error';
+
+interface BatchRow {
+  // Canonical URL, which is also what duplicates are detected by
+  url: string;
+  title: string | null;
+  duration: number | null;
+  // Overrides the batch format for this row
+  format: string | null;
+  status: RowStatus;
+  job: JobSnapshot | null;
+  error: string | null;
+  // Failed before it was looked up, so a retry starts with the lookup
+  resolved: boolean;
+  // Saved on its own; the job stays for the zip
+  saved: boolean;
+}
+
+// Lookups and conversions running at once; parallel mode keeps the server's job queue fed
+const LOOKUP_CONCURRENCY = 3;
+const PARALLEL_CONVERSIONS = 3;
+
+const isAbort = (error: unknown) => error instanceof DOMException && error.name === 'AbortError';
+
+const errorMessage = (error: unknown) =>
+  error instanceof ApiError && error.message === ERROR_HELP[error.code].message
+    ? `${error.message}. ${ERROR_HELP[error.code].action}`
+    : error instanceof Error ? error.message : 'Something went wrong';
+
+interface BatchPanelProps {
+  // Called after conversions finish, so the library can refresh
+  onConverted: () => void;
+}
+
+export default function BatchPanel({ onConverted }: BatchPanelProps) {
+  const [text, setText] = useState('');
+  const [rows, setRows] = useState<BatchRow[]>([]);
+  const [notice, setNotice] = useState('');
+  const [format, setFormat] = useState('mp3');
+  const [parallel, setParallel] = useState(false);
+  const [running, setRunning] = useState(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const runningJobsRef = useRef(new Set<string>());
+  // Tells the server the jobs belong together, so it keeps them until the zip is fetched
+  const batchIdRef = useRef(uuidv4());
+
+  const updateRow = (url: string, patch: Partial<BatchRow>) => {
+    setRows((current) => current.map((row) => (row.url === url ? { ...row, ...patch } : row)));
+  };
+
+  // Resolves to whether the row is a single video, ready to convert
+  const resolveRow = async (url: string): Promise<boolean> => {
+    updateRow(url, { status: 'resolving', error: null });
+    try {
+      const info = await retryWhenLimited(() => api.info({ url }));
+      if (info.type === 'video') {
+        updateRow(url, { status: 'ready', title: info.title, duration: info.duration || null, resolved: true });
+        return true;
+      }
+
+      // A playlist stands for its entries, minus any already in the table
+      const provider = getProvider(info.provider.id);
+      setRows((current) => {
+        const known = new Set(current.map((row) => row.url));
+        const entries: BatchRow[] = info.entries.flatMap((entry) => {
+          const entryUrl = provider?.entryUrl?.(entry.id);
+          if (!entryUrl || known.has(entryUrl)) return [];
+          known.add(entryUrl);
+          return [{
+            url: entryUrl, title: entry.title, duration: entry.duration, format: null,
+            status: 'ready', job: null, error: null, resolved: true, saved: false,
+          }];
+        });
+        const index = current.findIndex((row) => row.url === url);
+        return [...current.slice(0, index), ...entries, ...current.slice(index + 1)];
+      });
+      if (!provider?.entryUrl) {
+        setNotice(`${info.provider.name} playlists can't be converted entry by entry.`);
+      }
+    } catch (error) {
+      updateRow(url, { status: 'error', error: errorMessage(error) });
+    }
+    return false;
+  };
+
+  const addUrls = () => {
+    const { urls, duplicates, invalid } = parseUrlList(text, rows.map((row) => row.url));
+    setNotice([
+      duplicates > 0 && `${duplicates} duplicate ${duplicates === 1 ? 'link was' : 'links were'} skipped.`,
+      invalid.length > 0 && `Not supported: ${invalid.slice(0, 3).join(', ')}${invalid.length > 3 ? ` and ${invalid.length - 3} more` : ''}.`,
+    ].filter(Boolean).join(' '));
+    if (urls.length === 0) return;
+
+    setText('');
+    setRows((current) => [
+      ...current,
+      ...urls.map((url): BatchRow => ({
+        url, title: null, duration: null, format: null,
+        status: 'resolving', job: null, error: null, resolved: false, saved: false,
+      })),
+    ]);
+    runPool(urls, LOOKUP_CONCURRENCY, async (url) => {
+      await resolveRow(url);
+    });
+  };
+
+  const convertRow = async (row: BatchRow, signal: AbortSignal) => {
+    if (signal.aborted) return;
+    updateRow(row.url, { status: 'converting', job: null, error: null, saved: false });
+
+    let jobId: string | null = null;
+    try {
+      const created = await retryWhenLimited(
+        () => api.createJob({ url: row.url, format: (row.format ?? format) as AudioFormat, batchId: batchIdRef.current }, signal),
+        signal
+      );
+      jobId = created.id;
+      runningJobsRef.current.add(jobId);
+      updateRow(row.url, { job: created });
+
+      const finished = await waitForJob(created.id, (job) => updateRow(row.url, { job }), signal);
+      if (finished.status !== 'complete') {
+        throw new ApiError(finished.errorCode ?? 'download_failed', finished.error ?? undefined);
+      }
+      updateRow(row.url, { status: 'complete', job: finished });
+    } catch (error) {
+      updateRow(row.url, isAbort(error)
+        ? { status: 'ready', job: null }
+        : { status: 'error', error: errorMessage(error) });
+    } finally {
+      if (jobId) runningJobsRef.current.delete(jobId);
+    }
+  };
+
+  const convert = async (targets: BatchRow[]) => {
+    abortControllerRef.current = new AbortController();
+    const { signal } = abortControllerRef.current;
+    setRunning(true);
+
+    // Rows that failed their lookup get another one first
+    const lookedUp: BatchRow[] = [];
+    await runPool(targets.filter((row) => !row.resolved), LOOKUP_CONCURRENCY, async (row) => {
+      if (await resolveRow(row.url)) lookedUp.push(row);
+    });
+
+    const ready = [...targets.filter((row) => row.resolved), ...lookedUp];
+    await runPool(ready, parallel ? PARALLEL_CONVERSIONS : 1, (row) => convertRow(row, signal));
+    setRunning(false);
+    onConverted();
+  };
+
+  const cancel = () => {
+    abortControllerRef.current?.abort();
+    // Stop the server-side conversions too
+    for (const id of runningJobsRef.current) {
+      api.cancelJob(id).catch(() => {});
+    }
+    runningJobsRef.current.clear();
+  };
+
+  const saveRow = (row: BatchRow) => {
+    if (!row.job) return;
+    startDownload(api.jobFileUrl(row.job.id));
+    updateRow(row.url, { saved: true });
+  };
+
+  const toZip = rows.filter((row) => row.status === 'complete' && row.job);
+  const pending = rows.filter((row) => row.status === 'ready');
+  const failed = rows.filter((row) => row.status === 'error');
+
+  const statusLabel = (row: BatchRow) => {
+    if (row.status === 'resolving') return 'Looking up...';
+    if (row.status === 'ready') return 'Ready';
+    if (row.status === 'complete') return row.saved ? 'Saved' : 'Done';
+    if (row.status === 'error') return 'Failed';
+    const job = row.job;
+    if (!job || job.status === 'queued') return job?.queuePosition ? `Queued (#${job.queuePosition})` : 'Queued';
+    if (job.progress.stage === 'downloading' && job.progress.percent != null) return `${job.progress.percent.toFixed(0)}%`;
+    if (job.progress.stage === 'post-processing' && job.progress.postprocessor) {
+      return postprocessorLabel(job.progress.postprocessor);
+    }
+    return 'Starting...';
+  };
+
+  return (
+    <div className="p-6 md:p-8">
+      <label className="block text-sm font-medium text-white/60 mb-3">
+        URLs, one per line or pasted from a spreadsheet
+      </label>
+      <textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        rows={5}
+        placeholder={'https://youtube.com/watch?v=...\nhttps://soundcloud.com/...'}
+        className="w-full px-4 py-3 bg-white/[0.03] border border-white/[0.08] rounded-xl text-white placeholder-white/30 focus:outline-none focus:border-white/20 focus:bg-white/[0.05] transition-all text-sm font-mono"
+      />
+      <div className="flex items-center justify-between gap-3 mt-3">
+        <p className="text-xs text-white/40">{notice}</p>
+        <button
+          onClick={addUrls}
+          disabled={!text.trim()}
+          className="px-5 py-2.5 bg-white text-black font-medium rounded-xl hover:bg-white/90 disabled:opacity-50 disabled:cursor-not-allowed transition-all flex-shrink-0"
+        >
+          Add to batch
+        </button>
+      </div>
+
+      {rows.length > 0 && (
+        <>
+          <div className="mt-6 border border-white/[0.05] rounded-xl overflow-hidden">
+            <table className="w-full text-sm">
+              <thead className="bg-white/[0.02] text-xs text-white/40 text-left">
+                <tr>
+                  <th className="px-4 py-2 font-medium">Title</th>
+                  <th className="px-2 py-2 font-medium w-20">Length</th>
+                  <th className="px-2 py-2 font-medium w-28">Format</th>
+                  <th className="px-2 py-2 font-medium w-36">Status</th>
+                  <th className="px-4 py-2 w-24" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-white/[0.05]">
+                {rows.map((row) => (
+                  <tr key={row.url} className="align-top">
+                    <td className="px-4 py-2.5 max-w-0">
+                      <p className="truncate text-white">{row.title ?? row.url}</p>
+                      {row.error && <p className="text-xs text-red-400 mt-0.5">{row.error}</p>}
+                    </td>
+                    <td className="px-2 py-2.5 text-white/40">{row.duration ? formatDuration(row.duration) : ''}</td>
+                    <td className="px-2 py-2">
+                      <select
+                        value={row.format ?? ''}
+                        onChange={(e) => updateRow(row.url, { format: e.target.value || null })}
+                        disabled={row.status === 'converting' || row.status === 'resolving'}
+                        className="bg-white/[0.03] border border-white/[0.08] rounded-lg px-2 py-1 text-xs text-white disabled:opacity-50"
+                      >
+                        <option value="">{format.toUpperCase()}</option>
+                        {AUDIO_FORMATS.filter((f) => f.value !== format).map((f) => (
+                          <option key={f.value} value={f.value}>{f.label}</option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className={`px-2 py-2.5 text-xs ${row.status === 'error' ? 'text-red-400' : 'text-white/60'}`}>
+                      {statusLabel(row)}
+                    </td>
+                    <td className="px-4 py-2 text-right whitespace-nowrap">
+                      {row.status === 'complete' && row.job && (
+                        <button onClick={() => saveRow(row)} className="text-xs text-white/60 hover:text-white transition-colors">
+                          Save
+                        </button>
+                      )}
+                      {row.status === 'error' && !running && (
+                        <button onClick={() => convert([row])} className="text-xs text-white/60 hover:text-white transition-colors">
+                          Retry
+                        </button>
+                      )}
+                      {row.status !== 'converting' && !running && (
+                        <button
+                          onClick={() => setRows((current) => current.filter((r) => r.url !== row.url))}
+                          className="ml-3 text-xs text-white/40 hover:text-red-400 transition-colors"
+                        >
+                          Remove
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="mt-6">
+            <h4 className="font-medium text-white mb-3">Format for every row</h4>
+            <div className="flex flex-wrap gap-2 mb-4">
+              {AUDIO_FORMATS.map((f) => (
+                <button
+                  key={f.value}
+                  onClick={() => setFormat(f.value)}
+                  disabled={running}
+                  className={`px-3 py-1.5 rounded-lg border text-sm transition-all ${
+                    format === f.value
+                      ? 'border-white/20 bg-white/[0.05]'
+                      : 'border-white/[0.05] hover:border-white/10 hover:bg-white/[0.02]'
+                  } disabled:opacity-50`}
+                >
+                  {f.label}
+                </button>
+              ))}
+            </div>
+
+            <div className="flex items-center gap-4 mb-4 text-sm">
+              <label className="flex items-center gap-2 text-white/60 cursor-pointer">
+                <input type="radio" checked={!parallel} onChange={() => setParallel(false)} disabled={running} className="accent-white" />
+                One at a time
+              </label>
+              <label className="flex items-center gap-2 text-white/60 cursor-pointer">
+                <input type="radio" checked={parallel} onChange={() => setParallel(true)} disabled={running} className="accent-white" />
+                In parallel
+              </label>
+            </div>
+
+            <div className="flex flex-wrap gap-3">
+              {running ? (
+                <button
+                  onClick={cancel}
+                  className="flex-1 py-3 bg-white/10 hover:bg-white/20 rounded-xl text-white font-medium transition-colors"
+                >
+                  Cancel
+                </button>
+              ) : (
+                <>
+                  <button
+                    onClick={() => convert(pending)}
+                    disabled={pending.length === 0}
+                    className="flex-1 py-3 bg-white/[0.05] hover:bg-white/[0.08] border border-white/[0.08] disabled:opacity-50 text-white font-medium rounded-xl transition-all"
+                  >
+                    Convert {pending.length} {pending.length === 1 ? 'row' : 'rows'}
+                  </button>
+                  {failed.length > 0 && (
+                    <button
+                      onClick={() => convert(failed)}
+                      className="py-3 px-5 bg-white/[0.05] hover:bg-white/[0.08] border border-white/[0.08] text-white font-medium rounded-xl transition-all"
+                    >
+                      Retry {failed.length} failed
+                    </button>
+                  )}
+                </>
+              )}
+              <button
+                onClick={() => startDownload(api.jobArchiveUrl({ ids: toZip.map((row) => row.job!.id), name: 'batch' }))}
+                disabled={toZip.length === 0}
+                className="py-3 px-5 bg-white text-black font-medium rounded-xl hover:bg-white/90 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+              >
+                Download {toZip.length} as zip
+              </button>
+            </div>
+            <p className="text-xs text-white/30 mt-3">
+              Finished files are kept on the server until 15 minutes after the last one finishes.
+            </p>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,59 @@
+import type { Chapter } from '@/lib/api-client';
+import { formatDuration } from '@/lib/format';
+
+export type ChapterMode = 'none' | 'embed' | 'split';
+
+// Mirrors CHAPTERS_SUPPORTED on the server
+export const CHAPTER_MARKER_FORMATS = ['m4a', 'mp3', 'opus'];
+
+interface ChapterPanelProps {
+  chapters: Chapter[];
+  mode: ChapterMode;
+  onModeChange: (mode: ChapterMode) => void;
+  disabled?: boolean;
+}
+
+const MODES: { value: ChapterMode; label: string; desc: string }[] = [
+  { value: 'none', label: 'Single file', desc: 'One track for the whole video' },
+  { value: 'embed', label: 'Chapter markers', desc: 'One track with chapters (M4A, MP3, Opus)' },
+  { value: 'split', label: 'Track per chapter', desc: 'Zip with one file per chapter' },
+];
+
+export default function ChapterPanel({ chapters, mode, onModeChange, disabled }: ChapterPanelProps) {
+  return (
+    <div>
+      <div className="mb-3">
+        <h4 className="font-medium text-white">Chapters</h4>
+        <p className="text-sm text-white/40">{chapters.length} chapters in this video</p>
+      </div>
+
+      <ol className="max-h-48 overflow-y-auto border border-white/[0.05] rounded-xl divide-y divide-white/[0.05] mb-3">
+        {chapters.map((chapter, index) => (
+          <li key={`${chapter.start_time}-${index}`} className="flex items-center gap-3 px-4 py-2 text-sm">
+            <span className="text-xs text-white/30 w-6 text-right">{index + 1}</span>
+            <span className="flex-1 min-w-0 truncate">{chapter.title}</span>
+            <span className="text-xs text-white/40 font-mono">{formatDuration(chapter.start_time)}</span>
+          </li>
+        ))}
+      </ol>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+        {MODES.map((option) => (
+          <button
+            key={option.value}
+            onClick={() => onModeChange(option.value)}
+            disabled={disabled}
+            className={`p-3 rounded-xl border transition-all text-left ${
+              mode === option.value
+                ? 'border-white/20 bg-white/[0.05]'
+                : 'border-white/[0.05] hover:border-white/10 hover:bg-white/[0.02]'
+            } disabled:opacity-50`}
+          >
+            <span className="block font-medium text-sm mb-1">{option.label}</span>
+            <span className="block text-xs text-white/40">{option.desc}</span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+import { useState } from 'react';
+import { formatDuration, parseDuration } from '@/lib/format';
+
+export interface ClipRange {
+  start: number;
+  end: number;
+}
+
+interface ClipRangeSelectorProps {
+  duration: number;
+  // null means the whole video
+  value: ClipRange | null;
+  onChange: (value: ClipRange | null) => void;
+  disabled?: boolean;
+}
+
+export default function ClipRangeSelector({ duration, value, onChange, disabled }: ClipRangeSelectorProps) {
+  const total = Math.floor(duration);
+  const range = value ?? { start: 0, end: total };
+
+  return (
+    <div>
+      <label className="flex items-center justify-between mb-3 cursor-pointer">
+        <div>
+          <h4 className="font-medium text-white">Clip</h4>
+          <p className="text-sm text-white/40">
+            {value
+              ? `${formatDuration(range.start)} – ${formatDuration(range.end)} (${formatDuration(range.end - range.start)})`
+              : 'Download the whole video'}
+          </p>
+        </div>
+        <input
+          type="checkbox"
+          checked={value !== null}
+          onChange={(e) => onChange(e.target.checked ? { start: 0, end: total } : null)}
+          disabled={disabled || total <= 1}
+          className="accent-white w-4 h-4"
+        />
+      </label>
+
+      {value && (
+        <div className="space-y-3">
+          <div className="grid grid-cols-2 gap-3">
+            <TimestampInput
+              label="Start"
+              seconds={range.start}
+              disabled={disabled}
+              onCommit={(start) => onChange({ ...range, start: Math.min(start, range.end - 1) })}
+            />
+            <TimestampInput
+              label="End"
+              seconds={range.end}
+              disabled={disabled}
+              onCommit={(end) => onChange({ ...range, end: Math.max(Math.min(end, total), range.start + 1) })}
+            />
+          </div>
+          <input
+            type="range"
+            min={0}
+            max={total}
+            value={range.start}
+            onChange={(e) => onChange({ ...range, start: Math.min(Number(e.target.value), range.end - 1) })}
+            disabled={disabled}
+            className="w-full accent-white"
+            aria-label="Clip start"
+          />
+          <input
+            type="range"
+            min={0}
+            max={total}
+            value={range.end}
+            onChange={(e) => onChange({ ...range, end: Math.max(Number(e.target.value), range.start + 1) })}
+            disabled={disabled}
+            className="w-full accent-white"
+            aria-label="Clip end"
+          />
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface TimestampInputProps {
+  label: string;
+  seconds: number;
+  onCommit: (seconds: number) => void;
+  disabled?: boolean;
+}
+
+// Free-text h:mm:ss field that only applies the value once it parses
+function TimestampInput({ label, seconds, onCommit, disabled }: TimestampInputProps) {
+  const [draft, setDraft] = useState<string | null>(null);
+
+  const commit = () => {
+    if (draft === null) return;
+    const parsed = parseDuration(draft);
+    if (parsed !== null) onCommit(parsed);
+    setDraft(null);
+  };
+
+  return (
+    <label className="block">
+      <span className="block text-xs text-white/40 mb-1">{label}</span>
+      <input
+        type="text"
+        value={draft ?? formatDuration(seconds)}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => e.key === 'Enter' && commit()}
+        disabled={disabled}
+        className="w-full px-3 py-2 bg-white/[0.03] border border-white/[0.08] rounded-lg text-sm text-white focus:outline-none focus:border-white/20 font-mono"
+      />
+    </label>
+  );
+}
@@ -0,0 +1,33 @@
+import { ERROR_HELP, ErrorCode } from '@/lib/error-codes';
+
+interface ErrorMessageProps {
+  message: string;
+  // Set for errors the API classified; adds what the user can do about it
+  code: ErrorCode | null;
+  onRetryWithCookies?: () => void;
+}
+
+export default function ErrorMessage({ message, code, onRetryWithCookies }: ErrorMessageProps) {
+  const help = code ? ERROR_HELP[code] : null;
+
+  return (
+    <div className="mt-4 p-4 bg-red-500/10 border border-red-500/20 rounded-xl flex items-start gap-3">
+      <svg className="w-5 h-5 text-red-400 flex-shrink-0 mt-0.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+      </svg>
+      <div>
+        <p className="text-red-400 text-sm font-medium">{help?.message ?? 'Error'}</p>
+        {message !== help?.message && <p className="text-red-400/70 text-sm mt-0.5">{message}</p>}
+        {help && <p className="text-white/50 text-sm mt-1">{help.action}</p>}
+        {onRetryWithCookies && (
+          <button
+            onClick={onRetryWithCookies}
+            className="mt-3 px-3 py-1.5 bg-white/10 hover:bg-white/20 rounded-lg text-xs transition-colors"
+          >
+            Retry with server cookies
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
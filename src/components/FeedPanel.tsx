@@ -0,0 +1,245 @@
+import { useEffect, useState } from 'react';
+import { api, Feed, FeedFormat } from '@/lib/api-client';
+import { ApiError } from '@/lib/error-codes';
+import { formatDuration } from '@/lib/format';
+import { formatBytes } from '@/lib/quality';
+
+// Mirrors FeedFormat in openapi.json
+const FEED_FORMATS: { value: FeedFormat; label: string }[] = [
+  { value: 'mp3', label: 'MP3' },
+  { value: 'm4a', label: 'M4A' },
+  { value: 'aac', label: 'AAC' },
+  { value: 'opus', label: 'Opus' },
+];
+
+// How often feeds are reloaded while episodes are converting
+const POLL_INTERVAL_MS = 5000;
+
+const STATUS_LABELS: Record<Feed['items'][number]['status'], string> = {
+  queued: 'Queued',
+  converting: 'Converting',
+  ready: 'Ready',
+  error: 'Failed',
+};
+
+export default function FeedPanel() {
+  const [feeds, setFeeds] = useState<Feed[] | null>(null);
+  const [title, setTitle] = useState('');
+  const [format, setFormat] = useState<FeedFormat>('mp3');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [addUrl, setAddUrl] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  const converting = feeds?.some((feed) => feed.items.some((item) => item.status === 'queued' || item.status === 'converting'));
+
+  useEffect(() => {
+    const controller = new AbortController();
+    api.listFeeds(controller.signal)
+      .then(({ feeds }) => setFeeds(feeds))
+      .catch(() => {});
+    return () => controller.abort();
+  }, []);
+
+  // Episodes convert in the background, so keep their status current
+  useEffect(() => {
+    if (!converting) return;
+    const timer = setInterval(() => {
+      api.listFeeds()
+        .then(({ feeds }) => setFeeds(feeds))
+        .catch(() => {});
+    }, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [converting]);
+
+  const replaceFeed = (updated: Feed) =>
+    setFeeds((current) => current && current.map((feed) => (feed.id === updated.id ? updated : feed)));
+
+  // Runs a feed action, showing its error instead of throwing
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setError('');
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const createFeed = () => run(async () => {
+    const feed = await api.createFeed({ title: title.trim(), format });
+    setFeeds((current) => [feed, ...(current ?? [])]);
+    setExpandedId(feed.id);
+    setTitle('');
+  });
+
+  const addToFeed = (id: string) => run(async () => {
+    replaceFeed(await api.addToFeed(id, { url: addUrl.trim() }));
+    setAddUrl('');
+  });
+
+  const refreshFeed = (id: string) => run(async () => {
+    replaceFeed(await api.refreshFeed(id));
+  });
+
+  const deleteFeed = (id: string) => run(async () => {
+    await api.deleteFeed(id).catch((err) => {
+      if (!(err instanceof ApiError && err.code === 'not_found')) throw err;
+    });
+    setFeeds((current) => current && current.filter((feed) => feed.id !== id));
+  });
+
+  const removeItem = (id: string, itemId: string) => run(async () => {
+    await api.removeFeedItem(id, itemId).catch((err) => {
+      if (!(err instanceof ApiError && err.code === 'not_found')) throw err;
+    });
+    setFeeds((current) => current && current.map((feed) =>
+      feed.id === id ? { ...feed, items: feed.items.filter((item) => item.id !== itemId) } : feed));
+  });
+
+  // Podcast apps need the absolute address
+  const copyFeedUrl = async (feed: Feed) => {
+    await navigator.clipboard.writeText(new URL(feed.feedUrl, window.location.origin).toString());
+    setCopiedId(feed.id);
+    setTimeout(() => setCopiedId(null), 2000);
+  };
+
+  if (!feeds) {
+    return null;
+  }
+
+  return (
+    <div className="mt-8 bg-white/[0.02] border border-white/[0.05] rounded-2xl overflow-hidden">
+      <div className="p-6 md:p-8">
+        <h3 className="font-semibold text-white">Podcast feeds</h3>
+        <p className="text-sm text-white/40 mb-4">
+          Add videos or subscribe to channels, then follow the feed in any podcast app
+        </p>
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && title.trim() && !busy && createFeed()}
+            placeholder="New feed title"
+            maxLength={200}
+            className="flex-1 px-3 py-2.5 bg-white/[0.03] border border-white/[0.08] rounded-xl text-sm text-white placeholder-white/30 focus:outline-none focus:border-white/20"
+          />
+          <select
+            value={format}
+            onChange={(e) => setFormat(e.target.value as FeedFormat)}
+            className="px-3 py-2.5 bg-white/[0.03] border border-white/[0.08] rounded-xl text-sm text-white focus:outline-none focus:border-white/20"
+          >
+            {FEED_FORMATS.map((option) => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+          <button
+            onClick={createFeed}
+            disabled={busy || !title.trim()}
+            className="px-4 py-2.5 bg-white/10 hover:bg-white/20 disabled:opacity-50 rounded-xl text-sm transition-colors"
+          >
+            Create
+          </button>
+        </div>
+        {error && <p className="mt-3 text-sm text-red-400">{error}</p>}
+      </div>
+
+      {feeds.length > 0 && (
+        <ul className="border-t border-white/[0.05] divide-y divide-white/[0.05]">
+          {feeds.map((feed) => (
+            <li key={feed.id}>
+              <div className="flex items-center gap-4 px-6 md:px-8 py-3">
+                <button
+                  onClick={() => setExpandedId(expandedId === feed.id ? null : feed.id)}
+                  className="flex-1 min-w-0 text-left"
+                >
+                  <p className="text-sm text-white truncate">{feed.title}</p>
+                  <p className="text-xs text-white/40">
+                    {feed.format.toUpperCase()} · {feed.items.length} episodes
+                    {feed.subscriptions.length > 0 && ` · ${feed.subscriptions.length} subscriptions`}
+                  </p>
+                </button>
+                <button
+                  onClick={() => copyFeedUrl(feed)}
+                  className="px-3 py-1.5 bg-white/10 hover:bg-white/20 rounded-lg text-xs transition-colors"
+                >
+                  {copiedId === feed.id ? 'Copied' : 'Copy feed URL'}
+                </button>
+                <button
+                  onClick={() => deleteFeed(feed.id)}
+                  disabled={busy}
+                  className="px-3 py-1.5 text-white/40 hover:text-red-400 text-xs transition-colors"
+                >
+                  Delete
+                </button>
+              </div>
+
+              {expandedId === feed.id && (
+                <div className="px-6 md:px-8 pb-4 space-y-3">
+                  <div className="flex gap-2">
+                    <input
+                      type="text"
+                      value={addUrl}
+                      onChange={(e) => setAddUrl(e.target.value)}
+                      onKeyDown={(e) => e.key === 'Enter' && addUrl.trim() && !busy && addToFeed(feed.id)}
+                      placeholder="Video, playlist or channel URL"
+                      className="flex-1 px-3 py-2 bg-white/[0.03] border border-white/[0.08] rounded-xl text-sm text-white placeholder-white/30 focus:outline-none focus:border-white/20"
+                    />
+                    <button
+                      onClick={() => addToFeed(feed.id)}
+                      disabled={busy || !addUrl.trim()}
+                      className="px-4 py-2 bg-white/10 hover:bg-white/20 disabled:opacity-50 rounded-xl text-sm transition-colors"
+                    >
+                      Add
+                    </button>
+                    {feed.subscriptions.length > 0 && (
+                      <button
+                        onClick={() => refreshFeed(feed.id)}
+                        disabled={busy}
+                        className="px-4 py-2 text-white/60 hover:text-white disabled:opacity-50 text-sm transition-colors"
+                      >
+                        Check for new
+                      </button>
+                    )}
+                  </div>
+
+                  {feed.subscriptions.length > 0 && (
+                    <p className="text-xs text-white/40">
+                      Following {feed.subscriptions.map((subscription) => subscription.title).join(', ')}
+                    </p>
+                  )}
+
+                  {feed.items.length > 0 && (
+                    <ul className="border border-white/[0.05] rounded-xl divide-y divide-white/[0.05] max-h-72 overflow-y-auto">
+                      {feed.items.map((item) => (
+                        <li key={item.id} className="flex items-center gap-3 px-4 py-2 text-sm">
+                          <span className="flex-1 min-w-0 truncate" title={item.error ?? undefined}>{item.title}</span>
+                          <span className={`text-xs ${item.status === 'error' ? 'text-red-400' : 'text-white/40'}`}>
+                            {item.status === 'ready'
+                              ? [formatDuration(item.duration), item.size !== null && formatBytes(item.size)].filter(Boolean).join(' · ')
+                              : STATUS_LABELS[item.status]}
+                          </span>
+                          <button
+                            onClick={() => removeItem(feed.id, item.id)}
+                            disabled={busy}
+                            className="text-xs text-white/40 hover:text-red-400 transition-colors"
+                          >
+                            Remove
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
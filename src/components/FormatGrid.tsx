@@ -0,0 +1,39 @@
+export const AUDIO_FORMATS = [
+  { value: 'mp3', label: 'MP3', desc: 'Universal compatibility', icon: '🎵' },
+  { value: 'aac', label: 'AAC', desc: 'Great quality, small size', icon: '🔊' },
+  { value: 'm4a', label: 'M4A', desc: 'Apple devices', icon: '🍎' },
+  { value: 'opus', label: 'Opus', desc: 'Best compression', icon: '⚡' },
+  { value: 'flac', label: 'FLAC', desc: 'Lossless quality', icon: '💎' },
+  { value: 'wav', label: 'WAV', desc: 'Uncompressed', icon: '📀' },
+];
+
+interface FormatGridProps {
+  selected: string;
+  onSelect: (format: string) => void;
+  disabled?: boolean;
+}
+
+export default function FormatGrid({ selected, onSelect, disabled }: FormatGridProps) {
+  return (
+    <div className="grid grid-cols-2 md:grid-cols-3 gap-2 mb-4">
+      {AUDIO_FORMATS.map((format) => (
+        <button
+          key={format.value}
+          onClick={() => onSelect(format.value)}
+          disabled={disabled}
+          className={`p-3 rounded-xl border transition-all text-left ${
+            selected === format.value
+              ? 'border-white/20 bg-white/[0.05]'
+              : 'border-white/[0.05] hover:border-white/10 hover:bg-white/[0.02]'
+          } disabled:opacity-50`}
+        >
+          <div className="flex items-center gap-2 mb-1">
+            <span className="text-sm">{format.icon}</span>
+            <span className="font-medium text-sm">{format.label}</span>
+          </div>
+          <p className="text-xs text-white/40">{format.desc}</p>
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+import type { JobSnapshot } from '@/lib/jobs';
+import { postprocessorLabel } from '@/lib/progress';
+
+interface JobProgressBarProps {
+  job: JobSnapshot | null;
+  onCancel: () => void;
+}
+
+export default function JobProgressBar({ job, onCancel }: JobProgressBarProps) {
+  const progress = job?.progress;
+
+  let label = 'Starting...';
+  if (job?.status === 'queued') {
+    label = job.queuePosition ? `Queued (#${job.queuePosition})` : 'Queued';
+  } else if (progress?.stage === 'downloading') {
+    label = 'Downloading';
+  } else if (progress?.stage === 'post-processing' && progress.postprocessor) {
+    label = postprocessorLabel(progress.postprocessor);
+  }
+
+  // Post-processing has no percentage, so the bar pulses at full width instead
+  const indeterminate = progress?.percent == null;
+  const percent = progress?.percent ?? 100;
+
+  return (
+    <div className="p-4 bg-white/[0.03] border border-white/[0.08] rounded-xl">
+      <div className="flex items-center justify-between text-sm mb-2">
+        <span className="font-medium text-white">{label}</span>
+        <div className="flex items-center gap-3 text-white/50">
+          {progress?.percent != null && <span>{progress.percent.toFixed(1)}%</span>}
+          {progress?.speed && <span>{progress.speed}</span>}
+          {progress?.eta && <span>ETA {progress.eta}</span>}
+          <button
+            onClick={onCancel}
+            className="px-3 py-1 bg-white/10 hover:bg-white/20 rounded-lg text-white text-xs transition-colors"
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+      <div className="h-2 bg-white/[0.05] rounded-full overflow-hidden">
+        <div
+          className={`h-full bg-gradient-to-r from-green-500 to-emerald-500 transition-[width] duration-300 ${indeterminate ? 'animate-pulse opacity-50' : ''}`}
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+    </div>
+  );
+}
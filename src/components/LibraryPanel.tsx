@@ -0,0 +1,84 @@
+import { useEffect, useState } from 'react';
+import { api, LibraryListing } from '@/lib/api-client';
+import { startDownload } from '@/lib/browser-download';
+import { ApiError } from '@/lib/error-codes';
+import { formatBytes } from '@/lib/quality';
+
+interface LibraryPanelProps {
+  // Changes whenever a download finishes, so new entries show up
+  refreshKey: number;
+}
+
+export default function LibraryPanel({ refreshKey }: LibraryPanelProps) {
+  const [library, setLibrary] = useState<LibraryListing | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    api.listLibrary(controller.signal)
+      .then(setLibrary)
+      .catch(() => {});
+    return () => controller.abort();
+  }, [refreshKey]);
+
+  const removeEntry = async (key: string) => {
+    try {
+      await api.deleteLibraryEntry(key);
+    } catch (error) {
+      if (!(error instanceof ApiError && error.code === 'not_found')) return;
+    }
+    setLibrary((current) => current && {
+      ...current,
+      entries: current.entries.filter((entry) => entry.key !== key),
+      totalBytes: current.totalBytes - (current.entries.find((entry) => entry.key === key)?.size ?? 0),
+    });
+  };
+
+  // Disabled on the server, or nothing downloaded yet
+  if (!library || library.maxBytes === 0 || library.entries.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mt-8 bg-white/[0.02] border border-white/[0.05] rounded-2xl overflow-hidden">
+      <div className="p-6 md:p-8 flex items-center justify-between">
+        <div>
+          <h3 className="font-semibold text-white">Library</h3>
+          <p className="text-sm text-white/40">
+            {library.entries.length} files · {formatBytes(library.totalBytes)} of {formatBytes(library.maxBytes)}
+          </p>
+        </div>
+      </div>
+
+      <ul className="border-t border-white/[0.05] divide-y divide-white/[0.05] max-h-96 overflow-y-auto">
+        {library.entries.map((entry) => (
+          <li key={entry.key} className="flex items-center gap-4 px-6 md:px-8 py-3">
+            {entry.thumbnail ? (
+              // eslint-disable-next-line @next/next/no-img-element
+              <img src={entry.thumbnail} alt="" className="w-16 h-9 object-cover rounded flex-shrink-0" />
+            ) : (
+              <div className="w-16 h-9 bg-white/[0.05] rounded flex-shrink-0" />
+            )}
+            <div className="flex-1 min-w-0">
+              <p className="text-sm text-white truncate">{entry.title}</p>
+              <p className="text-xs text-white/40">
+                {entry.format.toUpperCase()} · {formatBytes(entry.size)} · {new Date(entry.createdAt).toLocaleDateString()}
+              </p>
+            </div>
+            <button
+              onClick={() => startDownload(api.libraryFileUrl(entry.key))}
+              className="px-3 py-1.5 bg-white/10 hover:bg-white/20 rounded-lg text-xs transition-colors"
+            >
+              Download
+            </button>
+            <button
+              onClick={() => removeEntry(entry.key)}
+              className="px-3 py-1.5 text-white/40 hover:text-red-400 text-xs transition-colors"
+            >
+              Delete
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
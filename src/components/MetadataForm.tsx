@@ -0,0 +1,164 @@
+import { ChangeEvent } from 'react';
+
+export interface TrackMetadata {
+  title: string;
+  artist: string;
+  album: string;
+  year: string;
+  track: string;
+  genre: string;
+}
+
+export type CoverMode = 'thumbnail' | 'square' | 'custom' | 'none';
+
+// Mirrors COVER_EDIT_SUPPORTED on the server
+export const COVER_EDIT_FORMATS = ['mp3', 'm4a', 'alac', 'flac'];
+
+const MAX_COVER_BYTES = 5 * 1024 * 1024;
+
+const FIELDS: { key: keyof TrackMetadata; label: string; placeholder?: string; wide?: boolean }[] = [
+  { key: 'title', label: 'Title', wide: true },
+  { key: 'artist', label: 'Artist' },
+  { key: 'album', label: 'Album' },
+  { key: 'year', label: 'Year', placeholder: '2024' },
+  { key: 'track', label: 'Track', placeholder: '1 or 1/12' },
+  { key: 'genre', label: 'Genre', wide: true },
+];
+
+export const FILENAME_TEMPLATES = [
+  { value: 'title', label: 'Title' },
+  { value: 'artist-title', label: 'Artist - Title' },
+  { value: 'track-title', label: 'Track - Title' },
+  { value: 'track-artist-title', label: 'Track - Artist - Title' },
+];
+
+const COVER_MODES: { value: CoverMode; label: string }[] = [
+  { value: 'thumbnail', label: 'Thumbnail' },
+  { value: 'square', label: 'Square crop' },
+  { value: 'custom', label: 'Upload image' },
+  { value: 'none', label: 'No cover' },
+];
+
+interface MetadataFormProps {
+  metadata: TrackMetadata;
+  onMetadataChange: (metadata: TrackMetadata) => void;
+  filenameTemplate: string;
+  onFilenameTemplateChange: (template: string) => void;
+  cover: CoverMode;
+  onCoverChange: (cover: CoverMode) => void;
+  coverImage: string | null;
+  onCoverImageChange: (dataUrl: string | null) => void;
+  thumbnail: string;
+  thumbnailAspect: 'wide' | 'square';
+  disabled?: boolean;
+}
+
+export default function MetadataForm({
+  metadata,
+  onMetadataChange,
+  filenameTemplate,
+  onFilenameTemplateChange,
+  cover,
+  onCoverChange,
+  coverImage,
+  onCoverImageChange,
+  thumbnail,
+  thumbnailAspect,
+  disabled,
+}: MetadataFormProps) {
+  const handleCoverUpload = (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    if (file.size > MAX_COVER_BYTES) {
+      alert('Cover image must be smaller than 5 MB');
+      return;
+    }
+    const reader = new FileReader();
+    reader.onload = () => {
+      onCoverImageChange(reader.result as string);
+      onCoverChange('custom');
+    };
+    reader.readAsDataURL(file);
+  };
+
+  const preview = cover === 'custom' ? coverImage : cover === 'none' ? null : thumbnail;
+
+  return (
+    <div>
+      <div className="mb-3">
+        <h4 className="font-medium text-white">Tags</h4>
+        <p className="text-sm text-white/40">Written to the file exactly as entered</p>
+      </div>
+
+      <div className="flex flex-col md:flex-row gap-5">
+        <div className="flex-shrink-0 space-y-2">
+          <div className={`w-32 bg-white/[0.05] rounded-lg overflow-hidden ${cover === 'thumbnail' && thumbnailAspect === 'wide' ? 'h-[72px]' : 'h-32'}`}>
+            {preview && (
+              // eslint-disable-next-line @next/next/no-img-element
+              <img src={preview} alt="Cover" className="w-full h-full object-cover" />
+            )}
+          </div>
+          <div className="flex flex-col gap-1">
+            {COVER_MODES.map((mode) => (
+              <label key={mode.value} className="flex items-center gap-2 text-xs text-white/60 cursor-pointer">
+                <input
+                  type="radio"
+                  name="cover"
+                  checked={cover === mode.value}
+                  onChange={() => onCoverChange(mode.value)}
+                  disabled={disabled || (mode.value === 'custom' && !coverImage)}
+                  className="accent-white"
+                />
+                {mode.label}
+              </label>
+            ))}
+            <label className="text-xs text-white/40 hover:text-white cursor-pointer underline mt-1">
+              Choose image…
+              <input type="file" accept="image/jpeg,image/png,image/webp" onChange={handleCoverUpload} disabled={disabled} className="hidden" />
+            </label>
+          </div>
+        </div>
+
+        <div className="flex-1 grid grid-cols-2 gap-3">
+          {FIELDS.map((field) => (
+            <label key={field.key} className={field.wide ? 'col-span-2' : ''}>
+              <span className="block text-xs text-white/40 mb-1">{field.label}</span>
+              <input
+                type="text"
+                value={metadata[field.key]}
+                placeholder={field.placeholder}
+                onChange={(e) => onMetadataChange({ ...metadata, [field.key]: e.target.value })}
+                disabled={disabled}
+                className="w-full px-3 py-2 bg-white/[0.03] border border-white/[0.08] rounded-lg text-sm text-white placeholder-white/20 focus:outline-none focus:border-white/20"
+              />
+            </label>
+          ))}
+          <label className="col-span-2">
+            <span className="block text-xs text-white/40 mb-1">File name</span>
+            <select
+              value={filenameTemplate}
+              onChange={(e) => onFilenameTemplateChange(e.target.value)}
+              disabled={disabled}
+              className="w-full px-3 py-2 bg-white/[0.03] border border-white/[0.08] rounded-lg text-sm text-white focus:outline-none focus:border-white/20"
+            >
+              {FILENAME_TEMPLATES.map((template) => (
+                <option key={template.value} value={template.value} className="bg-[#0a0a0a]">
+                  {template.label}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export const metadataFromVideo = (video: { title: string; uploader: string; upload_date: string | null }): TrackMetadata => ({
+  title: video.title,
+  artist: video.uploader,
+  album: '',
+  year: video.upload_date?.slice(0, 4) ?? '',
+  track: '',
+  genre: '',
+});
@@ -0,0 +1,113 @@
+import FormatGrid from './FormatGrid';
+import type { PlaylistInfo } from '@/lib/api-client';
+import { formatDuration } from '@/lib/format';
+
+interface PlaylistPanelProps {
+  playlist: PlaylistInfo;
+  selectedIds: Set<string>;
+  onSelectedIdsChange: (ids: Set<string>) => void;
+  selectedFormat: string;
+  onFormatChange: (format: string) => void;
+  complete: boolean;
+  onDownload: () => void;
+}
+
+export default function PlaylistPanel({
+  playlist,
+  selectedIds,
+  onSelectedIdsChange,
+  selectedFormat,
+  onFormatChange,
+  complete,
+  onDownload,
+}: PlaylistPanelProps) {
+  const allSelected = playlist.entries.length > 0 && selectedIds.size === playlist.entries.length;
+  const totalDuration = playlist.entries.reduce((sum, e) => sum + (e.duration ?? 0), 0);
+
+  const toggleEntry = (id: string) => {
+    const next = new Set(selectedIds);
+    if (next.has(id)) {
+      next.delete(id);
+    } else {
+      next.add(id);
+    }
+    onSelectedIdsChange(next);
+  };
+
+  const toggleAll = () => {
+    onSelectedIdsChange(allSelected ? new Set() : new Set(playlist.entries.map((e) => e.id)));
+  };
+
+  return (
+    <>
+      <div className="border-t border-white/[0.05] p-6 md:p-8">
+        <div className="flex items-start justify-between gap-4 mb-4">
+          <div className="min-w-0">
+            <h3 className="font-semibold text-white line-clamp-2 mb-1">{playlist.title}</h3>
+            <p className="text-white/50 text-sm">
+              {playlist.uploader && `${playlist.uploader} · `}
+              {playlist.entries.length} videos
+              {totalDuration > 0 && ` · ${formatDuration(totalDuration)}`}
+            </p>
+          </div>
+          <button
+            onClick={toggleAll}
+            className="px-3 py-1.5 bg-white/[0.05] hover:bg-white/[0.08] rounded-lg text-sm text-white/70 disabled:opacity-50 transition-colors flex-shrink-0"
+          >
+            {allSelected ? 'Select none' : 'Select all'}
+          </button>
+        </div>
+
+        <ul className="max-h-80 overflow-y-auto border border-white/[0.05] rounded-xl divide-y divide-white/[0.05]">
+          {playlist.entries.map((entry, index) => (
+            <li key={entry.id}>
+              <label className="flex items-center gap-3 px-4 py-2.5 hover:bg-white/[0.02] cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={selectedIds.has(entry.id)}
+                  onChange={() => toggleEntry(entry.id)}
+                        className="accent-white"
+                />
+                <span className="text-xs text-white/30 w-6 text-right">{index + 1}</span>
+                <span className="flex-1 min-w-0 truncate text-sm">{entry.title}</span>
+                {entry.duration !== null && (
+                  <span className="text-xs text-white/40">{formatDuration(entry.duration)}</span>
+                )}
+              </label>
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      <div className="border-t border-white/[0.05] p-6 md:p-8">
+        <h4 className="font-medium text-white mb-3">Convert Format</h4>
+        <FormatGrid selected={selectedFormat} onSelect={onFormatChange} />
+        <button
+          onClick={onDownload}
+          disabled={selectedIds.size === 0}
+          className="w-full py-4 bg-white/[0.05] hover:bg-white/[0.08] border border-white/[0.08] disabled:opacity-50 text-white font-medium rounded-xl transition-all flex items-center justify-center gap-3"
+        >
+          {complete ? (
+            <>
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+              </svg>
+              <span>Download started</span>
+            </>
+          ) : (
+            <>
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+              </svg>
+              <span>Download {selectedIds.size} as {selectedFormat.toUpperCase()} zip</span>
+            </>
+          )}
+        </button>
+        <p className="text-xs text-white/30 mt-3 text-center">
+          Tracks are converted while the zip downloads, so progress shows in your browser&apos;s downloads.
+          Tracks that fail to convert are listed in failed.txt inside the zip.
+        </p>
+      </div>
+    </>
+  );
+}
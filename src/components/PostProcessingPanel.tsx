@@ -0,0 +1,134 @@
+import {
+  LOUDNESS_PRESETS,
+  LoudnessReport,
+  MAX_FADE_SECONDS,
+  MAX_SPEED,
+  MIN_SPEED,
+  PostProcessing,
+} from '@/lib/postprocess-options';
+
+interface PostProcessingPanelProps {
+  value: PostProcessing;
+  onChange: (value: PostProcessing) => void;
+  // Measurements of the last normalised download
+  report: LoudnessReport | null;
+  disabled?: boolean;
+}
+
+const inputClass =
+  'w-full px-3 py-2 bg-white/[0.03] border border-white/[0.08] rounded-lg text-sm text-white focus:outline-none focus:border-white/20 disabled:opacity-50';
+
+// Empty inputs mean "off", which is left out of the request
+const toSeconds = (value: string) => (value === '' ? undefined : Math.min(MAX_FADE_SECONDS, Math.max(0, Number(value))));
+
+export default function PostProcessingPanel({ value, onChange, report, disabled }: PostProcessingPanelProps) {
+  const speed = value.speed ?? 1;
+
+  return (
+    <div>
+      <div className="mb-3">
+        <h4 className="font-medium text-white">Audio filters</h4>
+        <p className="text-sm text-white/40">Applied after conversion; not available for original quality</p>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <label className="col-span-2 md:col-span-1">
+          <span className="flex items-center gap-2 text-xs text-white/40 mb-1">
+            <input
+              type="checkbox"
+              checked={value.loudness !== undefined}
+              onChange={(e) => onChange({ ...value, loudness: e.target.checked ? LOUDNESS_PRESETS[0].value : undefined })}
+              disabled={disabled}
+              className="accent-white"
+            />
+            Normalise loudness
+          </span>
+          <select
+            value={value.loudness ?? ''}
+            onChange={(e) => onChange({ ...value, loudness: Number(e.target.value) })}
+            disabled={disabled || value.loudness === undefined}
+            className={inputClass}
+          >
+            {value.loudness === undefined && <option value="" className="bg-[#0a0a0a]">Off</option>}
+            {LOUDNESS_PRESETS.map((preset) => (
+              <option key={preset.value} value={preset.value} className="bg-[#0a0a0a]">{preset.label}</option>
+            ))}
+          </select>
+        </label>
+
+        <label className="col-span-2 md:col-span-1">
+          <span className="block text-xs text-white/40 mb-1">Speed {speed.toFixed(2)}×</span>
+          <input
+            type="range"
+            min={MIN_SPEED}
+            max={MAX_SPEED}
+            step={0.05}
+            value={speed}
+            onChange={(e) => onChange({ ...value, speed: Number(e.target.value) === 1 ? undefined : Number(e.target.value) })}
+            disabled={disabled}
+            className="w-full accent-white mt-2"
+          />
+        </label>
+
+        <label>
+          <span className="block text-xs text-white/40 mb-1">Fade in (s)</span>
+          <input
+            type="number"
+            min={0}
+            max={MAX_FADE_SECONDS}
+            step={0.5}
+            value={value.fadeIn ?? ''}
+            placeholder="0"
+            onChange={(e) => onChange({ ...value, fadeIn: toSeconds(e.target.value) })}
+            disabled={disabled}
+            className={inputClass}
+          />
+        </label>
+
+        <label>
+          <span className="block text-xs text-white/40 mb-1">Fade out (s)</span>
+          <input
+            type="number"
+            min={0}
+            max={MAX_FADE_SECONDS}
+            step={0.5}
+            value={value.fadeOut ?? ''}
+            placeholder="0"
+            onChange={(e) => onChange({ ...value, fadeOut: toSeconds(e.target.value) })}
+            disabled={disabled}
+            className={inputClass}
+          />
+        </label>
+
+        <label className="flex items-center gap-2 text-xs text-white/60 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={!!value.trimSilence}
+            onChange={(e) => onChange({ ...value, trimSilence: e.target.checked || undefined })}
+            disabled={disabled}
+            className="accent-white"
+          />
+          Trim silence at start and end
+        </label>
+
+        <label className="flex items-center gap-2 text-xs text-white/60 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={value.keepPitch !== false}
+            onChange={(e) => onChange({ ...value, keepPitch: e.target.checked ? undefined : false })}
+            disabled={disabled || speed === 1}
+            className="accent-white"
+          />
+          Keep pitch when changing speed
+        </label>
+      </div>
+
+      {report && (
+        <p className="text-xs text-white/40 mt-3">
+          Last download measured {report.measured.toFixed(1)} LUFS (peak {report.truePeak.toFixed(1)} dBTP),
+          normalised to {report.output !== null ? report.output.toFixed(1) : report.target} LUFS
+        </p>
+      )}
+    </div>
+  );
+}
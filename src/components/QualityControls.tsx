@@ -0,0 +1,149 @@
+import { ReactNode } from 'react';
+import { AudioQuality, BitrateMode, CODEC_CAPABILITIES, estimateSize, formatBytes } from '@/lib/quality';
+
+interface QualityControlsProps {
+  format: string;
+  value: AudioQuality;
+  onChange: (value: AudioQuality) => void;
+  // Seconds of audio that will be converted, for the size estimate
+  duration: number;
+  disabled?: boolean;
+}
+
+const VBR_LEVELS = Array.from({ length: 11 }, (_, level) => level);
+
+const selectClass =
+  'w-full px-3 py-2 bg-white/[0.03] border border-white/[0.08] rounded-lg text-sm text-white focus:outline-none focus:border-white/20 disabled:opacity-50';
+
+const formatRate = (rate: number) => `${(rate / 1000).toLocaleString()} kHz`;
+
+// Empty selects mean "keep the default", which is left out of the request
+const toNumber = (value: string) => (value === '' ? undefined : Number(value));
+
+export default function QualityControls({ format, value, onChange, duration, disabled }: QualityControlsProps) {
+  const codec = CODEC_CAPABILITIES[format];
+  if (!codec) return null;
+
+  const mode = value.mode ?? codec.modes[0];
+  const usesLevel = mode === 'vbr' && codec.vbrLevels;
+  const size = estimateSize(format, value, duration);
+
+  const changeMode = (next: BitrateMode) => {
+    // CBR always needs a bitrate; VBR levels and bitrates don't mix
+    onChange({
+      ...value,
+      mode: next,
+      bitrate: next === 'cbr' ? value.bitrate ?? codec.bitrates[codec.bitrates.length - 1] : undefined,
+      vbrLevel: undefined,
+    });
+  };
+
+  return (
+    <div>
+      <div className="flex items-end justify-between mb-3">
+        <div>
+          <h4 className="font-medium text-white">Quality</h4>
+          <p className="text-sm text-white/40">Defaults keep the source sample rate and channels</p>
+        </div>
+        {size !== null && (
+          <span className="text-xs text-white/40">≈ {formatBytes(size)}</span>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        {codec.modes.length > 1 && (
+          <Field label="Mode">
+            <select value={mode} onChange={(e) => changeMode(e.target.value as BitrateMode)} disabled={disabled} className={selectClass}>
+              {codec.modes.map((m) => (
+                <option key={m} value={m} className="bg-[#0a0a0a]">{m.toUpperCase()}</option>
+              ))}
+            </select>
+          </Field>
+        )}
+
+        {usesLevel ? (
+          <Field label="VBR level">
+            <select
+              value={value.vbrLevel ?? ''}
+              onChange={(e) => onChange({ ...value, mode, vbrLevel: toNumber(e.target.value) })}
+              disabled={disabled}
+              className={selectClass}
+            >
+              {VBR_LEVELS.map((level) => (
+                <option key={level} value={level === 0 ? '' : level} className="bg-[#0a0a0a]">
+                  {level === 0 ? '0 (best)' : level}
+                </option>
+              ))}
+            </select>
+          </Field>
+        ) : codec.bitrates.length > 0 && (
+          <Field label="Bitrate">
+            <select
+              value={value.bitrate ?? ''}
+              onChange={(e) => onChange({ ...value, bitrate: toNumber(e.target.value) })}
+              disabled={disabled}
+              className={selectClass}
+            >
+              {mode !== 'cbr' && <option value="" className="bg-[#0a0a0a]">Auto</option>}
+              {codec.bitrates.map((bitrate) => (
+                <option key={bitrate} value={bitrate} className="bg-[#0a0a0a]">{bitrate} kbps</option>
+              ))}
+            </select>
+          </Field>
+        )}
+
+        <Field label="Sample rate">
+          <select
+            value={value.sampleRate ?? ''}
+            onChange={(e) => onChange({ ...value, sampleRate: toNumber(e.target.value) })}
+            disabled={disabled}
+            className={selectClass}
+          >
+            <option value="" className="bg-[#0a0a0a]">Source</option>
+            {codec.sampleRates.map((rate) => (
+              <option key={rate} value={rate} className="bg-[#0a0a0a]">{formatRate(rate)}</option>
+            ))}
+          </select>
+        </Field>
+
+        <Field label="Channels">
+          <select
+            value={value.channels ?? ''}
+            onChange={(e) => onChange({ ...value, channels: toNumber(e.target.value) as AudioQuality['channels'] })}
+            disabled={disabled}
+            className={selectClass}
+          >
+            <option value="" className="bg-[#0a0a0a]">Source</option>
+            <option value={2} className="bg-[#0a0a0a]">Stereo</option>
+            <option value={1} className="bg-[#0a0a0a]">Mono</option>
+          </select>
+        </Field>
+
+        {codec.bitDepths.length > 0 && (
+          <Field label="Bit depth">
+            <select
+              value={value.bitDepth ?? ''}
+              onChange={(e) => onChange({ ...value, bitDepth: toNumber(e.target.value) as AudioQuality['bitDepth'] })}
+              disabled={disabled}
+              className={selectClass}
+            >
+              <option value="" className="bg-[#0a0a0a]">Default</option>
+              {codec.bitDepths.map((depth) => (
+                <option key={depth} value={depth} className="bg-[#0a0a0a]">{depth}-bit</option>
+              ))}
+            </select>
+          </Field>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function Field({ label, children }: { label: string; children: ReactNode }) {
+  return (
+    <label>
+      <span className="block text-xs text-white/40 mb-1">{label}</span>
+      {children}
+    </label>
+  );
+}
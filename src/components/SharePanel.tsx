@@ -0,0 +1,107 @@
+import { useState } from 'react';
+import { api, Share, ShareRequest } from '@/lib/api-client';
+import { ApiError } from '@/lib/error-codes';
+
+interface SharePanelProps {
+  // Options for the link made when the next download finishes; null for none
+  value: ShareRequest | null;
+  onChange: (value: ShareRequest | null) => void;
+  share: Share | null;
+  onRevoked: () => void;
+  error?: string;
+  disabled?: boolean;
+}
+
+const EXPIRY_OPTIONS = [
+  { hours: 1, label: '1 hour' },
+  { hours: 24, label: '1 day' },
+  { hours: 168, label: '1 week' },
+];
+
+export default function SharePanel({ value, onChange, share, onRevoked, error, disabled }: SharePanelProps) {
+  const [copied, setCopied] = useState(false);
+  const [revokeError, setRevokeError] = useState('');
+
+  // Teammates open it outside the app, so it needs the absolute address
+  const copyLink = async (share: Share) => {
+    await navigator.clipboard.writeText(new URL(share.url, window.location.origin).toString());
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const revoke = async (share: Share) => {
+    setRevokeError('');
+    try {
+      await api.revokeShare(share.id).catch((err) => {
+        if (!(err instanceof ApiError && err.code === 'not_found')) throw err;
+      });
+      onRevoked();
+    } catch (err) {
+      setRevokeError(err instanceof Error ? err.message : 'Could not revoke the link');
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-3 text-sm text-white/50">
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={value !== null}
+            onChange={(e) => onChange(e.target.checked ? { expiresInHours: 24 } : null)}
+            disabled={disabled}
+          />
+          Make a share link for teammates
+        </label>
+        {value && (
+          <>
+            <select
+              value={value.expiresInHours ?? 24}
+              onChange={(e) => onChange({ ...value, expiresInHours: Number(e.target.value) })}
+              disabled={disabled}
+              className="px-2 py-1 bg-white/[0.03] border border-white/[0.08] rounded-lg text-sm text-white focus:outline-none focus:border-white/20"
+            >
+              {EXPIRY_OPTIONS.map((option) => (
+                <option key={option.hours} value={option.hours}>for {option.label}</option>
+              ))}
+            </select>
+            <input
+              type="number"
+              min={1}
+              value={value.maxDownloads ?? ''}
+              onChange={(e) => onChange({ ...value, maxDownloads: e.target.value ? Math.max(1, Math.floor(Number(e.target.value))) : undefined })}
+              disabled={disabled}
+              placeholder="Any number of downloads"
+              className="w-52 px-2 py-1 bg-white/[0.03] border border-white/[0.08] rounded-lg text-sm text-white placeholder-white/30 focus:outline-none focus:border-white/20"
+            />
+          </>
+        )}
+      </div>
+
+      {share && (
+        <div className="flex items-center gap-3 p-3 bg-white/[0.03] border border-white/[0.08] rounded-xl text-sm">
+          <div className="flex-1 min-w-0">
+            <p className="text-white truncate">{share.filename}</p>
+            <p className="text-xs text-white/40">
+              Expires {new Date(share.expiresAt).toLocaleString()}
+              {share.maxDownloads !== null && ` · ${share.maxDownloads} downloads`}
+            </p>
+          </div>
+          <button
+            onClick={() => copyLink(share)}
+            className="px-3 py-1.5 bg-white/10 hover:bg-white/20 rounded-lg text-xs transition-colors"
+          >
+            {copied ? 'Copied' : 'Copy link'}
+          </button>
+          <button
+            onClick={() => revoke(share)}
+            className="px-3 py-1.5 text-white/40 hover:text-red-400 text-xs transition-colors"
+          >
+            Revoke
+          </button>
+        </div>
+      )}
+      {(error || revokeError) && <p className="text-sm text-red-400">{error || revokeError}</p>}
+    </div>
+  );
+}
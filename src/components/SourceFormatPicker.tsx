@@ -0,0 +1,81 @@
+import type { VideoFormat } from '@/lib/api-client';
+import { formatBytes } from '@/lib/quality';
+import { SOURCE_PREFERENCES } from '@/lib/source';
+
+interface SourceFormatPickerProps {
+  formats: VideoFormat[];
+  providerName: string;
+  // A format_id or a SOURCE_PREFERENCES key; undefined lets yt-dlp choose
+  value: string | undefined;
+  onChange: (value: string | undefined) => void;
+  disabled?: boolean;
+}
+
+export default function SourceFormatPicker({ formats, providerName, value, onChange, disabled }: SourceFormatPickerProps) {
+  // Best bitrate first, like yt-dlp's own ordering
+  const sorted = [...formats].sort((a, b) => (b.abr ?? 0) - (a.abr ?? 0));
+
+  return (
+    <div>
+      <div className="mb-3">
+        <h4 className="font-medium text-white">Source stream</h4>
+        <p className="text-sm text-white/40">Which of {providerName}&apos;s audio streams to download</p>
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-2">
+        <Choice label="Auto" selected={value === undefined} onClick={() => onChange(undefined)} disabled={disabled} />
+        {Object.entries(SOURCE_PREFERENCES)
+          .filter(([key]) => key !== 'best')
+          .map(([key, preference]) => (
+            <Choice
+              key={key}
+              label={preference.label}
+              selected={value === key}
+              onClick={() => onChange(key)}
+              disabled={disabled}
+            />
+          ))}
+      </div>
+
+      {sorted.length > 0 && (
+        <div className="max-h-48 overflow-y-auto border border-white/[0.05] rounded-xl divide-y divide-white/[0.05]">
+          {sorted.map((f) => (
+            <label key={f.format_id} className="flex items-center gap-3 px-4 py-2 text-sm cursor-pointer hover:bg-white/[0.02]">
+              <input
+                type="radio"
+                name="source-format"
+                checked={value === f.format_id}
+                onChange={() => onChange(f.format_id)}
+                disabled={disabled}
+                className="accent-white"
+              />
+              <span className="font-mono text-xs text-white/40 w-16">{f.format_id}</span>
+              <span className="flex-1 min-w-0 truncate">
+                {f.acodec} · {f.ext}
+                {f.format_note && <span className="text-white/40"> · {f.format_note}</span>}
+              </span>
+              <span className="text-xs text-white/40">{f.abr ? `${Math.round(f.abr)}k` : ''}</span>
+              <span className="text-xs text-white/40 w-16 text-right">{f.filesize ? formatBytes(f.filesize) : ''}</span>
+            </label>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function Choice({ label, selected, onClick, disabled }: { label: string; selected: boolean; onClick: () => void; disabled?: boolean }) {
+  return (
+    <button
+      onClick={onClick}
+      disabled={disabled}
+      className={`px-3 py-1.5 rounded-lg border text-xs transition-all ${
+        selected
+          ? 'border-white/20 bg-white/[0.05] text-white'
+          : 'border-white/[0.05] text-white/60 hover:border-white/10'
+      } disabled:opacity-50`}
+    >
+      {label}
+    </button>
+  );
+}
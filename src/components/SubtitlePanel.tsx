@@ -0,0 +1,109 @@
+import type { SubtitleTrack } from '@/lib/api-client';
+import { SUBTITLE_FORMATS, SubtitleMode, SubtitleOptions } from '@/lib/subtitle-options';
+
+interface SubtitlePanelProps {
+  tracks: SubtitleTrack[];
+  // null when no language is picked; mode 'only' means not bundled with the audio
+  value: SubtitleOptions | null;
+  onChange: (value: SubtitleOptions | null) => void;
+  onDownload: () => void;
+  disabled?: boolean;
+}
+
+const MODES: { value: SubtitleMode; label: string; desc: string }[] = [
+  { value: 'only', label: 'Separate', desc: 'Download the subtitles on their own' },
+  { value: 'sidecar', label: 'Zip with audio', desc: 'Audio and subtitle file together' },
+  { value: 'lyrics', label: 'Lyrics tag', desc: 'Transcript inside the MP3 or M4A' },
+];
+
+const trackKey = (track: { language: string; automatic?: boolean }) =>
+  `${track.automatic ? 'auto' : 'subs'}:${track.language}`;
+
+export default function SubtitlePanel({ tracks, value, onChange, onDownload, disabled }: SubtitlePanelProps) {
+  const selectTrack = (key: string) => {
+    const track = tracks.find((t) => trackKey(t) === key);
+    onChange(track
+      ? { format: 'srt', mode: 'only', ...value, language: track.language, automatic: track.automatic || undefined }
+      : null);
+  };
+
+  return (
+    <div>
+      <div className="mb-3">
+        <h4 className="font-medium text-white">Subtitles</h4>
+        <p className="text-sm text-white/40">Captions or a transcript, on their own or with the audio</p>
+      </div>
+
+      <div className="flex gap-2 mb-3">
+        <select
+          value={value ? trackKey(value) : ''}
+          onChange={(e) => selectTrack(e.target.value)}
+          disabled={disabled}
+          className="flex-1 px-3 py-2.5 bg-white/[0.03] border border-white/[0.08] rounded-xl text-sm text-white focus:outline-none focus:border-white/20 disabled:opacity-50"
+        >
+          <option value="">No subtitles</option>
+          {tracks.map((track) => (
+            <option key={trackKey(track)} value={trackKey(track)}>
+              {track.name}{track.automatic ? ' (auto)' : ''}
+            </option>
+          ))}
+        </select>
+        {value && (
+          <div className="flex gap-1 p-1 bg-white/[0.02] border border-white/[0.05] rounded-xl">
+            {SUBTITLE_FORMATS.map((format) => (
+              <button
+                key={format.value}
+                title={format.desc}
+                onClick={() => onChange({ ...value, format: format.value })}
+                disabled={disabled || value.mode === 'lyrics'}
+                className={`px-3 py-1.5 rounded-lg text-sm transition-colors disabled:opacity-50 ${
+                  (value.format ?? 'srt') === format.value ? 'bg-white/10 text-white' : 'text-white/50 hover:text-white'
+                }`}
+              >
+                {format.label}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {value && (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-2 mb-3">
+            {MODES.map((option) => (
+              <button
+                key={option.value}
+                onClick={() => onChange({ ...value, mode: option.value })}
+                disabled={disabled}
+                className={`p-3 rounded-xl border transition-all text-left ${
+                  value.mode === option.value
+                    ? 'border-white/20 bg-white/[0.05]'
+                    : 'border-white/[0.05] hover:border-white/10 hover:bg-white/[0.02]'
+                } disabled:opacity-50`}
+              >
+                <span className="block font-medium text-sm mb-1">{option.label}</span>
+                <span className="block text-xs text-white/40">{option.desc}</span>
+              </button>
+            ))}
+          </div>
+
+          {value.mode === 'only' ? (
+            <button
+              onClick={onDownload}
+              disabled={disabled}
+              className="w-full py-3 bg-white/[0.05] hover:bg-white/[0.08] border border-white/[0.08] disabled:opacity-50 text-white text-sm font-medium rounded-xl transition-all"
+            >
+              Download subtitles ({(value.format ?? 'srt').toUpperCase()})
+            </button>
+          ) : (
+            <p className="text-xs text-white/40">
+              {value.mode === 'lyrics'
+                ? 'The transcript is added to the audio when you download it below.'
+                : 'The audio you download below comes as a zip with the subtitles.'}
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
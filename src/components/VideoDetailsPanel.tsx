@@ -0,0 +1,76 @@
+import { useState } from 'react';
+import { api, VideoDetails } from '@/lib/api-client';
+
+interface VideoDetailsPanelProps {
+  url: string;
+  cookies?: boolean;
+}
+
+// YYYYMMDD from yt-dlp to a readable date
+const formatUploadDate = (date: string) => {
+  const match = date.match(/^(\d{4})(\d{2})(\d{2})$/);
+  return match
+    ? new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])))
+      .toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric', timeZone: 'UTC' })
+    : date;
+};
+
+export default function VideoDetailsPanel({ url, cookies }: VideoDetailsPanelProps) {
+  const [expanded, setExpanded] = useState(false);
+  const [details, setDetails] = useState<VideoDetails | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  // Loaded on first open; the server answers from the lookup the page just made
+  const toggle = async () => {
+    setExpanded(!expanded);
+    if (details || loading) return;
+
+    setLoading(true);
+    setError('');
+    try {
+      setDetails(await api.infoDetails({ url, cookies }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not load the details');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="mt-2">
+      <button onClick={toggle} className="text-xs text-white/40 hover:text-white/70 transition-colors">
+        {expanded ? 'Hide details' : 'More details'}
+      </button>
+
+      {expanded && (
+        <div className="mt-3 space-y-3 text-sm">
+          {loading && <p className="text-white/40">Loading...</p>}
+          {error && <p className="text-red-400">{error}</p>}
+          {details && (
+            <>
+              <p className="text-white/50">
+                {[
+                  details.view_count !== null && `${details.view_count.toLocaleString()} views`,
+                  details.like_count !== null && `${details.like_count.toLocaleString()} likes`,
+                  details.upload_date && formatUploadDate(details.upload_date),
+                  ...details.categories
+                ].filter(Boolean).join(' · ')}
+              </p>
+              {details.tags.length > 0 && (
+                <div className="flex flex-wrap gap-1.5">
+                  {details.tags.map((tag) => (
+                    <span key={tag} className="px-2 py-0.5 bg-white/[0.05] rounded-md text-xs text-white/60">{tag}</span>
+                  ))}
+                </div>
+              )}
+              {details.description && (
+                <p className="max-h-48 overflow-y-auto whitespace-pre-line text-white/60">{details.description}</p>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
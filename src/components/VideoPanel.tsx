@@ -0,0 +1,92 @@
+import type { VideoStream } from '@/lib/api-client';
+import { VIDEO_CONTAINERS, VideoOptions } from '@/lib/video-options';
+
+interface VideoPanelProps {
+  streams: VideoStream[];
+  value: VideoOptions;
+  onChange: (value: VideoOptions) => void;
+  onDownload: () => void;
+  downloading?: boolean;
+  disabled?: boolean;
+}
+
+export default function VideoPanel({ streams, value, onChange, onDownload, downloading, disabled }: VideoPanelProps) {
+  // Streams come tallest first; yt-dlp picks the best one up to the chosen height
+  const heights = [...new Set(streams.map((stream) => stream.height).filter((height): height is number => !!height))];
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h4 className="font-medium text-white mb-3">Resolution</h4>
+        <div className="flex flex-wrap gap-2">
+          {[undefined, ...heights].map((height) => (
+            <button
+              key={height ?? 'best'}
+              onClick={() => onChange({ ...value, height })}
+              disabled={disabled}
+              className={`px-3 py-2 rounded-xl border text-sm transition-all ${
+                value.height === height
+                  ? 'border-white/20 bg-white/[0.05]'
+                  : 'border-white/[0.05] hover:border-white/10 hover:bg-white/[0.02]'
+              } disabled:opacity-50`}
+            >
+              {height ? `${height}p` : 'Best'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <h4 className="font-medium text-white mb-3">Container</h4>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+          {VIDEO_CONTAINERS.map((option) => (
+            <button
+              key={option.value}
+              onClick={() => onChange({ ...value, container: option.value })}
+              disabled={disabled}
+              className={`p-3 rounded-xl border transition-all text-left ${
+                value.container === option.value
+                  ? 'border-white/20 bg-white/[0.05]'
+                  : 'border-white/[0.05] hover:border-white/10 hover:bg-white/[0.02]'
+              } disabled:opacity-50`}
+            >
+              <span className="block font-medium text-sm mb-1">{option.label}</span>
+              <span className="block text-xs text-white/40">{option.desc}</span>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <label className="flex items-center gap-2 text-sm text-white/70">
+        <input
+          type="checkbox"
+          checked={value.audio ?? true}
+          onChange={(e) => onChange({ ...value, audio: e.target.checked ? undefined : false })}
+          disabled={disabled}
+        />
+        Merge the best audio into the video
+      </label>
+
+      <button
+        onClick={onDownload}
+        disabled={disabled}
+        className="w-full py-4 bg-gradient-to-r from-green-500 to-emerald-500 hover:from-green-600 hover:to-emerald-600 disabled:from-white/10 disabled:to-white/10 text-white font-medium rounded-xl transition-all flex items-center justify-center gap-3"
+      >
+        {downloading ? (
+          <>
+            <svg className="animate-spin h-5 w-5" viewBox="0 0 24 24">
+              <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" fill="none" />
+              <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z" />
+            </svg>
+            <span>Downloading...</span>
+          </>
+        ) : (
+          <span>
+            Download {value.height ? `${value.height}p ` : ''}{value.container.toUpperCase()}
+            {value.audio === false ? ' without audio' : ''}
+          </span>
+        )}
+      </button>
+    </div>
+  );
+}
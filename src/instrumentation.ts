@@ -0,0 +1,13 @@
+export async function register() {
+  // The sweeper uses the file system, which the edge runtime doesn't have
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { trackConnectionAddresses } = await import('@/lib/rate-limit');
+    trackConnectionAddresses();
+    const { startTempDirSweeper } = await import('@/lib/ytdlp');
+    startTempDirSweeper();
+    const { startFeedRefresher } = await import('@/lib/feeds');
+    startFeedRefresher();
+    const { startShareSweeper } = await import('@/lib/shares');
+    startShareSweeper();
+  }
+}
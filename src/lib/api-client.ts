@@ -0,0 +1,182 @@
+import { validateSchema, SchemaName } from './api-schema';
+import type { components } from './api-types';
+import { ApiError, isErrorCode } from './error-codes';
+
+/**
+ * Typed client for /api/v1, used by the page and usable from scripts. The
+ * types are generated from openapi.json with `npm run generate:api`, and
+ * request bodies are checked against the same schemas the routes use.
+ * Shared with the page, so it must stay free of Node imports.
+ */
+type Schemas = components['schemas'];
+
+export type ProviderSummary = Schemas['ProviderSummary'];
+export type VideoFormat = Schemas['VideoFormat'];
+export type VideoStream = Schemas['VideoStream'];
+export type Chapter = Schemas['Chapter'];
+export type SubtitleTrack = Schemas['SubtitleTrack'];
+export type VideoInfo = Schemas['VideoInfo'];
+export type VideoDetails = Schemas['VideoDetails'];
+export type PlaylistEntry = Schemas['PlaylistEntry'];
+export type PlaylistInfo = Schemas['PlaylistInfo'];
+export type Info = Schemas['Info'];
+export type InfoRequest = Schemas['InfoRequest'];
+export type AudioFormat = Schemas['AudioFormat'];
+export type SubtitleOptions = Schemas['SubtitleOptions'];
+export type VideoOptions = Schemas['VideoOptions'];
+export type AudioRequest = Schemas['AudioRequest'];
+export type PlaylistDownloadRequest = Schemas['PlaylistDownloadRequest'];
+export type JobSnapshot = Schemas['JobSnapshot'];
+export type JobArchiveRequest = Schemas['JobArchiveRequest'];
+export type LibraryEntry = Schemas['LibraryEntry'];
+export type LibraryListing = Schemas['LibraryListing'];
+export type FeedFormat = Schemas['FeedFormat'];
+export type FeedItem = Schemas['FeedItem'];
+export type Feed = Schemas['Feed'];
+export type FeedListing = Schemas['FeedListing'];
+export type FeedCreateRequest = Schemas['FeedCreateRequest'];
+export type FeedItemRequest = Schemas['FeedItemRequest'];
+export type Share = Schemas['Share'];
+export type ShareListing = Schemas['ShareListing'];
+export type ShareRequest = Schemas['ShareRequest'];
+
+export const API_BASE = '/api/v1';
+
+export interface ApiClientOptions {
+  // Origin and path prefix; defaults to the same origin as the page
+  baseUrl?: string;
+  // Sent as X-API-Key when the server has API_KEYS set
+  apiKey?: string;
+  fetch?: typeof fetch;
+}
+
+// Turns an error response into an ApiError, whatever its body
+async function toApiError(response: Response): Promise<ApiError> {
+  const data = await response.json().catch(() => null);
+  const code = isErrorCode(data?.code) ? data.code : 'internal_error';
+  const retryAfter = Number(response.headers.get('Retry-After')) || undefined;
+  return new ApiError(code, typeof data?.error === 'string' ? data.error : `Request failed with status ${response.status}`, retryAfter);
+}
+
+export function createApiClient({ baseUrl = API_BASE, apiKey, fetch: fetchImpl = fetch }: ApiClientOptions = {}) {
+  const headers: Record<string, string> = apiKey ? { 'X-API-Key': apiKey } : {};
+  const url = (path: string) => `${baseUrl}${path}`;
+
+  const request = async (path: string, init: RequestInit = {}): Promise<Response> => {
+    const response = await fetchImpl(url(path), { ...init, headers: { ...headers, ...init.headers } });
+    if (!response.ok) {
+      throw await toApiError(response);
+    }
+    return response;
+  };
+
+  // Fails before sending, with the same message the server would answer
+  const post = (path: string, schema: SchemaName, body: unknown, signal?: AbortSignal) => {
+    const error = validateSchema(schema, body);
+    if (error) {
+      throw new ApiError('invalid_request', error);
+    }
+    return request(path, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal
+    });
+  };
+
+  return {
+    info: async (body: InfoRequest, signal?: AbortSignal): Promise<Info> =>
+      (await post('/info', 'InfoRequest', body, signal)).json(),
+
+    // Full metadata of a video; cheap right after `info`, which fills the same cache
+    infoDetails: async (body: InfoRequest, signal?: AbortSignal): Promise<VideoDetails> =>
+      (await post('/info/details', 'InfoRequest', body, signal)).json(),
+
+    // The converted file as a single response; jobs are better for long videos
+    download: (body: AudioRequest, signal?: AbortSignal): Promise<Response> =>
+      post('/download', 'AudioRequest', body, signal),
+
+    downloadPlaylist: (body: PlaylistDownloadRequest, signal?: AbortSignal): Promise<Response> =>
+      post('/download/playlist', 'PlaylistDownloadRequest', body, signal),
+
+    // GET form of downloadPlaylist, for handing to the browser
+    playlistDownloadUrl: ({ ids, ...options }: PlaylistDownloadRequest): string => {
+      const params = new URLSearchParams({ ids: ids.join(',') });
+      for (const [name, value] of Object.entries(options)) {
+        if (value !== undefined && value !== false) params.set(name, String(value));
+      }
+      return url(`/download/playlist?${params}`);
+    },
+
+    createJob: async (body: AudioRequest, signal?: AbortSignal): Promise<JobSnapshot> =>
+      (await post('/jobs', 'AudioRequest', body, signal)).json(),
+
+    getJob: async (id: string, signal?: AbortSignal): Promise<JobSnapshot> =>
+      (await request(`/jobs/${id}`, { signal })).json(),
+
+    cancelJob: async (id: string): Promise<void> => {
+      await request(`/jobs/${id}`, { method: 'DELETE' });
+    },
+
+    // Server-Sent Events with a JobSnapshot per update
+    jobEventsUrl: (id: string): string => url(`/jobs/${id}/events`),
+
+    jobFileUrl: (id: string): string => url(`/jobs/${id}/file`),
+
+    // Zip of several finished jobs, for handing to the browser
+    jobArchiveUrl: ({ ids, name }: JobArchiveRequest): string => {
+      const params = new URLSearchParams({ ids: ids.join(',') });
+      if (name) params.set('name', name);
+      return url(`/jobs/archive?${params}`);
+    },
+
+    listLibrary: async (signal?: AbortSignal): Promise<LibraryListing> =>
+      (await request('/library', { signal })).json(),
+
+    libraryFileUrl: (key: string): string => url(`/library/${key}`),
+
+    deleteLibraryEntry: async (key: string): Promise<void> => {
+      await request(`/library/${key}`, { method: 'DELETE' });
+    },
+
+    listFeeds: async (signal?: AbortSignal): Promise<FeedListing> =>
+      (await request('/feeds', { signal })).json(),
+
+    createFeed: async (body: FeedCreateRequest, signal?: AbortSignal): Promise<Feed> =>
+      (await post('/feeds', 'FeedCreateRequest', body, signal)).json(),
+
+    getFeed: async (id: string, signal?: AbortSignal): Promise<Feed> =>
+      (await request(`/feeds/${id}`, { signal })).json(),
+
+    deleteFeed: async (id: string): Promise<void> => {
+      await request(`/feeds/${id}`, { method: 'DELETE' });
+    },
+
+    // A video, or a playlist or channel to subscribe to
+    addToFeed: async (id: string, body: FeedItemRequest, signal?: AbortSignal): Promise<Feed> =>
+      (await post(`/feeds/${id}/items`, 'FeedItemRequest', body, signal)).json(),
+
+    removeFeedItem: async (id: string, itemId: string): Promise<void> => {
+      await request(`/feeds/${id}/items/${itemId}`, { method: 'DELETE' });
+    },
+
+    refreshFeed: async (id: string, signal?: AbortSignal): Promise<Feed> =>
+      (await request(`/feeds/${id}/refresh`, { method: 'POST', signal })).json(),
+
+    // Keeps a finished job's file behind a signed link; call before fetching the file, which ends the job
+    shareJob: async (id: string, body: ShareRequest, signal?: AbortSignal): Promise<Share> =>
+      (await post(`/jobs/${id}/share`, 'ShareRequest', body, signal)).json(),
+
+    listShares: async (signal?: AbortSignal): Promise<ShareListing> =>
+      (await request('/shares', { signal })).json(),
+
+    revokeShare: async (id: string): Promise<void> => {
+      await request(`/shares/${id}`, { method: 'DELETE' });
+    }
+  };
+}
+
+export type ApiClient = ReturnType<typeof createApiClient>;
+
+// Same-origin client for the page
+export const api = createApiClient();
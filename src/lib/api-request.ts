@@ -0,0 +1,72 @@
+import { NextRequest } from 'next/server';
+import { v4 as uuidv4 } from 'uuid';
+import { validateSchema, SchemaName } from './api-schema';
+import { ApiError } from './error-codes';
+import { logger, runWithLogContext } from './logger';
+import { counter, histogram } from './metrics';
+
+// Public address of the server, for links handed to other services; defaults to the request's own
+const PUBLIC_URL = (process.env.PUBLIC_URL || '').replace(/\/+$/, '');
+
+export function publicOrigin(request: NextRequest): string {
+  return PUBLIC_URL || request.nextUrl.origin;
+}
+
+/**
+ * Parses a JSON request body and checks it against a schema from
+ * openapi.json. Throws an `invalid_request` ApiError when either fails.
+ */
+export async function readBody<T>(request: NextRequest, schema: SchemaName): Promise<T> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    throw new ApiError('invalid_request', 'Request body must be JSON');
+  }
+
+  const error = validateSchema(schema, body);
+  if (error) {
+    throw new ApiError('invalid_request', error);
+  }
+  return body as T;
+}
+
+const httpRequests = counter('http_requests_total', 'API requests by route, method and status');
+const httpDuration = histogram(
+  'http_request_duration_seconds',
+  'Time until API responses start, by route',
+  [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60]
+);
+
+// Ids sent by clients or a proxy are kept when they look like one
+const requestIdRegex = /^[\w.-]{1,64}$/;
+
+/**
+ * Wraps a route handler so everything it logs carries a request id: the
+ * caller's `X-Request-Id`, or a new one sent back in that header. Logs how
+ * each request ended and counts it for /api/metrics under `route`.
+ */
+export function withRequestLogging<A extends unknown[]>(
+  route: string,
+  handler: (request: NextRequest, ...args: A) => Promise<Response>
+): (request: NextRequest, ...args: A) => Promise<Response> {
+  return (request, ...args) => {
+    const incoming = request.headers.get('x-request-id');
+    const requestId = incoming && requestIdRegex.test(incoming) ? incoming : uuidv4();
+
+    return runWithLogContext({ requestId }, async () => {
+      const stopTimer = httpDuration.startTimer({ route });
+      let status = 500;
+      try {
+        const response = await handler(request, ...args);
+        status = response.status;
+        response.headers.set('X-Request-Id', requestId);
+        return response;
+      } finally {
+        const seconds = stopTimer();
+        httpRequests.inc({ route, method: request.method, status: String(status) });
+        logger.info('Request finished', { method: request.method, route, status, durationMs: Math.round(seconds * 1000) });
+      }
+    });
+  };
+}
@@ -0,0 +1,122 @@
+import spec from './openapi.json';
+
+/**
+ * Validates request bodies against the schemas in openapi.json, so the
+ * document, the route handlers and the page all check the same shapes.
+ * Covers the JSON Schema keywords the document uses. Shared with the page,
+ * so it must stay free of Node imports.
+ */
+interface JsonSchema {
+  $ref?: string;
+  type?: string | string[];
+  enum?: unknown[];
+  const?: unknown;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  required?: string[];
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  oneOf?: JsonSchema[];
+}
+
+export type SchemaName = keyof typeof spec.components.schemas;
+
+const SCHEMAS = spec.components.schemas as Record<string, JsonSchema>;
+
+const TYPE_NAMES: Record<string, string> = {
+  string: 'a string',
+  number: 'a number',
+  integer: 'a whole number',
+  boolean: 'true or false',
+  object: 'an object',
+  array: 'a list',
+  null: 'null'
+};
+
+function hasType(type: string, value: unknown): boolean {
+  switch (type) {
+    case 'integer': return Number.isInteger(value);
+    case 'number': return typeof value === 'number' && Number.isFinite(value);
+    case 'array': return Array.isArray(value);
+    case 'object': return typeof value === 'object' && value !== null && !Array.isArray(value);
+    case 'null': return value === null;
+    default: return typeof value === type;
+  }
+}
+
+function check(schema: JsonSchema, value: unknown, path: string): string | null {
+  const label = path || 'Request body';
+
+  if (schema.$ref) {
+    return check(SCHEMAS[schema.$ref.split('/').pop()!], value, path);
+  }
+  if (schema.oneOf) {
+    return schema.oneOf.some(option => check(option, value, path) === null) ? null : `${label} is not valid`;
+  }
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => hasType(type, value))) {
+      return `${label} must be ${types.map(type => TYPE_NAMES[type]).join(' or ')}`;
+    }
+  }
+  if (value === null) return null;
+
+  if (schema.const !== undefined && value !== schema.const) {
+    return `${label} must be ${JSON.stringify(schema.const)}`;
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    return `${label} must be one of ${schema.enum.join(', ')}`;
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) return `${label} must be at least ${schema.minimum}`;
+    if (schema.maximum !== undefined && value > schema.maximum) return `${label} must be at most ${schema.maximum}`;
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      return value === '' ? `${label} is required` : `${label} must be at least ${schema.minLength} characters`;
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      return `${label} must be at most ${schema.maxLength} characters`;
+    }
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) return `${label} is not valid`;
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) return `${label} needs at least ${schema.minItems} ${schema.minItems === 1 ? 'item' : 'items'}`;
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) return `${label} can have at most ${schema.maxItems} items`;
+    if (schema.items) {
+      for (const [index, item] of value.entries()) {
+        const error = check(schema.items, item, `${label}[${index}]`);
+        if (error) return error;
+      }
+    }
+  } else if (typeof value === 'object') {
+    const fields = value as Record<string, unknown>;
+    for (const name of schema.required ?? []) {
+      if (fields[name] === undefined) return `${path ? `${path}.` : ''}${name} is required`;
+    }
+    for (const [name, property] of Object.entries(schema.properties ?? {})) {
+      if (fields[name] === undefined) continue;
+      const error = check(property, fields[name], path ? `${path}.${name}` : name);
+      if (error) return error;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Checks a value against one of the document's schemas. Returns an error
+ * message naming the offending field, or null when valid.
+ */
+export function validateSchema(name: SchemaName, value: unknown): string | null {
+  return check(SCHEMAS[name], value, '');
+}
@@ -0,0 +1,1577 @@
+/**
+ * This file was auto-generated by openapi-typescript.
+ * Do not make direct changes to the file.
+ */
+
+export interface paths {
+    "/openapi.json": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** This document */
+        get: operations["getOpenApi"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/info": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /**
+         * Look up a video or playlist
+         * @description Lookups of single videos are cached by canonical id, so different links to the same video share one result, and concurrent lookups share one yt-dlp run
+         */
+        post: operations["getInfo"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/info/details": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /**
+         * Full metadata of a video
+         * @description Description, upload date, view count, tags, categories and chapters, from the same cache as /info. Playlists are rejected
+         */
+        post: operations["getInfoDetails"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/download": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /** Convert a video and return the file once done */
+        post: operations["download"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/download/playlist": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** Same as POST, as a link the browser can save */
+        get: operations["downloadPlaylistLink"];
+        put?: never;
+        /** Convert playlist entries into a streamed zip */
+        post: operations["downloadPlaylist"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/jobs": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /** Queue a conversion */
+        post: operations["createJob"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/jobs/archive": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /**
+         * Zip of the files of finished jobs
+         * @description Jobs that are not complete or have expired are listed in failed.txt inside the zip. Jobs are not removed, so their files can still be fetched one by one.
+         */
+        get: operations["downloadJobArchive"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/jobs/{id}": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: string;
+            };
+            cookie?: never;
+        };
+        /** A job's status */
+        get: operations["getJob"];
+        put?: never;
+        post?: never;
+        /** Cancel a job and delete its file */
+        delete: operations["deleteJob"];
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/jobs/{id}/events": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: string;
+            };
+            cookie?: never;
+        };
+        /** Job snapshots as Server-Sent Events, named after the status, until it finishes */
+        get: operations["getJobEvents"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/jobs/{id}/file": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: string;
+            };
+            cookie?: never;
+        };
+        /**
+         * A finished job's file
+         * @description Signed links from a WebhookPayload carry `expires` and `signature` and need no credentials
+         */
+        get: operations["getJobFile"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/jobs/{id}/share": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: string;
+            };
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /** Keep a finished job's file behind a signed, expiring link */
+        post: operations["shareJob"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/library": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** Converted files kept on the server */
+        get: operations["listLibrary"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/library/{key}": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                key: string;
+            };
+            cookie?: never;
+        };
+        /** A kept file */
+        get: operations["getLibraryFile"];
+        put?: never;
+        post?: never;
+        /** Delete a kept file */
+        delete: operations["deleteLibraryEntry"];
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/shares": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** Share links that haven't expired */
+        get: operations["listShares"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/shares/{id}": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: string;
+            };
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        post?: never;
+        /** Revoke a share link and delete its file */
+        delete: operations["revokeShare"];
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/shares/{id}/file": {
+        parameters: {
+            query: {
+                /** @description Expiry in seconds since the epoch */
+                expires: number;
+                signature: string;
+            };
+            header?: never;
+            path: {
+                id: string;
+            };
+            cookie?: never;
+        };
+        /** A shared file, from its signed link */
+        get: operations["getSharedFile"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/feeds": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** Podcast feeds */
+        get: operations["listFeeds"];
+        put?: never;
+        /** Create a podcast feed */
+        post: operations["createFeed"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/feeds/{id}": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: string;
+            };
+            cookie?: never;
+        };
+        /** A podcast feed and its items */
+        get: operations["getFeed"];
+        put?: never;
+        post?: never;
+        /** Delete a feed and its files */
+        delete: operations["deleteFeed"];
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/feeds/{id}/items": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: string;
+            };
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /**
+         * Add a video, or subscribe to a playlist or channel
+         * @description Videos are converted to the feed's format in the background. Subscriptions add the latest uploads now and new ones as they appear.
+         */
+        post: operations["addToFeed"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/feeds/{id}/items/{itemId}": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: string;
+                itemId: string;
+            };
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        post?: never;
+        /** Remove an item and its file */
+        delete: operations["removeFeedItem"];
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/feeds/{id}/refresh": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: string;
+            };
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /** Look for new uploads now and retry failed items */
+        post: operations["refreshFeed"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/podcasts/{token}/feed.xml": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                /** @description The secret part of the feed's `feedUrl` */
+                token: string;
+            };
+            cookie?: never;
+        };
+        /** RSS 2.0 feed with iTunes tags, for podcast apps */
+        get: operations["getPodcastFeed"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/podcasts/{token}/{file}": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                /** @description The secret part of the feed's `feedUrl` */
+                token: string;
+                /** @description Item id with the file extension */
+                file: string;
+            };
+            cookie?: never;
+        };
+        /** An episode's audio, linked from the feed */
+        get: operations["getPodcastEpisode"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+}
+export type webhooks = Record<string, never>;
+export interface components {
+    schemas: {
+        /** @enum {string} */
+        ErrorCode: "invalid_request" | "unauthorized" | "not_found" | "conflict" | "private_video" | "video_unavailable" | "age_restricted" | "geo_blocked" | "live_not_finished" | "members_only" | "upstream_rate_limited" | "unsupported_format" | "ffmpeg_missing" | "ytdlp_missing" | "timeout" | "server_busy" | "rate_limited" | "cookies_not_allowed" | "subtitles_unavailable" | "download_failed" | "internal_error";
+        Error: {
+            /** @description Human-readable message */
+            error: string;
+            code: components["schemas"]["ErrorCode"];
+        };
+        ProviderSummary: {
+            id: string;
+            name: string;
+            /** @enum {string} */
+            thumbnailAspect: "wide" | "square";
+        };
+        /** @description An audio-only source stream */
+        VideoFormat: {
+            format_id: string;
+            ext: string;
+            acodec: string;
+            /** @description Average bitrate in kbit/s */
+            abr?: number;
+            filesize?: number;
+            format_note?: string;
+        };
+        /** @description A stream with a picture, for video downloads */
+        VideoStream: {
+            format_id: string;
+            ext: string;
+            vcodec: string;
+            /** @description none for video-only streams, which get the best audio merged in */
+            acodec: string;
+            width?: number;
+            height?: number;
+            fps?: number;
+            /** @description Total bitrate in kbit/s */
+            tbr?: number;
+            filesize?: number;
+            format_note?: string;
+        };
+        Chapter: {
+            title: string;
+            start_time: number;
+            end_time: number;
+        };
+        SubtitleTrack: {
+            /** @description Language key, e.g. en, pt-BR or en-orig */
+            language: string;
+            name: string;
+            /** @description Captions the site generated rather than ones uploaded with the video */
+            automatic: boolean;
+        };
+        VideoInfo: {
+            /**
+             * @description discriminator enum property added by openapi-typescript
+             * @enum {string}
+             */
+            type: "video";
+            title: string;
+            thumbnail: string;
+            /** @description Seconds; 0 when unknown, e.g. for live streams */
+            duration: number;
+            uploader: string;
+            description: string;
+            /** @description YYYYMMDD */
+            upload_date: string | null;
+            formats: components["schemas"]["VideoFormat"][];
+            /** @description Tallest first; empty for audio-only sites */
+            videoFormats: components["schemas"]["VideoStream"][];
+            chapters: components["schemas"]["Chapter"][];
+            subtitles: components["schemas"]["SubtitleTrack"][];
+            provider: components["schemas"]["ProviderSummary"];
+        };
+        /** @description The full metadata of a video, from the same cached lookup as /info */
+        VideoDetails: {
+            /** @description Canonical id the lookup is cached under, e.g. youtube:dQw4w9WgXcQ */
+            id: string;
+            url: string;
+            title: string;
+            uploader: string;
+            channel_url: string | null;
+            description: string;
+            /** @description YYYYMMDD */
+            upload_date: string | null;
+            /** @description Seconds; 0 when unknown */
+            duration: number;
+            view_count: number | null;
+            like_count: number | null;
+            tags: string[];
+            categories: string[];
+            chapters: components["schemas"]["Chapter"][];
+            /** @description When yt-dlp looked the video up, in milliseconds since the epoch */
+            fetchedAt: number;
+        };
+        PlaylistEntry: {
+            id: string;
+            title: string;
+            duration: number | null;
+        };
+        PlaylistInfo: {
+            /**
+             * @description discriminator enum property added by openapi-typescript
+             * @enum {string}
+             */
+            type: "playlist";
+            id: string;
+            title: string;
+            uploader: string;
+            thumbnail: string | null;
+            entries: components["schemas"]["PlaylistEntry"][];
+            provider: components["schemas"]["ProviderSummary"];
+        };
+        Info: components["schemas"]["VideoInfo"] | components["schemas"]["PlaylistInfo"];
+        InfoRequest: {
+            /** @description Video, track, playlist or channel URL */
+            url: string;
+            /** @description Use the server's cookie jar; only for users in COOKIES_USERS */
+            cookies?: boolean;
+        };
+        /** @enum {string} */
+        AudioFormat: "best" | "aac" | "alac" | "flac" | "m4a" | "mp3" | "opus" | "vorbis" | "wav";
+        TrackMetadata: {
+            title?: string;
+            artist?: string;
+            album?: string;
+            year?: string;
+            track?: string;
+            genre?: string;
+        };
+        /** @description What applies depends on the format */
+        AudioQuality: {
+            /** @enum {string} */
+            mode?: "cbr" | "vbr";
+            /** @description kbit/s */
+            bitrate?: number;
+            vbrLevel?: number;
+            sampleRate?: number;
+            /** @enum {integer} */
+            channels?: 1 | 2;
+            /** @enum {integer} */
+            bitDepth?: 16 | 24 | 32;
+        };
+        PostProcessing: {
+            /** @description Target LUFS */
+            loudness?: number;
+            trimSilence?: boolean;
+            fadeIn?: number;
+            fadeOut?: number;
+            speed?: number;
+            keepPitch?: boolean;
+        };
+        SubtitleOptions: {
+            /** @description A language from the video's subtitles in /info */
+            language: string;
+            /** @description Use the automatic captions in that language */
+            automatic?: boolean;
+            /**
+             * @description Defaults to srt; txt is a plain transcript
+             * @enum {string}
+             */
+            format?: "srt" | "vtt" | "txt";
+            /**
+             * @description only: just the subtitle file; lyrics: the transcript in the audio's lyrics tag (mp3, m4a); sidecar: a zip of the audio and the subtitle file
+             * @enum {string}
+             */
+            mode: "only" | "lyrics" | "sidecar";
+        };
+        VideoOptions: {
+            /** @description Tallest resolution to download; the best available when omitted */
+            height?: number;
+            /** @description A format_id from videoFormats; takes precedence over height */
+            formatId?: string;
+            /** @enum {string} */
+            container: "mp4" | "mkv" | "webm";
+            /** @description Merge in the best audio stream; defaults to true */
+            audio?: boolean;
+        };
+        AudioRequest: {
+            url: string;
+            format?: components["schemas"]["AudioFormat"];
+            /** @description Keep the source stream without re-encoding */
+            original?: boolean;
+            /** @description A format_id from /info, or best, best-m4a, best-opus */
+            formatId?: string;
+            /** @description Clip start in seconds */
+            start?: number;
+            /** @description Clip end in seconds */
+            end?: number;
+            /** @enum {string} */
+            chapters?: "split" | "embed";
+            metadata?: components["schemas"]["TrackMetadata"];
+            /** @enum {string} */
+            filenameTemplate?: "title" | "artist-title" | "track-title" | "track-artist-title";
+            /** @enum {string} */
+            cover?: "thumbnail" | "square" | "custom" | "none";
+            /** @description data: URL of a JPEG, PNG or WebP image, for cover "custom" */
+            coverImage?: string;
+            quality?: components["schemas"]["AudioQuality"];
+            postProcessing?: components["schemas"]["PostProcessing"];
+            subtitles?: components["schemas"]["SubtitleOptions"];
+            /** @description Download the video instead of extracting the audio; format, original, formatId, quality and postProcessing don't apply */
+            video?: components["schemas"]["VideoOptions"];
+            /** @description Use the server's cookie jar; only for users in COOKIES_USERS */
+            cookies?: boolean;
+            /** @description Jobs only: the server POSTs a signed WebhookPayload here when the job completes or fails. Needs WEBHOOK_SECRET on the server */
+            callbackUrl?: string;
+            /** @description Jobs only: groups the jobs of a batch that is zipped once done. Fetching one of their files doesn't remove it, and the batch's files are kept until 15 minutes after the last of its jobs finishes. Scoped to the caller, so other clients can't use the same ID */
+            batchId?: string;
+        };
+        PlaylistDownloadRequest: {
+            ids: string[];
+            /** @description Provider id from /info; defaults to youtube */
+            provider?: string;
+            format?: components["schemas"]["AudioFormat"];
+            original?: boolean;
+            title?: string;
+            cookies?: boolean;
+        };
+        LoudnessReport: {
+            target: number;
+            measured: number;
+            truePeak: number;
+            range: number;
+            output: number | null;
+        };
+        JobProgress: {
+            /** @enum {string} */
+            stage: "preparing" | "downloading" | "post-processing";
+            percent: number | null;
+            speed: string | null;
+            eta: string | null;
+            postprocessor: string | null;
+        };
+        JobSnapshot: {
+            /** Format: uuid */
+            id: string;
+            /** @enum {string} */
+            status: "queued" | "running" | "complete" | "error" | "cancelled";
+            progress: components["schemas"]["JobProgress"];
+            queuePosition: number | null;
+            filename: string | null;
+            size: number | null;
+            loudness: components["schemas"]["LoudnessReport"] | null;
+            error: string | null;
+            errorCode: components["schemas"]["ErrorCode"] | null;
+        };
+        /** @description Body of a job callback. Signed as X-Webhook-Signature: sha256=<hex HMAC-SHA256 of "<X-Webhook-Timestamp>.<body>" with WEBHOOK_SECRET> */
+        WebhookPayload: {
+            /** @enum {string} */
+            event: "job.complete" | "job.error";
+            jobId: string;
+            /** @enum {string} */
+            status: "complete" | "error";
+            url: string;
+            title: string | null;
+            format: string;
+            filename: string | null;
+            size: number | null;
+            /** @description Seconds, when known */
+            duration: number | null;
+            /** @description Fetches the file without credentials until linkExpiresAt */
+            fileUrl: string | null;
+            /** @description Milliseconds since the epoch */
+            linkExpiresAt: number | null;
+            error: string | null;
+            errorCode: components["schemas"]["ErrorCode"] | null;
+            finishedAt: number;
+        };
+        ShareRequest: {
+            /** @description How long the link works; 24 by default, at most SHARE_MAX_HOURS (168 by default) */
+            expiresInHours?: number;
+            /** @description Downloads allowed before the link stops working; no limit when omitted */
+            maxDownloads?: number;
+        };
+        Share: {
+            /** Format: uuid */
+            id: string;
+            filename: string;
+            size: number;
+            createdAt: number;
+            /** @description Milliseconds since the epoch; the file is deleted then */
+            expiresAt: number;
+            maxDownloads: number | null;
+            downloads: number;
+            /** @description Signed link to the file, relative to the server. Works without credentials */
+            url: string;
+        };
+        ShareListing: {
+            shares: components["schemas"]["Share"][];
+        };
+        JobArchiveRequest: {
+            ids: string[];
+            name?: string;
+        };
+        LibraryEntry: {
+            key: string;
+            provider: string;
+            itemId: string;
+            title: string;
+            thumbnail: string | null;
+            format: string;
+            filename: string;
+            size: number;
+            loudness: components["schemas"]["LoudnessReport"] | null;
+            /** @description Unix time in milliseconds */
+            createdAt: number;
+            lastAccessedAt: number;
+        };
+        LibraryListing: {
+            entries: components["schemas"]["LibraryEntry"][];
+            totalBytes: number;
+            /** @description 0 when the library is turned off */
+            maxBytes: number;
+        };
+        /**
+         * @description Formats podcast players can play
+         * @enum {string}
+         */
+        FeedFormat: "mp3" | "m4a" | "aac" | "opus";
+        FeedCreateRequest: {
+            title: string;
+            description?: string;
+            format?: components["schemas"]["FeedFormat"];
+        };
+        FeedItemRequest: {
+            /** @description A video, or a playlist or channel to subscribe to */
+            url: string;
+            /** @description Use the server's cookie jar; only for users in COOKIES_USERS */
+            cookies?: boolean;
+        };
+        FeedItem: {
+            /** Format: uuid */
+            id: string;
+            url: string;
+            title: string;
+            description: string;
+            author: string;
+            thumbnail: string | null;
+            /** @description Seconds; 0 until the video was looked up */
+            duration: number;
+            /** @description Upload date in milliseconds, or when it was added */
+            publishedAt: number;
+            addedAt: number;
+            /** @enum {string} */
+            status: "queued" | "converting" | "ready" | "error";
+            error: string | null;
+            size: number | null;
+        };
+        FeedSubscription: {
+            url: string;
+            title: string;
+            addedAt: number;
+            /** @description Last time new uploads were looked for */
+            checkedAt: number | null;
+        };
+        Feed: {
+            /** Format: uuid */
+            id: string;
+            title: string;
+            description: string;
+            format: components["schemas"]["FeedFormat"];
+            /** @description Path of the RSS feed to subscribe to in a podcast app; it needs no credentials, so keep it private */
+            feedUrl: string;
+            createdAt: number;
+            subscriptions: components["schemas"]["FeedSubscription"][];
+            /** @description Newest first */
+            items: components["schemas"]["FeedItem"][];
+        };
+        FeedListing: {
+            feeds: components["schemas"]["Feed"][];
+        };
+    };
+    responses: {
+        /** @description Error, with a machine-readable code */
+        Error: {
+            headers: {
+                [name: string]: unknown;
+            };
+            content: {
+                "application/json": components["schemas"]["Error"];
+            };
+        };
+    };
+    parameters: never;
+    requestBodies: never;
+    headers: never;
+    pathItems: never;
+}
+export type $defs = Record<string, never>;
+export interface operations {
+    getOpenApi: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description OpenAPI document */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": Record<string, never>;
+                };
+            };
+        };
+    };
+    getInfo: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["InfoRequest"];
+            };
+        };
+        responses: {
+            /** @description Video or playlist details */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["Info"];
+                };
+            };
+            400: components["responses"]["Error"];
+            401: components["responses"]["Error"];
+            403: components["responses"]["Error"];
+            404: components["responses"]["Error"];
+            429: components["responses"]["Error"];
+            default: components["responses"]["Error"];
+        };
+    };
+    getInfoDetails: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["InfoRequest"];
+            };
+        };
+        responses: {
+            /** @description Video metadata */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["VideoDetails"];
+                };
+            };
+            400: components["responses"]["Error"];
+            401: components["responses"]["Error"];
+            403: components["responses"]["Error"];
+            404: components["responses"]["Error"];
+            429: components["responses"]["Error"];
+            default: components["responses"]["Error"];
+        };
+    };
+    download: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["AudioRequest"];
+            };
+        };
+        responses: {
+            /** @description The audio file, or a zip of chapter tracks. Supports `Range`. */
+            200: {
+                headers: {
+                    /** @description Set when loudness was normalised, with the other `X-Loudness-*` headers */
+                    "X-Loudness-Target"?: number;
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/octet-stream": string;
+                };
+            };
+            400: components["responses"]["Error"];
+            401: components["responses"]["Error"];
+            403: components["responses"]["Error"];
+            429: components["responses"]["Error"];
+            default: components["responses"]["Error"];
+        };
+    };
+    downloadPlaylistLink: {
+        parameters: {
+            query: {
+                /** @description Comma-separated entry ids */
+                ids: string;
+                provider?: string;
+                format?: components["schemas"]["AudioFormat"];
+                original?: boolean;
+                title?: string;
+                cookies?: boolean;
+            };
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description Zip of the tracks */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/zip": string;
+                };
+            };
+            400: components["responses"]["Error"];
+            401: components["responses"]["Error"];
+            403: components["responses"]["Error"];
+            429: components["responses"]["Error"];
+            default: components["responses"]["Error"];
+        };
+    };
+    downloadPlaylist: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["PlaylistDownloadRequest"];
+            };
+        };
+        responses: {
+            /** @description Zip of the tracks; failed ones are listed in failed.txt */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/zip": string;
+                };
+            };
+            400: components["responses"]["Error"];
+            401: components["responses"]["Error"];
+            403: components["responses"]["Error"];
+            429: components["responses"]["Error"];
+            default: components["responses"]["Error"];
+        };
+    };
+    createJob: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["AudioRequest"];
+            };
+        };
+        responses: {
+            /** @description The queued job */
+            202: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["JobSnapshot"];
+                };
+            };
+            400: components["responses"]["Error"];
+            401: components["responses"]["Error"];
+            403: components["responses"]["Error"];
+            429: components["responses"]["Error"];
+            default: components["responses"]["Error"];
+        };
+    };
+    downloadJobArchive: {
+        parameters: {
+            query: {
+                /** @description Comma-separated job ids */
+                ids: string;
+                /** @description Name of the zip, without .zip */
+                name?: string;
+            };
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description Zip of the job files */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/zip": string;
+                };
+            };
+            400: components["responses"]["Error"];
+            401: components["responses"]["Error"];
+            default: components["responses"]["Error"];
+        };
+    };
+    getJob: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: string;
+            };
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description The job */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["JobSnapshot"];
+                };
+            };
+            404: components["responses"]["Error"];
+        };
+    };
+    deleteJob: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: string;
+            };
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description Deleted */
+            204: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content?: never;
+            };
+            404: components["responses"]["Error"];
+        };
+    };
+    getJobEvents: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: string;
+            };
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description Event stream of JobSnapshot */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "text/event-stream": string;
+                };
+            };
+            404: components["responses"]["Error"];
+        };
+    };
+    getJobFile: {
+        parameters: {
+            query?: {
+                /** @description Signed links only: expiry in seconds since the epoch */
+                expires?: number;
+                /** @description Signed links only */
+                signature?: string;
+            };
+            header?: never;
+            path: {
+                id: string;
+            };
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description The audio file, or a zip of chapter tracks. Supports `Range`. */
+            200: {
+                headers: {
+                    /** @description Set when loudness was normalised, with the other `X-Loudness-*` headers */
+                    "X-Loudness-Target"?: number;
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/octet-stream": string;
+                };
+            };
+            /** @description Partial content */
+            206: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content?: never;
+            };
+            401: components["responses"]["Error"];
+            404: components["responses"]["Error"];
+            409: components["responses"]["Error"];
+        };
+    };
+    shareJob: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: string;
+            };
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["ShareRequest"];
+            };
+        };
+        responses: {
+            /** @description The new share */
+            201: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["Share"];
+                };
+            };
+            400: components["responses"]["Error"];
+            401: components["responses"]["Error"];
+            404: components["responses"]["Error"];
+            409: components["responses"]["Error"];
+        };
+    };
+    listLibrary: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description Entries, most recently used first */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["LibraryListing"];
+                };
+            };
+            default: components["responses"]["Error"];
+        };
+    };
+    getLibraryFile: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                key: string;
+            };
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description The audio file, or a zip of chapter tracks. Supports `Range`. */
+            200: {
+                headers: {
+                    /** @description Set when loudness was normalised, with the other `X-Loudness-*` headers */
+                    "X-Loudness-Target"?: number;
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/octet-stream": string;
+                };
+            };
+            404: components["responses"]["Error"];
+        };
+    };
+    deleteLibraryEntry: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                key: string;
+            };
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description Deleted */
+            204: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content?: never;
+            };
+            404: components["responses"]["Error"];
+        };
+    };
+    listShares: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description All live shares, newest first */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ShareListing"];
+                };
+            };
+            401: components["responses"]["Error"];
+        };
+    };
+    revokeShare: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: string;
+            };
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description Revoked */
+            204: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content?: never;
+            };
+            401: components["responses"]["Error"];
+            404: components["responses"]["Error"];
+        };
+    };
+    getSharedFile: {
+        parameters: {
+            query: {
+                /** @description Expiry in seconds since the epoch */
+                expires: number;
+                signature: string;
+            };
+            header?: never;
+            path: {
+                id: string;
+            };
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description The file. Supports `Range`; resumed transfers don't count as downloads. */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/octet-stream": string;
+                };
+            };
+            /** @description Partial content */
+            206: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content?: never;
+            };
+            401: components["responses"]["Error"];
+            404: components["responses"]["Error"];
+        };
+    };
+    listFeeds: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description All feeds */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["FeedListing"];
+                };
+            };
+            401: components["responses"]["Error"];
+        };
+    };
+    createFeed: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["FeedCreateRequest"];
+            };
+        };
+        responses: {
+            /** @description The new feed */
+            201: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["Feed"];
+                };
+            };
+            400: components["responses"]["Error"];
+            401: components["responses"]["Error"];
+        };
+    };
+    getFeed: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: string;
+            };
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description The feed */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["Feed"];
+                };
+            };
+            404: components["responses"]["Error"];
+        };
+    };
+    deleteFeed: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: string;
+            };
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description Deleted */
+            204: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content?: never;
+            };
+            404: components["responses"]["Error"];
+        };
+    };
+    addToFeed: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: string;
+            };
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["FeedItemRequest"];
+            };
+        };
+        responses: {
+            /** @description The feed with the new items queued */
+            202: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["Feed"];
+                };
+            };
+            400: components["responses"]["Error"];
+            401: components["responses"]["Error"];
+            403: components["responses"]["Error"];
+            404: components["responses"]["Error"];
+            409: components["responses"]["Error"];
+            429: components["responses"]["Error"];
+            default: components["responses"]["Error"];
+        };
+    };
+    removeFeedItem: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: string;
+                itemId: string;
+            };
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description Removed */
+            204: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content?: never;
+            };
+            404: components["responses"]["Error"];
+        };
+    };
+    refreshFeed: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: string;
+            };
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description The feed */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["Feed"];
+                };
+            };
+            404: components["responses"]["Error"];
+            429: components["responses"]["Error"];
+            default: components["responses"]["Error"];
+        };
+    };
+    getPodcastFeed: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                /** @description The secret part of the feed's `feedUrl` */
+                token: string;
+            };
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description The feed */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/rss+xml": string;
+                };
+            };
+            404: components["responses"]["Error"];
+        };
+    };
+    getPodcastEpisode: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                /** @description The secret part of the feed's `feedUrl` */
+                token: string;
+                /** @description Item id with the file extension */
+                file: string;
+            };
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description The audio file. Supports `Range`. */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/octet-stream": string;
+                };
+            };
+            404: components["responses"]["Error"];
+        };
+    };
+}
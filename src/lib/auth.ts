@@ -0,0 +1,81 @@
+import { timingSafeEqual } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+
+// Comma-separated keys accepted as "Authorization: Bearer <key>" or "X-API-Key: <key>"
+const API_KEYS = (process.env.API_KEYS || '').split(',').map(key => key.trim()).filter(Boolean);
+
+// "user:password"; protects the page as well as the API
+const BASIC_AUTH = process.env.BASIC_AUTH || '';
+
+// Routes that accept signed links instead of credentials
+const SIGNED_PATH_REGEX = /^\/api\/v1\/(jobs|shares)\/[^/]+\/file$/;
+
+export function isAuthEnabled(): boolean {
+  return API_KEYS.length > 0 || BASIC_AUTH !== '';
+}
+
+// Constant-time comparison, so keys can't be guessed from response times
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+/**
+ * The API key sent with a request, when it is one of API_KEYS.
+ */
+export function validApiKey(request: NextRequest): string | null {
+  const authorization = request.headers.get('authorization') ?? '';
+  const key = request.headers.get('x-api-key')
+    ?? (authorization.toLowerCase().startsWith('bearer ') ? authorization.slice(7).trim() : null);
+  if (!key) return null;
+  return API_KEYS.some(valid => safeEqual(valid, key)) ? key : null;
+}
+
+function hasValidBasicAuth(request: NextRequest): boolean {
+  const authorization = request.headers.get('authorization') ?? '';
+  if (!BASIC_AUTH || !authorization.toLowerCase().startsWith('basic ')) return false;
+  const credentials = Buffer.from(authorization.slice(6).trim(), 'base64').toString('utf8');
+  return safeEqual(credentials, BASIC_AUTH);
+}
+
+/**
+ * Who sent a request: their API key, or the basic-auth user name. Null for
+ * anonymous requests.
+ */
+export function requestUser(request: NextRequest): string | null {
+  const apiKey = validApiKey(request);
+  if (apiKey) return apiKey;
+  return hasValidBasicAuth(request) ? BASIC_AUTH.split(':')[0] : null;
+}
+
+/**
+ * Checks a request's credentials when auth is configured. Returns a 401
+ * response, or null when the request may proceed.
+ *
+ * API routes accept an API key or basic auth. Pages only need basic auth;
+ * with API keys alone they stay public but can't call the API themselves.
+ */
+export function checkAuth(request: NextRequest): NextResponse | null {
+  if (!isAuthEnabled()) return null;
+
+  // Podcast apps can't send credentials; these routes check the feed's secret token instead
+  if (request.nextUrl.pathname.startsWith('/api/v1/podcasts/')) return null;
+
+  // Load balancers and uptime checks can't send credentials either; it reveals only tool versions
+  if (request.nextUrl.pathname === '/api/health') return null;
+
+  // Signed links carry their own proof, which the route checks
+  if (request.nextUrl.searchParams.has('signature') && SIGNED_PATH_REGEX.test(request.nextUrl.pathname)) return null;
+
+  const isApi = request.nextUrl.pathname.startsWith('/api/');
+  if (isApi && validApiKey(request)) return null;
+  if (hasValidBasicAuth(request)) return null;
+  if (!isApi && !BASIC_AUTH) return null;
+
+  // Makes browsers ask for the password instead of showing a bare error
+  const headers: Record<string, string> = BASIC_AUTH ? { 'WWW-Authenticate': 'Basic realm="Audio Extractor", charset="UTF-8"' } : {};
+  return isApi
+    ? NextResponse.json({ error: 'Unauthorized', code: 'unauthorized' }, { status: 401, headers })
+    : new NextResponse('Unauthorized', { status: 401, headers });
+}
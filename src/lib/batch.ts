@@ -0,0 +1,89 @@
+import { ApiError } from './error-codes';
+import { matchSource } from './providers';
+
+/**
+ * Helpers for converting many URLs from the page. Shared with the page, so
+ * it must stay free of Node imports.
+ */
+
+export interface ParsedUrlList {
+  // Canonical URLs in the order given, without duplicates
+  urls: string[];
+  // Links that were dropped because an earlier one (or `existing`) is the same item
+  duplicates: number;
+  // Entries that look like links but no enabled provider accepts
+  invalid: string[];
+}
+
+/**
+ * Reads pasted URLs: one per line, or CSV/TSV rows where any cell may hold
+ * a link (so exported spreadsheets work as-is, header row included).
+ * Links are compared in canonical form, so youtu.be and watch?v= forms of
+ * the same video count as one.
+ */
+export function parseUrlList(text: string, existing: string[] = []): ParsedUrlList {
+  const seen = new Set(existing);
+  const result: ParsedUrlList = { urls: [], duplicates: 0, invalid: [] };
+
+  for (const line of text.split(/\r?\n/)) {
+    if (!line.trim() || line.trim().startsWith('#')) continue;
+
+    const cells = line.split(/[,;\t]/).map(cell => cell.trim().replace(/^["']|["']$/g, '').trim()).filter(Boolean);
+    for (const cell of cells) {
+      const source = matchSource(cell);
+      if (!source) {
+        // A lone value on its line was meant as a link; other cells are titles and such
+        if (cells.length === 1 || /^https?:\/\//i.test(cell)) result.invalid.push(cell);
+        continue;
+      }
+      if (seen.has(source.url)) {
+        result.duplicates++;
+        continue;
+      }
+      seen.add(source.url);
+      result.urls.push(source.url);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Runs `worker` over `items` with at most `concurrency` running at once.
+ * Resolves when all are done; failures are the worker's to record.
+ */
+export async function runPool<T>(items: T[], concurrency: number, worker: (item: T) => Promise<void>): Promise<void> {
+  let next = 0;
+  const lanes = Array.from({ length: Math.min(concurrency, items.length) }, async () => {
+    while (next < items.length) {
+      await worker(items[next++]);
+    }
+  });
+  await Promise.all(lanes);
+}
+
+// How often a call is repeated after the server asked to slow down
+const MAX_RATE_LIMIT_RETRIES = 5;
+
+/**
+ * Calls `run`, waiting and trying again when the server answers
+ * `rate_limited` or `server_busy`, as a long batch easily hits the limits.
+ */
+export async function retryWhenLimited<T>(run: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await run();
+    } catch (error) {
+      const limited = error instanceof ApiError && (error.code === 'rate_limited' || error.code === 'server_busy');
+      if (!limited || attempt >= MAX_RATE_LIMIT_RETRIES) throw error;
+
+      await new Promise<void>((resolve, reject) => {
+        const timer = setTimeout(resolve, (error.retryAfter ?? 5) * 1000);
+        signal?.addEventListener('abort', () => {
+          clearTimeout(timer);
+          reject(new DOMException('Cancelled', 'AbortError'));
+        }, { once: true });
+      });
+    }
+  }
+}
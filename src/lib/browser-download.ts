@@ -0,0 +1,10 @@
+// Hands a URL to the browser's own download manager, which streams it
+// straight to disk instead of holding the whole file in memory
+export const startDownload = (href: string) => {
+  const a = document.createElement('a');
+  a.href = href;
+  a.download = '';
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+};
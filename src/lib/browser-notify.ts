@@ -0,0 +1,22 @@
+// Desktop notifications for downloads that finish while the tab is in the background
+
+export const notificationsSupported = () => typeof window !== 'undefined' && 'Notification' in window;
+
+// Asks for permission if the user hasn't decided yet; true when granted
+export const requestNotifications = async (): Promise<boolean> => {
+  if (!notificationsSupported()) return false;
+  if (Notification.permission === 'default') {
+    await Notification.requestPermission();
+  }
+  return Notification.permission === 'granted';
+};
+
+// Only while the user is looking elsewhere; the page shows the result itself otherwise
+export const notify = (title: string, body: string) => {
+  if (!notificationsSupported() || Notification.permission !== 'granted' || !document.hidden) return;
+  const notification = new Notification(title, { body, icon: '/favicon.ico' });
+  notification.onclick = () => {
+    window.focus();
+    notification.close();
+  };
+};
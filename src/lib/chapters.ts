@@ -0,0 +1,60 @@
+import { mkdir, stat } from 'fs/promises';
+import { dirname, extname, join } from 'path';
+import { ConvertedFile } from './download';
+import { runFfmpeg } from './ffmpeg';
+import { sanitizeFilename } from './format';
+import { VideoInfo } from './video-info';
+import { writeZipFile } from './zip';
+
+/**
+ * Cuts a converted file into one track per chapter and zips them.
+ * Each track keeps the source tags and artwork, with the chapter title as
+ * track title, its position as track number and the video title as album.
+ */
+export async function splitIntoChapters(
+  file: ConvertedFile,
+  info: Pick<VideoInfo, 'title' | 'chapters'>,
+  signal?: AbortSignal
+): Promise<ConvertedFile> {
+  const { chapters } = info;
+  if (chapters.length === 0) {
+    throw new Error('This video has no chapters');
+  }
+
+  const ext = extname(file.filename);
+  const trackDir = join(dirname(file.filePath), 'chapters');
+  await mkdir(trackDir, { recursive: true });
+
+  const pad = Math.max(2, String(chapters.length).length);
+  const tracks: { path: string; name: string }[] = [];
+
+  for (const [index, chapter] of chapters.entries()) {
+    const trackNumber = index + 1;
+    const name = `${String(trackNumber).padStart(pad, '0')} - ${sanitizeFilename(chapter.title) || `Chapter ${trackNumber}`}${ext}`;
+    const path = join(trackDir, name);
+
+    await runFfmpeg([
+      '-ss', chapter.start_time.toString(),
+      '-i', file.filePath,
+      '-t', (chapter.end_time - chapter.start_time).toString(),
+      // Keep audio and cover art, drop the chapter list of the whole file
+      '-map', '0',
+      '-map_metadata', '0',
+      '-map_chapters', '-1',
+      '-c', 'copy',
+      '-metadata', `title=${chapter.title}`,
+      '-metadata', `track=${trackNumber}/${chapters.length}`,
+      '-metadata', `album=${info.title}`,
+      path
+    ], signal);
+
+    tracks.push({ path, name });
+  }
+
+  const filename = `${sanitizeFilename(info.title) || 'chapters'}.zip`;
+  const filePath = join(dirname(file.filePath), filename);
+  await writeZipFile(tracks, filePath);
+
+  const { size } = await stat(filePath);
+  return { filename, filePath, size };
+}
@@ -0,0 +1,105 @@
+import { readdir, rename, unlink, writeFile } from 'fs/promises';
+import { extname, join } from 'path';
+import { ConvertedFile } from './download';
+import { runFfmpeg } from './ffmpeg';
+
+/**
+ * - thumbnail: the video thumbnail as-is (yt-dlp embeds it)
+ * - square: the thumbnail centre-cropped to a square
+ * - custom: an image uploaded by the user
+ * - none: no cover art
+ */
+export type CoverMode = 'thumbnail' | 'square' | 'custom' | 'none';
+
+export const COVER_MODES: CoverMode[] = ['thumbnail', 'square', 'custom', 'none'];
+
+// Formats ffmpeg can attach a picture stream to; opus/vorbis covers need mutagen, which only yt-dlp drives
+export const COVER_EDIT_SUPPORTED = ['mp3', 'm4a', 'alac', 'flac'];
+
+const MAX_COVER_BYTES = 5 * 1024 * 1024;
+
+const coverDataUrlRegex = /^data:image\/(jpeg|png|webp);base64,([A-Za-z0-9+/=]+)$/;
+
+// Centre crop to the shorter side, same recipe yt-dlp documents for square thumbnails
+const SQUARE_CROP = "crop='min(iw,ih)':'min(iw,ih)'";
+
+export function validateCoverImage(coverImage: unknown): string | null {
+  if (typeof coverImage !== 'string') {
+    return 'Custom cover must be an image data URL';
+  }
+
+  const match = coverImage.match(coverDataUrlRegex);
+  if (!match) {
+    return 'Custom cover must be a JPEG, PNG or WebP image';
+  }
+
+  // base64 encodes 3 bytes in 4 characters
+  if (match[2].length * 0.75 > MAX_COVER_BYTES) {
+    return `Custom cover must be smaller than ${MAX_COVER_BYTES / 1024 / 1024} MB`;
+  }
+
+  return null;
+}
+
+/**
+ * Produces the cover to embed as a JPEG in `tempDir`: the uploaded image for
+ * "custom", or the thumbnail yt-dlp wrote next to the audio, cropped, for "square".
+ */
+export async function prepareCover(
+  mode: 'square' | 'custom',
+  tempDir: string,
+  coverImage: string | undefined,
+  signal?: AbortSignal
+): Promise<string> {
+  const coverPath = join(tempDir, 'cover.cover.jpg');
+  let source: string;
+
+  if (mode === 'custom') {
+    const match = coverImage?.match(coverDataUrlRegex);
+    if (!match) {
+      throw new Error('Custom cover is missing');
+    }
+    source = join(tempDir, `upload.cover.${match[1]}`);
+    await writeFile(source, Buffer.from(match[2], 'base64'));
+  } else {
+    const thumbnail = (await readdir(tempDir)).find(f => /\.(jpg|png|webp)$/.test(f) && !f.includes('.cover.'));
+    if (!thumbnail) {
+      throw new Error('Video thumbnail could not be downloaded');
+    }
+    source = join(tempDir, thumbnail);
+  }
+
+  await runFfmpeg([
+    '-i', source,
+    ...(mode === 'square' ? ['-vf', SQUARE_CROP] : []),
+    '-frames:v', '1',
+    '-q:v', '2',
+    coverPath
+  ], signal);
+
+  return coverPath;
+}
+
+/**
+ * Embeds `coverPath` as the front cover of `file`, replacing it in place.
+ */
+export async function attachCover(file: ConvertedFile, coverPath: string, signal?: AbortSignal): Promise<void> {
+  const ext = extname(file.filename);
+  const output = `${file.filePath.slice(0, -ext.length)}.cover${ext}`;
+
+  await runFfmpeg([
+    '-i', file.filePath,
+    '-i', coverPath,
+    '-map', '0:a',
+    '-map', '1:0',
+    '-map_metadata', '0',
+    '-c', 'copy',
+    '-disposition:v:0', 'attached_pic',
+    '-metadata:s:v', 'comment=Cover (front)',
+    ...(ext === '.mp3' ? ['-id3v2_version', '3'] : []),
+    output
+  ], signal);
+
+  await unlink(file.filePath);
+  await rename(output, file.filePath);
+}
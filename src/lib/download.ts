@@ -0,0 +1,476 @@
+import { copyFile, mkdir, readdir, readFile, stat } from 'fs/promises';
+import { join } from 'path';
+import {
+  AUDIO_FORMATS,
+  buildAudioArgs,
+  CHAPTERS_SUPPORTED,
+  createTempDir,
+  isThumbnailFile,
+  removeTempDir,
+  runYtDlp,
+  RunOptions,
+  targetFormatOf
+} from './ytdlp';
+import { splitIntoChapters } from './chapters';
+import { attachCover, COVER_EDIT_SUPPORTED, COVER_MODES, CoverMode, prepareCover, validateCoverImage } from './cover';
+import { ApiError } from './error-codes';
+import { formatDuration } from './format';
+import { getVideoInfo } from './info-cache';
+import { checkOutputLimits, checkOutputSize, hasOutputLimits } from './limits';
+import { FILENAME_TEMPLATES, FilenameTemplate, TrackMetadata, validateMetadata } from './metadata';
+import { counter, histogram } from './metrics';
+import { postProcess } from './postprocess';
+import {
+  hasPostProcessing,
+  LoudnessReport,
+  PostProcessing,
+  shiftsTimestamps,
+  validatePostProcessing
+} from './postprocess-options';
+import { AudioQuality, validateQuality } from './quality';
+import { isSourcePreference, isValidFormatId, passthroughFormat } from './source';
+import { checkSubtitleCombination, SubtitleOptions, validateSubtitles } from './subtitle-options';
+import { bundleSubtitles, buildSubtitleArgs, embedLyrics, isSubtitleFile, readSubtitles } from './subtitles';
+import { checkVideoCombination, validateVideoOptions, VideoOptions } from './video-options';
+import { matchVideo, validateSourceUrl } from './providers';
+
+export interface AudioRequest {
+  url: string;
+  format?: string;
+  // Remux the source stream as-is instead of converting to `format`
+  original?: boolean;
+  // Exact source stream from /api/info, or one of SOURCE_PREFERENCES
+  formatId?: string;
+  start?: number;
+  end?: number;
+  // 'split' delivers one track per chapter as a zip, 'embed' adds chapter markers
+  chapters?: 'split' | 'embed';
+  metadata?: TrackMetadata;
+  filenameTemplate?: FilenameTemplate;
+  cover?: CoverMode;
+  // data: URL of the uploaded image when cover is 'custom'
+  coverImage?: string;
+  // Bitrate, sample rate, channels and bit depth; what applies depends on the format
+  quality?: AudioQuality;
+  // ffmpeg steps after extraction: loudness, silence trim, fades, speed
+  postProcessing?: PostProcessing;
+  // Subtitles on their own, as the audio's lyrics tag, or zipped alongside it
+  subtitles?: SubtitleOptions;
+  // Download the video in this resolution and container instead of extracting the audio
+  video?: VideoOptions;
+  // Use the server's cookie jar, for age-restricted and members-only videos.
+  // Routes check the caller may with checkCookieAccess
+  cookies?: boolean;
+  // Jobs only: where to POST the signed result; toAudioRequest leaves it out
+  callbackUrl?: string;
+  // Jobs only: the batch the job is zipped with; toAudioRequest leaves it out
+  batchId?: string;
+}
+
+export interface ConvertedFile {
+  filename: string;
+  filePath: string;
+  size: number;
+  // Set when loudness was normalised
+  loudness?: LoudnessReport | null;
+}
+
+/**
+ * Checks a download request body. Returns an error message, or null when valid.
+ */
+export function validateAudioRequest({
+  url,
+  format,
+  original,
+  formatId,
+  start,
+  end,
+  chapters,
+  metadata,
+  filenameTemplate,
+  cover,
+  coverImage,
+  quality,
+  postProcessing,
+  subtitles,
+  video,
+  cookies
+}: Partial<AudioRequest>): string | null {
+  const urlError = validateSourceUrl(url);
+  if (urlError) {
+    return urlError;
+  }
+  // One file per request; playlists go through /api/v1/download/playlist
+  if (!matchVideo(url!)) {
+    return 'Playlist and channel links can only be downloaded entry by entry';
+  }
+
+  if (video !== undefined) {
+    const videoError = validateVideoOptions(video)
+      ?? checkVideoCombination({ format, original, formatId, quality, postProcessing, chapters, cover, subtitles });
+    if (videoError) {
+      return videoError;
+    }
+  }
+
+  if (!original && format && !AUDIO_FORMATS.includes(format)) {
+    return 'Invalid audio format';
+  }
+
+  if (formatId !== undefined && !isValidFormatId(formatId)) {
+    return 'Invalid source format';
+  }
+
+  if (cookies !== undefined && typeof cookies !== 'boolean') {
+    return 'cookies must be true or false';
+  }
+
+  for (const value of [start, end]) {
+    if (value !== undefined && (typeof value !== 'number' || !Number.isFinite(value) || value < 0)) {
+      return 'Clip start and end must be positive numbers of seconds';
+    }
+  }
+
+  if (start !== undefined && end !== undefined && end <= start) {
+    return 'Clip end must be after its start';
+  }
+
+  if (chapters !== undefined) {
+    if (chapters !== 'split' && chapters !== 'embed') {
+      return 'Invalid chapter mode';
+    }
+    if (start !== undefined || end !== undefined) {
+      return 'Chapters cannot be combined with a clip';
+    }
+  }
+
+  if (metadata !== undefined) {
+    const metadataError = validateMetadata(metadata);
+    if (metadataError) {
+      return metadataError;
+    }
+    if (!metadata.title?.trim()) {
+      return 'Title is required';
+    }
+  }
+
+  if (filenameTemplate !== undefined && !(filenameTemplate in FILENAME_TEMPLATES)) {
+    return 'Invalid filename template';
+  }
+
+  if (cover !== undefined) {
+    if (!COVER_MODES.includes(cover)) {
+      return 'Invalid cover mode';
+    }
+    if (cover === 'custom') {
+      const coverError = validateCoverImage(coverImage);
+      if (coverError) {
+        return coverError;
+      }
+    }
+  }
+
+  // When passing an exact stream through, its format is only known once the video is looked up.
+  // Video containers hold chapters and covers alike
+  if (!video && !(original && formatId && !isSourcePreference(formatId))) {
+    const targetError = validateTargetFormat(targetFormatOf({ format, original, formatId }), { chapters, cover });
+    if (targetError) {
+      return targetError;
+    }
+  }
+
+  if (quality !== undefined) {
+    if (original) {
+      return 'Original quality cannot be combined with quality options';
+    }
+    const qualityError = validateQuality(format || 'mp3', quality);
+    if (qualityError) {
+      return qualityError;
+    }
+  }
+
+  if (postProcessing !== undefined) {
+    const postProcessingError = validatePostProcessing(postProcessing);
+    if (postProcessingError) {
+      return postProcessingError;
+    }
+    if (hasPostProcessing(postProcessing)) {
+      // Filtering means re-encoding, which is exactly what "original" avoids
+      if (original || format === 'best') {
+        return 'Audio filters need a target format to convert to';
+      }
+      if (chapters !== undefined && shiftsTimestamps(postProcessing)) {
+        return 'Silence trimming and speed changes cannot be combined with chapters';
+      }
+      // ffmpeg reads Opus covers as a picture stream but can't write one to Ogg
+      if (format === 'opus' && (cover ?? 'thumbnail') === 'thumbnail') {
+        return 'Audio filters would drop the Opus cover art; choose "No cover" or another format';
+      }
+    }
+  }
+
+  if (subtitles !== undefined) {
+    const subtitlesError = validateSubtitles(subtitles);
+    if (subtitlesError) {
+      return subtitlesError;
+    }
+    const exactPassthrough = original && formatId && !isSourcePreference(formatId);
+    const combinationError = checkSubtitleCombination(subtitles, {
+      target: exactPassthrough ? undefined : targetFormatOf({ format, original, formatId, video }),
+      chapters,
+      clipped: start !== undefined || end !== undefined,
+      postProcessing
+    });
+    if (combinationError) {
+      return combinationError;
+    }
+  }
+
+  return null;
+}
+
+// Chapter markers and edited covers only fit some containers
+function validateTargetFormat(target: string, { chapters, cover }: Partial<AudioRequest>): string | null {
+  if (chapters === 'embed' && !CHAPTERS_SUPPORTED.includes(target)) {
+    return `Chapter markers are only supported for ${CHAPTERS_SUPPORTED.join(', ')}`;
+  }
+  if ((cover === 'square' || cover === 'custom') && !COVER_EDIT_SUPPORTED.includes(target)) {
+    return `Cropped or custom covers are only supported for ${COVER_EDIT_SUPPORTED.join(', ')}`;
+  }
+  return null;
+}
+
+/**
+ * Picks the download options out of a parsed request body, dropping anything else.
+ * Call validateAudioRequest first.
+ */
+export function toAudioRequest(body: AudioRequest): AudioRequest {
+  const {
+    url, format, original, formatId, start, end, chapters, metadata, filenameTemplate, cover, coverImage, quality, postProcessing,
+    subtitles, video, cookies
+  } = body;
+  return {
+    // Canonical form, so equivalent links share library entries
+    url: matchVideo(url)?.url ?? url,
+    format, original, formatId, start, end, chapters, metadata, filenameTemplate, cover, coverImage, quality, postProcessing,
+    subtitles, video, cookies: cookies || undefined
+  };
+}
+
+/**
+ * Checks the parts of a request that depend on the video itself: clip
+ * boundaries against its duration, that it has chapters to split, that an
+ * exact source stream exists, that the subtitle language is offered, and
+ * the server's duration and size limits. Only looks the video up when one
+ * of those applies.
+ */
+export async function validateAgainstVideo(request: AudioRequest, signal?: AbortSignal): Promise<string | null> {
+  const { url, original, formatId, start, end, chapters, cover, subtitles, video, cookies } = request;
+  const exactFormat = formatId !== undefined && !isSourcePreference(formatId);
+  if (
+    start === undefined && end === undefined && chapters !== 'split' && !exactFormat && !subtitles && !video?.formatId &&
+    !hasOutputLimits()
+  ) {
+    return null;
+  }
+
+  const info = await getVideoInfo(url, { signal, cookies });
+  const { duration, chapters: videoChapters, formats } = info;
+  if (chapters === 'split' && videoChapters.length === 0) {
+    return 'This video has no chapters';
+  }
+
+  if (subtitles && !info.subtitles.some(t => t.language === subtitles.language && t.automatic === !!subtitles.automatic)) {
+    return subtitles.automatic
+      ? `No automatic captions in "${subtitles.language}" for this video`
+      : `No subtitles in "${subtitles.language}" for this video`;
+  }
+
+  if (exactFormat) {
+    const source = formats.find(f => f.format_id === formatId);
+    if (!source) {
+      return `Format ${formatId} is not available for this video`;
+    }
+    if (original) {
+      const target = passthroughFormat(source.acodec);
+      const targetError = validateTargetFormat(target, { chapters, cover })
+        ?? (subtitles ? checkSubtitleCombination(subtitles, { target, clipped: false }) : null);
+      if (targetError) {
+        return targetError;
+      }
+    }
+  }
+
+  if (video?.formatId && !info.videoFormats.some(f => f.format_id === video.formatId)) {
+    return `Video format ${video.formatId} is not available for this video`;
+  }
+
+  // Live streams and some uploads report no duration; let yt-dlp decide
+  if (duration) {
+    if (start !== undefined && start >= duration) {
+      return `Clip start is past the end of the video (${Math.floor(duration)}s)`;
+    }
+    if (end !== undefined && end > Math.ceil(duration)) {
+      return `Clip end is past the end of the video (${Math.floor(duration)}s)`;
+    }
+  }
+
+  // Subtitles on their own are tiny, whatever the video's length
+  return subtitles?.mode === 'only' ? null : checkOutputLimits(request, info);
+}
+
+/**
+ * Runs every check on a request body that passed the AudioRequest schema,
+ * including those against the video, and returns it in canonical form.
+ * Throws an `invalid_request` ApiError. Shared by the routes and the CLI.
+ */
+export async function prepareAudioRequest(body: AudioRequest, signal?: AbortSignal): Promise<AudioRequest> {
+  const validationError = validateAudioRequest(body);
+  if (validationError) {
+    throw new ApiError('invalid_request', validationError);
+  }
+
+  const request = toAudioRequest(body);
+  const videoError = await validateAgainstVideo(request, signal);
+  if (videoError) {
+    throw new ApiError('invalid_request', videoError);
+  }
+  return request;
+}
+
+const conversions = counter('conversions_total', 'Conversions by output format and outcome');
+const conversionDuration = histogram(
+  'conversion_duration_seconds',
+  'Time conversions took, post-processing included, by output format',
+  [1, 5, 10, 30, 60, 120, 300, 600, 1800]
+);
+
+/**
+ * Runs yt-dlp for a single video into `tempDir` and returns the produced audio
+ * file, the video file in video mode, or the subtitle file when only
+ * subtitles were asked for.
+ */
+export async function convertAudio(
+  request: AudioRequest,
+  tempDir: string,
+  options: RunOptions = {}
+): Promise<ConvertedFile> {
+  const format = request.subtitles?.mode === 'only' ? request.subtitles.format ?? 'srt' : targetFormatOf(request);
+  const stopTimer = conversionDuration.startTimer({ format });
+
+  try {
+    const file = await runConversion(request, tempDir, options);
+    // The estimate checked up front can be off
+    checkOutputSize(file.size);
+    stopTimer();
+    conversions.inc({ format, status: 'ok' });
+    return file;
+  } catch (error) {
+    conversions.inc({ format, status: options.signal?.aborted ? 'cancelled' : 'error' });
+    throw error;
+  }
+}
+
+async function runConversion(request: AudioRequest, tempDir: string, options: RunOptions): Promise<ConvertedFile> {
+  const nameTemplate = FILENAME_TEMPLATES[request.filenameTemplate ?? 'title'];
+  const { subtitles } = request;
+
+  if (subtitles?.mode === 'only') {
+    await runYtDlp([
+      '--skip-download',
+      ...buildSubtitleArgs(subtitles),
+      '-o', join(tempDir, `${nameTemplate}.%(ext)s`),
+      '--no-warnings',
+      '--no-playlist',
+      request.url
+    ], { ...options, cookies: request.cookies });
+    return readSubtitles(tempDir, subtitles);
+  }
+
+  const outputTemplate = join(tempDir, `${nameTemplate}${clipSuffix(request)}.%(ext)s`);
+  const args = buildAudioArgs({ ...request, outputTemplate, embedChapters: request.chapters === 'embed' });
+
+  if (options.onLine) {
+    args.unshift('--newline');
+  }
+
+  const output = await runYtDlp(args, { ...options, cookies: request.cookies });
+
+  // Find the downloaded file
+  const files = await readdir(tempDir);
+  if (files.length === 0) {
+    checkOutputSize(null, output);
+    throw new Error('Download failed - no file created');
+  }
+
+  // Filter out any non-media files (like .jpg thumbnails if embedding failed, or written for cropping)
+  const audioFiles = files.filter(f => !isThumbnailFile(f) && !isSubtitleFile(f));
+  if (audioFiles.length === 0) {
+    throw new Error('Download failed - no audio file created');
+  }
+
+  const filename = audioFiles[0];
+  const filePath = join(tempDir, filename);
+  const fileStats = await stat(filePath);
+  const file: ConvertedFile = { filename, filePath, size: fileStats.size };
+
+  // Stages below are reported like yt-dlp post-processors so progress shows them
+  if (hasPostProcessing(request.postProcessing)) {
+    file.loudness = await postProcess(file, targetFormatOf(request), request.quality, request.postProcessing, options);
+    file.size = (await stat(filePath)).size;
+  }
+
+  if (request.cover === 'square' || request.cover === 'custom') {
+    options.onLine?.('[EmbedThumbnail] Adding cover art');
+    const coverPath = await prepareCover(request.cover, tempDir, request.coverImage, options.signal);
+    await attachCover(file, coverPath, options.signal);
+    file.size = (await stat(filePath)).size;
+  }
+
+  if (subtitles?.mode === 'lyrics') {
+    options.onLine?.('[EmbedLyrics] Adding lyrics');
+    const transcript = await readSubtitles(tempDir, { ...subtitles, format: 'txt' });
+    await embedLyrics(file, await readFile(transcript.filePath, 'utf8'), options.signal);
+    file.size = (await stat(filePath)).size;
+  }
+
+  if (subtitles?.mode === 'sidecar') {
+    const subtitleFile = await readSubtitles(tempDir, subtitles);
+    const zip = await bundleSubtitles(file, subtitleFile);
+    return { ...zip, loudness: file.loudness };
+  }
+
+  if (request.chapters === 'split') {
+    options.onLine?.('[SplitChapters] Splitting into chapter tracks');
+    const { title, chapters } = await getVideoInfo(request.url, { signal: options.signal, cookies: request.cookies });
+    const zip = await splitIntoChapters(file, { title: request.metadata?.album || title, chapters }, options.signal);
+    return { ...zip, loudness: file.loudness };
+  }
+
+  return file;
+}
+
+// " (1.05-2.30)" style suffix so clips don't overwrite full downloads on the client
+function clipSuffix({ start, end }: AudioRequest): string {
+  if (start === undefined && end === undefined) return '';
+  const stamp = (seconds: number) => formatDuration(seconds).replace(/:/g, '.');
+  return ` (${stamp(start ?? 0)}-${end === undefined ? 'end' : stamp(end)})`;
+}
+
+/**
+ * Converts a request in a temp directory of its own and copies the result
+ * into `outDir`, for callers that want a file rather than a response.
+ */
+export async function saveAudio(request: AudioRequest, outDir: string, options: RunOptions = {}): Promise<ConvertedFile> {
+  const tempDir = await createTempDir();
+  try {
+    const file = await convertAudio(request, tempDir, options);
+    await mkdir(outDir, { recursive: true });
+    // Copied rather than renamed, since the temp dir may be on another disk
+    const filePath = join(outDir, file.filename);
+    await copyFile(file.filePath, filePath);
+    return { ...file, filePath };
+  } finally {
+    await removeTempDir(tempDir);
+  }
+}
@@ -0,0 +1,170 @@
+/**
+ * Machine-readable `code` of API errors, with what the page tells the user.
+ * Shared by the server and the page, so it must stay free of Node imports.
+ */
+export type ErrorCode =
+  | 'invalid_request'
+  | 'unauthorized'
+  | 'not_found'
+  | 'conflict'
+  | 'private_video'
+  | 'video_unavailable'
+  | 'age_restricted'
+  | 'geo_blocked'
+  | 'live_not_finished'
+  | 'members_only'
+  | 'upstream_rate_limited'
+  | 'unsupported_format'
+  | 'subtitles_unavailable'
+  | 'ffmpeg_missing'
+  | 'ytdlp_missing'
+  | 'timeout'
+  | 'server_busy'
+  | 'rate_limited'
+  | 'cookies_not_allowed'
+  | 'download_failed'
+  | 'internal_error';
+
+export interface ErrorHelp {
+  // What went wrong, in the user's terms
+  message: string;
+  // What they can do about it
+  action: string;
+}
+
+export const ERROR_HELP: Record<ErrorCode, ErrorHelp> = {
+  invalid_request: {
+    message: 'The request is not valid',
+    action: 'Check the options and try again.'
+  },
+  unauthorized: {
+    message: 'Sign-in required',
+    action: 'Reload the page and enter your credentials, or send an API key.'
+  },
+  not_found: {
+    message: 'Not found',
+    action: 'It may have expired. Start again.'
+  },
+  conflict: {
+    message: 'Not ready yet',
+    action: 'Wait for it to finish and try again.'
+  },
+  private_video: {
+    message: 'This video is private',
+    action: 'Only people the uploader shared it with can watch it. Ask them to make it public or unlisted.'
+  },
+  video_unavailable: {
+    message: 'This video is no longer available',
+    action: 'It was removed or the link is wrong. Check the URL, or look for another upload.'
+  },
+  age_restricted: {
+    message: 'This video is age-restricted',
+    action: 'It needs a signed-in account. If this server has one set up for you, retry with its cookies.'
+  },
+  geo_blocked: {
+    message: 'This video is not available in the server\'s country',
+    action: 'The uploader restricted it by region. Try another upload.'
+  },
+  live_not_finished: {
+    message: 'This live stream or premiere hasn\'t finished yet',
+    action: 'Try again once it has ended and the recording is available.'
+  },
+  members_only: {
+    message: 'This video is for channel members only',
+    action: 'It needs a member\'s account. If this server has one set up for you, retry with its cookies.'
+  },
+  upstream_rate_limited: {
+    message: 'The site is limiting requests from this server',
+    action: 'Wait a few minutes and try again.'
+  },
+  unsupported_format: {
+    message: 'The requested format is not available for this video',
+    action: 'Pick another source stream or let it choose automatically.'
+  },
+  subtitles_unavailable: {
+    message: 'No subtitles in this language',
+    action: 'Pick another language, or try the automatic captions.'
+  },
+  ffmpeg_missing: {
+    message: 'ffmpeg is not installed on the server',
+    action: 'Ask whoever runs this server to install ffmpeg.'
+  },
+  ytdlp_missing: {
+    message: 'yt-dlp is not installed on the server',
+    action: 'Ask whoever runs this server to install yt-dlp.'
+  },
+  timeout: {
+    message: 'This took too long and was stopped',
+    action: 'Try a shorter clip, or try again later.'
+  },
+  server_busy: {
+    message: 'The server is busy',
+    action: 'Try again in a moment.'
+  },
+  rate_limited: {
+    message: 'Too many requests',
+    action: 'Wait a minute before trying again.'
+  },
+  cookies_not_allowed: {
+    message: 'Signed-in downloads are not available to you',
+    action: 'Ask whoever runs this server to allow your API key or user to use its cookies.'
+  },
+  download_failed: {
+    message: 'The download failed',
+    action: 'Try again, or try another format.'
+  },
+  internal_error: {
+    message: 'Something went wrong',
+    action: 'Try again. If it keeps happening, let whoever runs this server know.'
+  }
+};
+
+export const ERROR_STATUS: Record<ErrorCode, number> = {
+  invalid_request: 400,
+  unauthorized: 401,
+  not_found: 404,
+  conflict: 409,
+  private_video: 403,
+  video_unavailable: 404,
+  age_restricted: 403,
+  geo_blocked: 451,
+  live_not_finished: 409,
+  members_only: 403,
+  upstream_rate_limited: 503,
+  unsupported_format: 422,
+  subtitles_unavailable: 404,
+  ffmpeg_missing: 500,
+  ytdlp_missing: 500,
+  timeout: 504,
+  server_busy: 429,
+  rate_limited: 429,
+  cookies_not_allowed: 403,
+  download_failed: 502,
+  internal_error: 500
+};
+
+export function isErrorCode(code: unknown): code is ErrorCode {
+  return typeof code === 'string' && code in ERROR_HELP;
+}
+
+/**
+ * An error with a machine-readable code. Thrown on the server, where routes
+ * answer it with the code's status and `{ error, code }`, and by the API
+ * client for error responses.
+ */
+export class ApiError extends Error {
+  readonly code: ErrorCode;
+  // Seconds to wait before retrying, sent as Retry-After
+  readonly retryAfter?: number;
+
+  constructor(code: ErrorCode, message = ERROR_HELP[code].message, retryAfter?: number) {
+    super(message);
+    this.name = 'ApiError';
+    this.code = code;
+    this.retryAfter = retryAfter;
+  }
+
+  get status(): number {
+    return ERROR_STATUS[this.code];
+  }
+}
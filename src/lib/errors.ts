@@ -0,0 +1,62 @@
+import { NextResponse } from 'next/server';
+import { ApiError, ErrorCode } from './error-codes';
+
+/**
+ * Thrown when every yt-dlp process is taken and too many callers are already waiting.
+ */
+export class ServerBusyError extends ApiError {
+  constructor() {
+    super('server_busy', 'The server is busy, please try again in a moment', 5);
+    this.name = 'ServerBusyError';
+  }
+}
+
+export class ProcessTimeoutError extends ApiError {
+  constructor(command: string, seconds: number) {
+    super('timeout', `${command} took longer than ${seconds}s and was stopped`);
+    this.name = 'ProcessTimeoutError';
+  }
+}
+
+// Checked in order against yt-dlp's stderr; the first match wins
+const YTDLP_ERROR_PATTERNS: [RegExp, ErrorCode][] = [
+  [/ffprobe.*not found|ffmpeg.*not found|ffmpeg is not installed/i, 'ffmpeg_missing'],
+  [/private video|video is private/i, 'private_video'],
+  [/members[- ]only|join this channel to get access|available to this channel's members/i, 'members_only'],
+  [/confirm your age|age[- ]restricted|inappropriate for some users/i, 'age_restricted'],
+  [/not available in your country|not made this video available in your country|geo[- ]?restrict|blocked it in your country/i, 'geo_blocked'],
+  [/live event will begin|premieres? in|premiere will begin|is currently live|live stream recording is not available|this live event has ended/i, 'live_not_finished'],
+  [/HTTP Error 429|too many requests|confirm you.re not a bot|rate[- ]limit/i, 'upstream_rate_limited'],
+  [/requested format is not available|no video formats found|format is not available/i, 'unsupported_format'],
+  [/video unavailable|has been removed|account .* terminated|no longer available|does not exist|HTTP Error 404|HTTP Error 410/i, 'video_unavailable']
+];
+
+/**
+ * Turns yt-dlp's stderr into an ApiError. Unrecognised failures keep
+ * yt-dlp's own error line as the message.
+ */
+export function classifyYtDlpError(stderr: string): ApiError {
+  for (const [pattern, code] of YTDLP_ERROR_PATTERNS) {
+    if (pattern.test(stderr)) {
+      return new ApiError(code);
+    }
+  }
+
+  const errorLine = stderr.split('\n').reverse().find(line => line.startsWith('ERROR:'));
+  return new ApiError('download_failed', errorLine?.replace(/^ERROR:\s*(\[[^\]]+\]\s*)?/, '').trim() || undefined);
+}
+
+/**
+ * The JSON response for an error thrown while handling a request. Anything
+ * that isn't an ApiError is an internal error answered with `fallback`.
+ */
+export function errorResponse(error: unknown, fallback = 'Something went wrong'): NextResponse {
+  if (error instanceof ApiError) {
+    const headers: Record<string, string> = error.retryAfter ? { 'Retry-After': String(error.retryAfter) } : {};
+    return NextResponse.json({ error: error.message, code: error.code }, { status: error.status, headers });
+  }
+  return NextResponse.json(
+    { error: error instanceof Error ? error.message : fallback, code: 'internal_error' },
+    { status: 500 }
+  );
+}
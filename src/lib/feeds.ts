@@ -0,0 +1,505 @@
+import { randomBytes } from 'crypto';
+import { copyFile, mkdir, readFile, rename, rm, writeFile } from 'fs/promises';
+import { extname, join, resolve } from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { ConvertedFile, prepareAudioRequest } from './download';
+import { ApiError } from './error-codes';
+import { getVideoInfo } from './info-cache';
+import { createJob, isFinished, Job, removeJob, subscribe } from './jobs';
+import { logger } from './logger';
+import { matchSource, Provider } from './providers';
+import { getPlaylistInfo, PlaylistEntry } from './video-info';
+
+// Formats podcast players can play; mirrors FeedFormat in openapi.json
+export type FeedFormat = 'mp3' | 'm4a' | 'aac' | 'opus';
+
+export type FeedItemStatus = 'queued' | 'converting' | 'ready' | 'error';
+
+export interface FeedItem {
+  id: string;
+  // Canonical URL of the video
+  url: string;
+  title: string;
+  description: string;
+  author: string;
+  thumbnail: string | null;
+  duration: number;
+  // Upload date, or when the item was added when the site gives none
+  publishedAt: number;
+  addedAt: number;
+  status: FeedItemStatus;
+  error: string | null;
+  // Name of the converted file; stored on disk under the item id
+  filename: string | null;
+  size: number | null;
+  cookies: boolean;
+}
+
+export interface FeedSubscription {
+  // Canonical URL of the playlist or channel
+  url: string;
+  title: string;
+  addedAt: number;
+  checkedAt: number | null;
+  cookies: boolean;
+  // Entry ids already added or passed over, so refreshes only add new uploads
+  seen: string[];
+}
+
+export interface Feed {
+  id: string;
+  // Secret part of the public feed URL, as podcast apps can't send API keys
+  token: string;
+  title: string;
+  description: string;
+  format: FeedFormat;
+  // Channel artwork, from the first subscription
+  image: string | null;
+  createdAt: number;
+  subscriptions: FeedSubscription[];
+  // Newest first
+  items: FeedItem[];
+}
+
+// Where feed episodes are kept; unlike the library, nothing is evicted
+const FEEDS_DIR = resolve(process.env.FEEDS_DIR || join(process.cwd(), '.feeds'));
+
+// Oldest episodes beyond this many per feed are removed. 0 means no limit
+const FEED_MAX_ITEMS = Math.max(0, parseInt(process.env.FEED_MAX_ITEMS ?? '100', 10) || 0);
+
+// Latest uploads added when subscribing to a playlist or channel
+const FEED_BACKFILL = Math.max(0, parseInt(process.env.FEED_BACKFILL ?? '5', 10) || 0);
+
+// How often subscriptions are checked for new uploads. 0 turns it off
+const FEED_REFRESH_MS = Math.max(0, parseInt(process.env.FEED_REFRESH_MINUTES ?? '60', 10) || 0) * 60 * 1000;
+
+const INDEX_FILE = join(FEEDS_DIR, 'feeds.json');
+
+interface FeedStore {
+  feeds: Map<string, Feed> | null;
+  // Index writes run one after another
+  pending: Promise<unknown>;
+  // Episodes are converted one at a time, behind any jobs from the page
+  converting: Promise<unknown>;
+  refresher: NodeJS.Timeout | null;
+}
+
+// Kept on globalThis so the index survives module reloads in development
+const globalForFeeds = globalThis as unknown as { feedStore?: FeedStore };
+
+const store: FeedStore = globalForFeeds.feedStore ?? {
+  feeds: null,
+  pending: Promise.resolve(),
+  converting: Promise.resolve(),
+  refresher: null
+};
+globalForFeeds.feedStore = store;
+
+async function loadFeeds(): Promise<Map<string, Feed>> {
+  if (store.feeds) return store.feeds;
+
+  let feeds: Feed[] = [];
+  try {
+    feeds = JSON.parse(await readFile(INDEX_FILE, 'utf8'));
+  } catch {
+    // Missing or unreadable index: start empty
+  }
+  store.feeds = new Map(feeds.map(feed => [feed.id, feed]));
+
+  // Conversions cut off by a restart start over
+  for (const feed of feeds) {
+    for (const item of feed.items) {
+      if (item.status === 'converting') item.status = 'queued';
+    }
+    scheduleConversions(feed);
+  }
+  return store.feeds;
+}
+
+async function saveFeeds(feeds: Map<string, Feed>) {
+  await mkdir(FEEDS_DIR, { recursive: true });
+  const temp = `${INDEX_FILE}.tmp`;
+  await writeFile(temp, JSON.stringify([...feeds.values()], null, 2));
+  await rename(temp, INDEX_FILE);
+}
+
+function serialize<T>(task: () => Promise<T>): Promise<T> {
+  const result = store.pending.then(task);
+  store.pending = result.catch(() => {});
+  return result;
+}
+
+function requireFeed(feeds: Map<string, Feed>, id: string): Feed {
+  const feed = feeds.get(id);
+  if (!feed) {
+    throw new ApiError('not_found', 'Feed not found');
+  }
+  return feed;
+}
+
+function itemPath(feedId: string, item: FeedItem): string {
+  return join(FEEDS_DIR, feedId, `${item.id}${extname(item.filename ?? '')}`);
+}
+
+/**
+ * The converted file of a ready episode.
+ */
+export function feedItemFile(feed: Feed, item: FeedItem): ConvertedFile {
+  return { filename: item.filename!, filePath: itemPath(feed.id, item), size: item.size! };
+}
+
+/**
+ * Path of a feed's public files under /api/v1: the RSS document and its episodes.
+ */
+export function podcastPath(feed: Feed, file = 'feed.xml'): string {
+  return `/api/v1/podcasts/${feed.token}/${file}`;
+}
+
+/**
+ * What API clients see: the feed URL instead of the token, and no
+ * bookkeeping fields.
+ */
+export function toFeedSnapshot(feed: Feed) {
+  return {
+    id: feed.id,
+    title: feed.title,
+    description: feed.description,
+    format: feed.format,
+    feedUrl: podcastPath(feed),
+    createdAt: feed.createdAt,
+    subscriptions: feed.subscriptions.map(({ url, title, addedAt, checkedAt }) => ({ url, title, addedAt, checkedAt })),
+    items: feed.items.map(item => ({
+      id: item.id,
+      url: item.url,
+      title: item.title,
+      description: item.description,
+      author: item.author,
+      thumbnail: item.thumbnail,
+      duration: item.duration,
+      publishedAt: item.publishedAt,
+      addedAt: item.addedAt,
+      status: item.status,
+      error: item.error,
+      size: item.size
+    }))
+  };
+}
+
+/**
+ * All feeds, newest first.
+ */
+export async function listFeeds(): Promise<Feed[]> {
+  return [...(await loadFeeds()).values()].sort((a, b) => b.createdAt - a.createdAt);
+}
+
+export async function getFeed(id: string): Promise<Feed | undefined> {
+  return (await loadFeeds()).get(id);
+}
+
+export async function getFeedByToken(token: string): Promise<Feed | undefined> {
+  return [...(await loadFeeds()).values()].find(feed => feed.token === token);
+}
+
+export function createFeed({ title, description = '', format = 'mp3' }: {
+  title: string;
+  description?: string;
+  format?: FeedFormat;
+}): Promise<Feed> {
+  return serialize(async () => {
+    const feeds = await loadFeeds();
+    const feed: Feed = {
+      id: uuidv4(),
+      token: randomBytes(16).toString('hex'),
+      title: title.trim(),
+      description: description.trim(),
+      format,
+      image: null,
+      createdAt: Date.now(),
+      subscriptions: [],
+      items: []
+    };
+    feeds.set(feed.id, feed);
+    await saveFeeds(feeds);
+    return feed;
+  });
+}
+
+export function deleteFeed(id: string): Promise<boolean> {
+  return serialize(async () => {
+    const feeds = await loadFeeds();
+    if (!feeds.delete(id)) return false;
+    await rm(join(FEEDS_DIR, id), { recursive: true, force: true });
+    await saveFeeds(feeds);
+    return true;
+  });
+}
+
+function newItem(url: string, cookies: boolean, entry?: PlaylistEntry): FeedItem {
+  const source = matchSource(url);
+  const now = Date.now();
+  return {
+    id: uuidv4(),
+    url: source?.url ?? url,
+    title: entry?.title || url,
+    description: '',
+    author: '',
+    thumbnail: source?.itemId ? source.provider.thumbnail?.(source.itemId) ?? null : null,
+    duration: entry?.duration ?? 0,
+    publishedAt: now,
+    addedAt: now,
+    status: 'queued',
+    error: null,
+    filename: null,
+    size: null,
+    cookies
+  };
+}
+
+function entryItems(provider: Provider, entries: PlaylistEntry[], cookies: boolean): FeedItem[] {
+  return entries.flatMap((entry) => {
+    const url = provider.entryUrl?.(entry.id);
+    return url ? [newItem(url, cookies, entry)] : [];
+  });
+}
+
+// Adds episodes not in the feed yet, then drops the oldest beyond FEED_MAX_ITEMS
+async function addItems(feed: Feed, items: FeedItem[]) {
+  const urls = new Set(feed.items.map(item => item.url));
+  feed.items.unshift(...items.filter(item => !urls.has(item.url)));
+
+  if (FEED_MAX_ITEMS > 0 && feed.items.length > FEED_MAX_ITEMS) {
+    for (const removed of feed.items.splice(FEED_MAX_ITEMS)) {
+      if (removed.filename) await rm(itemPath(feed.id, removed), { force: true });
+    }
+  }
+}
+
+/**
+ * Adds a video to a feed, or subscribes it to a playlist or channel: its
+ * latest FEED_BACKFILL uploads are added now and new ones on every refresh.
+ * Episodes are converted in the background.
+ */
+export async function addToFeed(
+  id: string,
+  url: string,
+  { cookies = false, signal }: { cookies?: boolean; signal?: AbortSignal } = {}
+): Promise<Feed> {
+  const source = matchSource(url)!;
+
+  if (!source.playlist) {
+    const feed = await serialize(async () => {
+      const feeds = await loadFeeds();
+      const feed = requireFeed(feeds, id);
+      if (feed.items.some(item => item.url === source.url)) {
+        throw new ApiError('conflict', 'This video is already in the feed');
+      }
+      await addItems(feed, [newItem(source.url, cookies)]);
+      await saveFeeds(feeds);
+      return feed;
+    });
+    scheduleConversions(feed);
+    return feed;
+  }
+
+  if (!source.provider.entryUrl) {
+    throw new ApiError('invalid_request', `${source.provider.name} playlists can't be subscribed to`);
+  }
+  requireFeed(await loadFeeds(), id);
+
+  // Listed before taking the lock, as it can take a while
+  const playlist = await getPlaylistInfo(source.url, { signal, cookies });
+
+  const feed = await serialize(async () => {
+    const feeds = await loadFeeds();
+    const feed = requireFeed(feeds, id);
+    if (feed.subscriptions.some(subscription => subscription.url === source.url)) {
+      throw new ApiError('conflict', 'The feed is already subscribed to this playlist');
+    }
+
+    const now = Date.now();
+    feed.subscriptions.push({
+      url: source.url,
+      title: playlist.title,
+      addedAt: now,
+      checkedAt: now,
+      cookies,
+      seen: playlist.entries.map(entry => entry.id)
+    });
+    feed.image ??= playlist.thumbnail;
+    await addItems(feed, entryItems(source.provider, playlist.entries.slice(0, FEED_BACKFILL), cookies));
+    await saveFeeds(feeds);
+    return feed;
+  });
+  scheduleConversions(feed);
+  return feed;
+}
+
+export function removeFeedItem(id: string, itemId: string): Promise<boolean> {
+  return serialize(async () => {
+    const feeds = await loadFeeds();
+    const feed = feeds.get(id);
+    const index = feed?.items.findIndex(item => item.id === itemId) ?? -1;
+    if (!feed || index === -1) return false;
+
+    const [item] = feed.items.splice(index, 1);
+    if (item.filename) await rm(itemPath(feed.id, item), { force: true });
+    await saveFeeds(feeds);
+    return true;
+  });
+}
+
+/**
+ * Adds new uploads from a feed's subscriptions and queues failed episodes
+ * again. Subscriptions that can't be listed are skipped until next time.
+ */
+export async function refreshFeed(id: string, signal?: AbortSignal): Promise<Feed> {
+  const { subscriptions } = requireFeed(await loadFeeds(), id);
+
+  // Listed before taking the lock, as it can take a while
+  const listings: { url: string; entries: PlaylistEntry[] }[] = [];
+  for (const subscription of subscriptions) {
+    try {
+      const playlist = await getPlaylistInfo(subscription.url, { signal, cookies: subscription.cookies });
+      listings.push({ url: subscription.url, entries: playlist.entries });
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      logger.error('Could not check a subscription for new uploads', { feedId: id, url: subscription.url, error });
+    }
+  }
+
+  const feed = await serialize(async () => {
+    const feeds = await loadFeeds();
+    const feed = requireFeed(feeds, id);
+
+    for (const { url, entries } of listings) {
+      const subscription = feed.subscriptions.find(s => s.url === url);
+      if (!subscription) continue;
+
+      const seen = new Set(subscription.seen);
+      const fresh = entries.filter(entry => !seen.has(entry.id));
+      await addItems(feed, entryItems(matchSource(url)!.provider, fresh, subscription.cookies));
+      subscription.seen.push(...fresh.map(entry => entry.id));
+      subscription.checkedAt = Date.now();
+    }
+
+    for (const item of feed.items) {
+      if (item.status === 'error') {
+        item.status = 'queued';
+        item.error = null;
+      }
+    }
+
+    await saveFeeds(feeds);
+    return feed;
+  });
+  scheduleConversions(feed);
+  return feed;
+}
+
+function updateItem(feedId: string, itemId: string, changes: Partial<FeedItem>): Promise<void> {
+  return serialize(async () => {
+    const feeds = await loadFeeds();
+    const item = feeds.get(feedId)?.items.find(i => i.id === itemId);
+    if (!item) return;
+    Object.assign(item, changes);
+    await saveFeeds(feeds);
+  });
+}
+
+// YYYYMMDD from yt-dlp
+function parseUploadDate(date: string | null): number | null {
+  const match = date?.match(/^(\d{4})(\d{2})(\d{2})$/);
+  return match ? Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])) : null;
+}
+
+function whenFinished(job: Job): Promise<Job> {
+  return new Promise((resolve) => {
+    if (isFinished(job)) {
+      resolve(job);
+      return;
+    }
+    const unsubscribe = subscribe(job.id, () => {
+      if (!isFinished(job)) return;
+      unsubscribe();
+      resolve(job);
+    });
+  });
+}
+
+// Looks the video up for the episode's details, then converts it through the job queue
+async function convertItem(feedId: string, itemId: string) {
+  const feed = (await loadFeeds()).get(feedId);
+  const item = feed?.items.find(i => i.id === itemId);
+  if (!feed || !item || item.status !== 'queued') return;
+
+  await updateItem(feedId, itemId, { status: 'converting' });
+  let job: Job | null = null;
+  try {
+    const info = await getVideoInfo(item.url, { cookies: item.cookies });
+    await updateItem(feedId, itemId, {
+      title: info.title,
+      description: info.description,
+      author: info.uploader,
+      thumbnail: info.thumbnail || item.thumbnail,
+      duration: info.duration,
+      publishedAt: parseUploadDate(info.upload_date) ?? item.addedAt
+    });
+
+    const request = await prepareAudioRequest({ url: item.url, format: feed.format, cookies: item.cookies || undefined });
+    job = createJob(request);
+    const finished = await whenFinished(job);
+    if (finished.status !== 'complete' || !finished.file) {
+      throw new ApiError(finished.errorCode ?? 'download_failed', finished.error ?? undefined);
+    }
+
+    const file = finished.file;
+    await serialize(async () => {
+      const feeds = await loadFeeds();
+      const current = feeds.get(feedId)?.items.find(i => i.id === itemId);
+      // Removed while it was converting
+      if (!current) return;
+
+      current.filename = file.filename;
+      await mkdir(join(FEEDS_DIR, feedId), { recursive: true });
+      await copyFile(file.filePath, itemPath(feedId, current));
+      current.status = 'ready';
+      current.size = file.size;
+      await saveFeeds(feeds);
+    });
+  } catch (error) {
+    logger.error('Feed episode failed', { feedId, itemId, error });
+    await updateItem(feedId, itemId, { status: 'error', error: error instanceof Error ? error.message : 'Conversion failed' });
+  } finally {
+    if (job) await removeJob(job.id);
+  }
+}
+
+function scheduleConversions(feed: Feed) {
+  for (const item of feed.items) {
+    if (item.status !== 'queued') continue;
+    store.converting = store.converting
+      .then(() => convertItem(feed.id, item.id))
+      .catch((error) => logger.error('Feed episode failed', { feedId: feed.id, itemId: item.id, error }));
+  }
+}
+
+/**
+ * Loads the feeds, which resumes conversions a restart cut off, then checks
+ * subscriptions every FEED_REFRESH_MINUTES. Called on server start.
+ */
+export function startFeedRefresher() {
+  if (store.refresher) return;
+
+  loadFeeds().catch((error) => logger.error('Error loading feeds', { error }));
+  if (FEED_REFRESH_MS === 0) return;
+
+  const refresh = async () => {
+    for (const feed of await listFeeds()) {
+      if (feed.subscriptions.length === 0) continue;
+      await refreshFeed(feed.id).catch((error) => logger.error('Error refreshing feed', { feedId: feed.id, error }));
+    }
+  };
+  store.refresher = setInterval(() => {
+    refresh().catch((error) => logger.error('Error refreshing feeds', { error }));
+  }, FEED_REFRESH_MS).unref();
+}
@@ -0,0 +1,21 @@
+import { logger } from './logger';
+import { runProcess, TIMEOUTS } from './process';
+
+export async function runFfmpeg(args: string[], signal?: AbortSignal): Promise<string> {
+  let stderr = '';
+
+  // ffmpeg reports everything, including filter output, on stderr
+  const code = await runProcess('ffmpeg', ['-hide_banner', '-nostdin', '-y', ...args], {
+    signal,
+    timeout: TIMEOUTS.ffmpeg,
+    onStderr: (data) => {
+      stderr += data;
+    }
+  });
+
+  if (code !== 0) {
+    logger.error('ffmpeg failed', { code, stderr });
+    throw new Error(stderr.trim().split('\n').pop() || 'ffmpeg failed');
+  }
+  return stderr;
+}
@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createReadStream } from 'fs';
+import { Readable } from 'stream';
+import { ConvertedFile } from './download';
+import { counter } from './metrics';
+import { getContentType } from './ytdlp';
+
+// Response bodies streamed to clients; `kind` is file or archive
+export const bytesServed = counter('bytes_served_total', 'Bytes of files and archives streamed to clients');
+
+interface ByteRange {
+  start: number;
+  end: number;
+}
+
+interface FileResponseOptions {
+  /**
+   * Called once the body stream has closed, whether it was read to the end
+   * or aborted by the client. `complete` is true when the whole file was sent;
+   * `bytes` is how much of it was.
+   */
+  onClose?: (complete: boolean, bytes: number) => void | Promise<void>;
+  // Extra headers, e.g. loudness measurements
+  headers?: Record<string, string>;
+}
+
+/**
+ * Parses a single-range `Range: bytes=...` header.
+ * Returns null when absent or unsupported (multi-range), and 'invalid' when unsatisfiable.
+ */
+function parseRange(header: string | null, size: number): ByteRange | null | 'invalid' {
+  if (!header) return null;
+
+  const match = header.match(/^bytes=(\d*)-(\d*)$/);
+  if (!match || (!match[1] && !match[2])) return null;
+
+  let start: number;
+  let end: number;
+  if (!match[1]) {
+    // bytes=-500 means the last 500 bytes
+    start = Math.max(0, size - parseInt(match[2], 10));
+    end = size - 1;
+  } else {
+    start = parseInt(match[1], 10);
+    end = match[2] ? Math.min(parseInt(match[2], 10), size - 1) : size - 1;
+  }
+
+  if (start > end || start >= size) return 'invalid';
+  return { start, end };
+}
+
+/**
+ * Streams a converted file from disk, honouring `Range` requests so
+ * interrupted downloads can resume.
+ */
+export function fileResponse(
+  request: NextRequest,
+  { filename, filePath, size }: ConvertedFile,
+  { onClose, headers: extraHeaders }: FileResponseOptions = {}
+): NextResponse {
+  const headers: Record<string, string> = {
+    ...extraHeaders,
+    'Content-Type': getContentType(filename),
+    'Content-Disposition': `attachment; filename="${encodeURIComponent(filename)}"`,
+    'Accept-Ranges': 'bytes'
+  };
+
+  const range = parseRange(request.headers.get('range'), size);
+  if (range === 'invalid') {
+    void onClose?.(false, 0);
+    return new NextResponse(null, {
+      status: 416,
+      headers: { ...headers, 'Content-Range': `bytes */${size}` }
+    });
+  }
+
+  const start = range?.start ?? 0;
+  const end = range?.end ?? size - 1;
+
+  const fileStream = createReadStream(filePath, { start, end });
+  let complete = false;
+  let sent = 0;
+  fileStream.on('data', (chunk) => {
+    sent += chunk.length;
+    bytesServed.inc({ kind: 'file' }, chunk.length);
+  });
+  fileStream.on('end', () => {
+    complete = start === 0 && end === size - 1;
+  });
+  fileStream.on('close', () => {
+    void onClose?.(complete, sent);
+  });
+
+  const body = Readable.toWeb(fileStream) as ReadableStream<Uint8Array>;
+
+  if (range) {
+    return new NextResponse(body, {
+      status: 206,
+      headers: {
+        ...headers,
+        'Content-Range': `bytes ${start}-${end}/${size}`,
+        'Content-Length': (end - start + 1).toString()
+      }
+    });
+  }
+
+  return new NextResponse(body, {
+    status: 200,
+    headers: { ...headers, 'Content-Length': size.toString() }
+  });
+}
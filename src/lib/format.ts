@@ -0,0 +1,23 @@
+export const formatDuration = (seconds: number) => {
+  const hrs = Math.floor(seconds / 3600);
+  const mins = Math.floor((seconds % 3600) / 60);
+  const secs = Math.floor(seconds % 60);
+  if (hrs > 0) {
+    return `${hrs}:${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+  }
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+};
+
+// Parses "90", "1:30" or "1:01:30" into seconds; null when malformed
+export const parseDuration = (value: string) => {
+  const parts = value.trim().split(':');
+  if (parts.length > 3 || parts.some((p) => !/^\d+$/.test(p))) {
+    return null;
+  }
+  return parts.reduce((total, part) => total * 60 + parseInt(part, 10), 0);
+};
+
+// Replaces characters that are not allowed in file names on common filesystems
+export const sanitizeFilename = (name: string) => {
+  return name.replace(/[\\/:*?"<>|]/g, '_').trim();
+};
@@ -0,0 +1,58 @@
+import { runProcess } from './process';
+
+export interface ToolStatus {
+  installed: boolean;
+  version: string | null;
+}
+
+export interface HealthReport {
+  status: 'ok' | 'degraded';
+  ytdlp: ToolStatus;
+  ffmpeg: ToolStatus;
+}
+
+// Health checks arrive every few seconds; the tools rarely change
+const CACHE_MS = 60 * 1000;
+
+const CHECK_TIMEOUT_SECONDS = 10;
+
+// Kept on globalThis so the cached report survives module reloads in development
+const globalForHealth = globalThis as unknown as { health?: { report: Promise<HealthReport>; checkedAt: number } };
+
+// Runs `command` and picks the version out of its output, e.g. "ffmpeg version 7.1 Copyright ..."
+async function checkTool(command: string, args: string[], pattern: RegExp): Promise<ToolStatus> {
+  let stdout = '';
+  try {
+    const code = await runProcess(command, args, {
+      timeout: CHECK_TIMEOUT_SECONDS,
+      onStdout: (data) => {
+        stdout += data;
+      }
+    });
+    if (code !== 0) return { installed: false, version: null };
+  } catch {
+    return { installed: false, version: null };
+  }
+  return { installed: true, version: stdout.match(pattern)?.[1] ?? null };
+}
+
+async function runChecks(): Promise<HealthReport> {
+  const [ytdlp, ffmpeg] = await Promise.all([
+    checkTool('yt-dlp', ['--version'], /^(\S+)/),
+    checkTool('ffmpeg', ['-version'], /^ffmpeg version (\S+)/)
+  ]);
+  return { status: ytdlp.installed && ffmpeg.installed ? 'ok' : 'degraded', ytdlp, ffmpeg };
+}
+
+/**
+ * Whether yt-dlp and ffmpeg can be run, and their versions. Checked at most
+ * once a minute; concurrent callers share a check.
+ */
+export function checkHealth(): Promise<HealthReport> {
+  const cached = globalForHealth.health;
+  if (cached && Date.now() - cached.checkedAt < CACHE_MS) return cached.report;
+
+  const report = runChecks();
+  globalForHealth.health = { report, checkedAt: Date.now() };
+  return report;
+}
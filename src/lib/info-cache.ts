@@ -0,0 +1,144 @@
+import { matchSource } from './providers';
+import { fetchVideo, LookupOptions, VideoDetails, VideoInfo, VideoLookup } from './video-info';
+
+// How long a looked-up video is reused; 0 turns caching off, though
+// concurrent lookups still share one yt-dlp run
+const INFO_CACHE_MS = Math.max(0, parseInt(process.env.INFO_CACHE_MINUTES ?? '10', 10) || 0) * 60 * 1000;
+
+// The oldest lookups are dropped beyond this many
+const MAX_ENTRIES = 500;
+
+interface CacheEntry {
+  lookup: VideoLookup;
+  expiresAt: number;
+}
+
+// A yt-dlp run shared by everyone asking for the same video; it is only
+// stopped once every caller has gone
+interface InFlight {
+  promise: Promise<VideoLookup>;
+  controller: AbortController;
+  waiters: number;
+}
+
+interface InfoCacheStore {
+  entries: Map<string, CacheEntry>;
+  inFlight: Map<string, InFlight>;
+}
+
+// Kept on globalThis so the cache survives module reloads in development
+const globalForInfoCache = globalThis as unknown as { infoCacheStore?: InfoCacheStore };
+
+const store: InfoCacheStore = globalForInfoCache.infoCacheStore ?? {
+  entries: new Map(),
+  inFlight: new Map()
+};
+globalForInfoCache.infoCacheStore = store;
+
+/**
+ * The canonical id of a video, the same for every link shape that points at
+ * it: provider and item id, e.g. "youtube:dQw4w9WgXcQ". Links without an item
+ * id fall back to their normalised URL.
+ */
+export function canonicalVideoId(url: string): string {
+  const source = matchSource(url);
+  if (!source) return url;
+  return source.itemId ? `${source.provider.id}:${source.itemId}` : source.url;
+}
+
+function pruneEntries(now: number) {
+  for (const [key, entry] of store.entries) {
+    if (entry.expiresAt <= now) store.entries.delete(key);
+  }
+  // Maps keep insertion order, so the first keys are the oldest
+  for (const key of store.entries.keys()) {
+    if (store.entries.size <= MAX_ENTRIES) break;
+    store.entries.delete(key);
+  }
+}
+
+// Waits for a shared lookup, leaving it when `signal` aborts
+function join(key: string, flight: InFlight, signal: AbortSignal | undefined): Promise<VideoLookup> {
+  if (signal?.aborted) {
+    return Promise.reject(signal.reason);
+  }
+
+  flight.waiters++;
+  return new Promise((resolve, reject) => {
+    const leave = () => {
+      signal?.removeEventListener('abort', onAbort);
+      flight.waiters--;
+    };
+    const onAbort = () => {
+      leave();
+      if (flight.waiters === 0) {
+        // Later callers start afresh rather than join a run being stopped
+        if (store.inFlight.get(key) === flight) store.inFlight.delete(key);
+        flight.controller.abort(signal!.reason);
+      }
+      reject(signal!.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    flight.promise.then(
+      (lookup) => {
+        leave();
+        resolve(lookup);
+      },
+      (error) => {
+        leave();
+        reject(error);
+      }
+    );
+  });
+}
+
+async function lookupVideo(url: string, { signal, cookies }: LookupOptions): Promise<VideoLookup> {
+  const id = canonicalVideoId(url);
+  // Cookies can unlock members-only or age-restricted details, so those
+  // lookups are kept apart
+  const key = cookies ? `${id}#cookies` : id;
+
+  const now = Date.now();
+  const cached = store.entries.get(key);
+  if (cached && cached.expiresAt > now) {
+    return cached.lookup;
+  }
+
+  let flight = store.inFlight.get(key);
+  if (!flight) {
+    const controller = new AbortController();
+    const promise: Promise<VideoLookup> = fetchVideo(url, id, { signal: controller.signal, cookies })
+      .then((lookup) => {
+        if (INFO_CACHE_MS > 0) {
+          pruneEntries(Date.now());
+          store.entries.set(key, { lookup, expiresAt: Date.now() + INFO_CACHE_MS });
+        }
+        return lookup;
+      })
+      .finally(() => {
+        if (store.inFlight.get(key)?.promise === promise) store.inFlight.delete(key);
+      });
+    // Each caller handles the error; this keeps an unwatched failure quiet
+    promise.catch(() => {});
+    flight = { promise, controller, waiters: 0 };
+    store.inFlight.set(key, flight);
+  }
+
+  return join(key, flight, signal);
+}
+
+/**
+ * What the page needs to pick a download, from the cache when the video was
+ * looked up recently.
+ */
+export async function getVideoInfo(url: string, options: LookupOptions = {}): Promise<VideoInfo> {
+  return (await lookupVideo(url, options)).info;
+}
+
+/**
+ * The full metadata of a video, from the same cached lookup as getVideoInfo.
+ */
+export async function getVideoDetails(url: string, options: LookupOptions = {}): Promise<VideoDetails> {
+  return (await lookupVideo(url, options)).details;
+}
@@ -0,0 +1,48 @@
+import { api, JobSnapshot } from './api-client';
+
+/**
+ * Follows a job's event stream until it completes, fails or is cancelled.
+ * Rejects with an AbortError when `signal` fires.
+ */
+export const waitForJob = (
+  id: string,
+  onUpdate: (snapshot: JobSnapshot) => void,
+  signal: AbortSignal
+) => {
+  return new Promise<JobSnapshot>((resolve, reject) => {
+    const source = new EventSource(api.jobEventsUrl(id));
+
+    const finish = (snapshot: JobSnapshot) => {
+      source.close();
+      signal.removeEventListener('abort', onAbort);
+      resolve(snapshot);
+    };
+
+    const onAbort = () => {
+      source.close();
+      reject(new DOMException('Download cancelled', 'AbortError'));
+    };
+
+    const onSnapshot = (event: MessageEvent) => {
+      const snapshot: JobSnapshot = JSON.parse(event.data);
+      onUpdate(snapshot);
+      if (snapshot.status !== 'queued' && snapshot.status !== 'running') {
+        finish(snapshot);
+      }
+    };
+
+    for (const status of ['queued', 'running', 'complete', 'error', 'cancelled']) {
+      source.addEventListener(status, onSnapshot);
+    }
+
+    source.onerror = () => {
+      // EventSource reconnects on its own; only give up once the job is gone
+      if (source.readyState === EventSource.CLOSED) {
+        signal.removeEventListener('abort', onAbort);
+        reject(new Error('Lost connection to the download job'));
+      }
+    };
+
+    signal.addEventListener('abort', onAbort);
+  });
+};
@@ -0,0 +1,278 @@
+import { EventEmitter } from 'events';
+import { v4 as uuidv4 } from 'uuid';
+import { AudioRequest, convertAudio, ConvertedFile } from './download';
+import { ApiError, ErrorCode } from './error-codes';
+import { addToLibrary, checkoutFromLibrary, findInLibrary } from './library';
+import { currentLogContext, logger, runWithLogContext } from './logger';
+import type { LoudnessReport } from './postprocess-options';
+import { INITIAL_PROGRESS, JobProgress, parseProgressLine } from './progress';
+import { sendJobWebhook, WebhookTarget } from './webhooks';
+import { createTempDir, removeTempDir } from './ytdlp';
+
+export type JobStatus = 'queued' | 'running' | 'complete' | 'error' | 'cancelled';
+
+export interface Job {
+  id: string;
+  request: AudioRequest;
+  status: JobStatus;
+  progress: JobProgress;
+  file: ConvertedFile | null;
+  error: string | null;
+  errorCode: ErrorCode | null;
+  createdAt: number;
+  finishedAt: number | null;
+  tempDir: string | null;
+  controller: AbortController;
+  // Told when the job completes or fails
+  webhook: WebhookTarget | null;
+  // Request that created it, so the job's logs can be traced back to it
+  requestId: string | null;
+  // Jobs of one batch are kept until the batch can be zipped
+  batchId: string | null;
+  discardTimer: NodeJS.Timeout | null;
+}
+
+// What clients see: no server paths or internal handles
+export interface JobSnapshot {
+  id: string;
+  status: JobStatus;
+  progress: JobProgress;
+  queuePosition: number | null;
+  filename: string | null;
+  size: number | null;
+  loudness: LoudnessReport | null;
+  error: string | null;
+  errorCode: ErrorCode | null;
+}
+
+// Number of yt-dlp conversions allowed to run at the same time
+const MAX_CONCURRENT_JOBS = Math.max(1, parseInt(process.env.MAX_CONCURRENT_JOBS || '2', 10) || 2);
+
+// Finished jobs (and their files) are kept this long for the client to fetch
+const JOB_TTL_MS = 15 * 60 * 1000;
+
+interface JobStore {
+  jobs: Map<string, Job>;
+  queue: string[];
+  running: number;
+  events: EventEmitter;
+}
+
+// Kept on globalThis so the store survives module reloads in development
+const globalForJobs = globalThis as unknown as { jobStore?: JobStore };
+
+const store: JobStore = globalForJobs.jobStore ?? {
+  jobs: new Map(),
+  queue: [],
+  running: 0,
+  events: new EventEmitter().setMaxListeners(0)
+};
+globalForJobs.jobStore = store;
+
+export function createJob(request: AudioRequest, { webhook = null, batchId = null }: {
+  webhook?: WebhookTarget | null;
+  batchId?: string | null;
+} = {}): Job {
+  const job: Job = {
+    id: uuidv4(),
+    request,
+    status: 'queued',
+    progress: INITIAL_PROGRESS,
+    file: null,
+    error: null,
+    errorCode: null,
+    createdAt: Date.now(),
+    finishedAt: null,
+    tempDir: null,
+    controller: new AbortController(),
+    webhook,
+    requestId: currentLogContext().requestId ?? null,
+    batchId,
+    discardTimer: null
+  };
+
+  // The batch's finished files now wait for this job too
+  if (batchId) {
+    for (const other of store.jobs.values()) {
+      if (other.batchId === batchId && other.discardTimer) {
+        clearTimeout(other.discardTimer);
+        other.discardTimer = null;
+      }
+    }
+  }
+
+  store.jobs.set(job.id, job);
+  store.queue.push(job.id);
+  startQueuedJobs();
+
+  return job;
+}
+
+export function getJob(id: string): Job | undefined {
+  return store.jobs.get(id);
+}
+
+export function toSnapshot(job: Job): JobSnapshot {
+  const queueIndex = store.queue.indexOf(job.id);
+  return {
+    id: job.id,
+    status: job.status,
+    progress: job.progress,
+    queuePosition: queueIndex === -1 ? null : queueIndex + 1,
+    filename: job.file?.filename ?? null,
+    size: job.file?.size ?? null,
+    loudness: job.file?.loudness ?? null,
+    error: job.error,
+    errorCode: job.errorCode
+  };
+}
+
+/**
+ * Subscribes to every change of a job. Returns the unsubscribe function.
+ */
+export function subscribe(id: string, listener: (snapshot: JobSnapshot) => void): () => void {
+  const handler = (job: Job) => listener(toSnapshot(job));
+  store.events.on(id, handler);
+  return () => {
+    store.events.off(id, handler);
+  };
+}
+
+export function isFinished(job: Job): boolean {
+  return job.status === 'complete' || job.status === 'error' || job.status === 'cancelled';
+}
+
+/**
+ * Cancels a job if it is still queued or running, then forgets it and deletes its files.
+ */
+export async function removeJob(id: string): Promise<void> {
+  const job = store.jobs.get(id);
+  if (!job) return;
+
+  if (!isFinished(job)) {
+    job.controller.abort();
+    store.queue = store.queue.filter(queued => queued !== id);
+    finish(job, 'cancelled');
+    emitQueuePositions();
+  }
+
+  await discardJob(job);
+}
+
+function emit(job: Job) {
+  store.events.emit(job.id, job);
+}
+
+// Called whenever the queue shrinks, so waiting clients see their new position
+function emitQueuePositions() {
+  for (const queuedId of store.queue) {
+    const queued = store.jobs.get(queuedId);
+    if (queued) emit(queued);
+  }
+}
+
+function finish(job: Job, status: JobStatus, error?: unknown) {
+  // A job cancelled while it was finishing stays cancelled
+  if (isFinished(job)) return;
+
+  job.status = status;
+  if (error !== undefined) {
+    job.error = error instanceof Error ? error.message : 'Download failed';
+    job.errorCode = error instanceof ApiError ? error.code : 'internal_error';
+  }
+  job.finishedAt = Date.now();
+  emit(job);
+
+  if (job.webhook && status !== 'cancelled') {
+    // The file link lasts as long as the job is kept
+    void sendJobWebhook(job, job.webhook, job.finishedAt + JOB_TTL_MS);
+  }
+
+  // Finished files are kept for a while so interrupted downloads can resume.
+  // A batch is zipped once all of it is done, so its files wait for the last
+  const batch = job.batchId ? [...store.jobs.values()].filter(other => other.batchId === job.batchId) : [job];
+  if (batch.every(isFinished)) {
+    batch.forEach(scheduleDiscard);
+  }
+}
+
+function scheduleDiscard(job: Job) {
+  if (job.discardTimer) clearTimeout(job.discardTimer);
+  job.discardTimer = setTimeout(() => {
+    if (store.jobs.get(job.id) === job) void discardJob(job);
+  }, JOB_TTL_MS).unref();
+}
+
+async function discardJob(job: Job) {
+  store.jobs.delete(job.id);
+  if (job.tempDir) {
+    await removeTempDir(job.tempDir);
+    job.tempDir = null;
+  }
+}
+
+function startQueuedJobs() {
+  let started = false;
+  while (store.running < MAX_CONCURRENT_JOBS && store.queue.length > 0) {
+    const job = store.jobs.get(store.queue.shift()!);
+    if (!job || job.status !== 'queued') continue;
+
+    started = true;
+    store.running++;
+    // Started by whichever request freed the slot; log it under its own
+    runWithLogContext({ requestId: job.requestId ?? undefined, jobId: job.id }, () => runJob(job)).finally(() => {
+      store.running--;
+      startQueuedJobs();
+    });
+  }
+  if (started) emitQueuePositions();
+}
+
+async function runJob(job: Job) {
+  job.status = 'running';
+  emit(job);
+
+  try {
+    const cached = await findInLibrary(job.request);
+    job.tempDir = await createTempDir();
+    // Removed while that was pending: removeJob already finished it
+    job.controller.signal.throwIfAborted();
+
+    // Same video and options converted before: serve the kept file, from a
+    // copy of the job's own that outlives the library evicting it
+    const kept = cached && await checkoutFromLibrary(cached, job.tempDir);
+    job.controller.signal.throwIfAborted();
+    if (kept) {
+      job.file = kept;
+      finish(job, 'complete');
+      return;
+    }
+
+    job.file = await convertAudio(job.request, job.tempDir, {
+      signal: job.controller.signal,
+      // Jobs are already limited by MAX_CONCURRENT_JOBS, so they wait their turn
+      queue: true,
+      onLine: (line) => {
+        const progress = parseProgressLine(line, job.progress);
+        if (progress !== job.progress) {
+          job.progress = progress;
+          emit(job);
+        }
+      }
+    });
+    await addToLibrary(job.request, job.file).catch((error) => {
+      logger.error('Job could not be added to the library', { error });
+    });
+    job.controller.signal.throwIfAborted();
+    finish(job, 'complete');
+  } catch (error) {
+    if (!job.controller.signal.aborted) {
+      logger.error('Job failed', { error });
+      finish(job, 'error', error);
+    }
+    if (job.tempDir) {
+      await removeTempDir(job.tempDir);
+      job.tempDir = null;
+    }
+  }
+}
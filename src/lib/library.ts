@@ -0,0 +1,248 @@
+import { createHash } from 'crypto';
+import { copyFile, link, mkdir, readFile, rename, rm, stat, writeFile } from 'fs/promises';
+import { join, resolve } from 'path';
+import type { AudioRequest, ConvertedFile } from './download';
+import type { LoudnessReport } from './postprocess-options';
+import { matchSource } from './providers';
+import { targetFormatOf } from './ytdlp';
+
+export interface LibraryEntry {
+  key: string;
+  // Provider id and the item's id there, e.g. "youtube" and a video id
+  provider: string;
+  itemId: string;
+  title: string;
+  thumbnail: string | null;
+  // Target format of the request, e.g. "mp3"; the file may be a zip of chapters
+  format: string;
+  filename: string;
+  size: number;
+  loudness: LoudnessReport | null;
+  createdAt: number;
+  lastAccessedAt: number;
+}
+
+// Where converted files are kept between downloads
+const LIBRARY_DIR = resolve(process.env.LIBRARY_DIR || join(process.cwd(), '.library'));
+
+// Disk quota; least recently used files are evicted beyond it. 0 turns the library off
+const LIBRARY_MAX_BYTES = Math.max(0, parseInt(process.env.LIBRARY_MAX_MB ?? '2048', 10) || 0) * 1024 * 1024;
+
+const INDEX_FILE = join(LIBRARY_DIR, 'index.json');
+
+interface LibraryStore {
+  entries: Map<string, LibraryEntry> | null;
+  // Index writes and evictions run one after another
+  pending: Promise<unknown>;
+}
+
+// Kept on globalThis so the index survives module reloads in development
+const globalForLibrary = globalThis as unknown as { libraryStore?: LibraryStore };
+
+const store: LibraryStore = globalForLibrary.libraryStore ?? {
+  entries: null,
+  pending: Promise.resolve()
+};
+globalForLibrary.libraryStore = store;
+
+export function isLibraryEnabled(): boolean {
+  return LIBRARY_MAX_BYTES > 0;
+}
+
+// JSON with sorted keys, so the same options always hash the same
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (typeof value === 'object' && value !== null) {
+    const fields = Object.entries(value)
+      .filter(([, field]) => field !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([key, field]) => `${JSON.stringify(key)}:${canonicalJson(field)}`);
+    return `{${fields.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Library key for a request: the provider's item id plus every option that
+ * changes the output. Requests without a recognisable item id are not cached,
+ * and neither are those made with the server's cookies: the library is
+ * listed to everyone, and those videos are for COOKIES_USERS only.
+ */
+export function libraryKey(request: AudioRequest): string | null {
+  const { url, ...options } = request;
+  const source = matchSource(url);
+  if (!source?.itemId || options.cookies) return null;
+
+  return createHash('sha256')
+    .update(canonicalJson({ provider: source.provider.id, itemId: source.itemId, ...options }))
+    .digest('hex')
+    .slice(0, 32);
+}
+
+async function loadEntries(): Promise<Map<string, LibraryEntry>> {
+  if (store.entries) return store.entries;
+
+  let entries: LibraryEntry[] = [];
+  try {
+    entries = JSON.parse(await readFile(INDEX_FILE, 'utf8'));
+  } catch {
+    // Missing or unreadable index: start empty
+  }
+
+  // Drop entries whose files went missing, e.g. after a manual cleanup
+  const present = await Promise.all(entries.map(entry =>
+    stat(entryPath(entry)).then(() => true, () => false)
+  ));
+  store.entries = new Map(entries.filter((_, i) => present[i]).map(entry => [entry.key, entry]));
+  return store.entries;
+}
+
+async function saveEntries(entries: Map<string, LibraryEntry>) {
+  await mkdir(LIBRARY_DIR, { recursive: true });
+  const temp = `${INDEX_FILE}.tmp`;
+  await writeFile(temp, JSON.stringify([...entries.values()], null, 2));
+  await rename(temp, INDEX_FILE);
+}
+
+function serialize<T>(task: () => Promise<T>): Promise<T> {
+  const result = store.pending.then(task);
+  store.pending = result.catch(() => {});
+  return result;
+}
+
+function entryPath(entry: LibraryEntry): string {
+  return join(LIBRARY_DIR, entry.key, entry.filename);
+}
+
+export function toConvertedFile(entry: LibraryEntry): ConvertedFile {
+  return { filename: entry.filename, filePath: entryPath(entry), size: entry.size, loudness: entry.loudness };
+}
+
+/**
+ * All entries, most recently used first.
+ */
+export async function listLibrary(): Promise<{ entries: LibraryEntry[]; totalBytes: number; maxBytes: number }> {
+  const entries = [...(await loadEntries()).values()].sort((a, b) => b.lastAccessedAt - a.lastAccessedAt);
+  return {
+    entries,
+    totalBytes: entries.reduce((total, entry) => total + entry.size, 0),
+    maxBytes: LIBRARY_MAX_BYTES
+  };
+}
+
+export async function getLibraryEntry(key: string): Promise<LibraryEntry | undefined> {
+  return (await loadEntries()).get(key);
+}
+
+/**
+ * Marks an entry as used, so eviction keeps it longer.
+ */
+export function touchLibraryEntry(key: string): Promise<void> {
+  return serialize(async () => {
+    const entries = await loadEntries();
+    const entry = entries.get(key);
+    if (!entry) return;
+    entry.lastAccessedAt = Date.now();
+    await saveEntries(entries);
+  });
+}
+
+/**
+ * Looks up a finished conversion for the same video and options.
+ */
+export async function findInLibrary(request: AudioRequest): Promise<LibraryEntry | null> {
+  if (!isLibraryEnabled()) return null;
+
+  const key = libraryKey(request);
+  const entry = key ? await getLibraryEntry(key) : undefined;
+  if (!entry) return null;
+
+  await touchLibraryEntry(entry.key);
+  return entry;
+}
+
+/**
+ * Copies a converted file into the library, evicting the least recently used
+ * entries until it fits. Files larger than the whole quota are not kept.
+ */
+export function addToLibrary(request: AudioRequest, file: ConvertedFile): Promise<LibraryEntry | null> {
+  const key = libraryKey(request);
+  if (!isLibraryEnabled() || !key || file.size > LIBRARY_MAX_BYTES) {
+    return Promise.resolve(null);
+  }
+
+  return serialize(async () => {
+    const entries = await loadEntries();
+    const { provider, itemId } = matchSource(request.url)!;
+    const now = Date.now();
+    const entry: LibraryEntry = {
+      key,
+      provider: provider.id,
+      itemId: itemId!,
+      title: request.metadata?.title?.trim() || file.filename.replace(/\.[^.]+$/, ''),
+      thumbnail: provider.thumbnail?.(itemId!) ?? null,
+      format: request.subtitles?.mode === 'only' ? request.subtitles.format ?? 'srt' : targetFormatOf(request),
+      filename: file.filename,
+      size: file.size,
+      loudness: file.loudness ?? null,
+      createdAt: now,
+      lastAccessedAt: now
+    };
+
+    await evict(entries, LIBRARY_MAX_BYTES - file.size, key);
+
+    await mkdir(join(LIBRARY_DIR, key), { recursive: true });
+    await copyFile(file.filePath, entryPath(entry));
+    entries.set(key, entry);
+    await saveEntries(entries);
+
+    return entry;
+  });
+}
+
+/**
+ * Links or copies an entry's file into `dir`, for callers that serve it
+ * later, as the library may evict the entry in the meantime. Null when the
+ * entry is gone already.
+ */
+export function checkoutFromLibrary(entry: LibraryEntry, dir: string): Promise<ConvertedFile | null> {
+  return serialize(async () => {
+    if (!(await loadEntries()).has(entry.key)) return null;
+
+    const filePath = join(dir, entry.filename);
+    // A hard link costs nothing, but the temp directory may be on another disk
+    await link(entryPath(entry), filePath).catch(() => copyFile(entryPath(entry), filePath));
+    return { ...toConvertedFile(entry), filePath };
+  });
+}
+
+export function removeFromLibrary(key: string): Promise<boolean> {
+  return serialize(async () => {
+    const entries = await loadEntries();
+    if (!entries.delete(key)) return false;
+    await rm(join(LIBRARY_DIR, key), { recursive: true, force: true });
+    await saveEntries(entries);
+    return true;
+  });
+}
+
+// Removes least recently used entries until at most `budget` bytes are used
+async function evict(entries: Map<string, LibraryEntry>, budget: number, replacing: string) {
+  let total = 0;
+  for (const entry of entries.values()) {
+    if (entry.key !== replacing) total += entry.size;
+  }
+
+  const oldestFirst = [...entries.values()]
+    .filter(entry => entry.key !== replacing)
+    .sort((a, b) => a.lastAccessedAt - b.lastAccessedAt);
+
+  for (const entry of oldestFirst) {
+    if (total <= budget) break;
+    entries.delete(entry.key);
+    total -= entry.size;
+    await rm(join(LIBRARY_DIR, entry.key), { recursive: true, force: true });
+  }
+}
@@ -0,0 +1,117 @@
+import type { AudioRequest } from './download';
+import { ApiError } from './error-codes';
+import { formatDuration } from './format';
+import { estimateSize, formatBytes } from './quality';
+import { isSourcePreference } from './source';
+import type { VideoFormat, VideoInfo } from './video-info';
+import type { VideoOptions } from './video-options';
+
+// Longest audio (after clipping and speed changes) a download may produce; 0 means no limit
+const MAX_DURATION_SECONDS = Math.max(0, parseInt(process.env.MAX_DURATION_MINUTES ?? '0', 10) || 0) * 60;
+
+// Largest expected output file; 0 means no limit
+const MAX_OUTPUT_BYTES = Math.max(0, parseInt(process.env.MAX_OUTPUT_MB ?? '0', 10) || 0) * 1024 * 1024;
+
+export function hasOutputLimits(): boolean {
+  return MAX_DURATION_SECONDS > 0 || MAX_OUTPUT_BYTES > 0;
+}
+
+/**
+ * Seconds a download produces, after clipping and speed changes; null when
+ * the video's length is unknown.
+ */
+export function outputDuration({ start, end, postProcessing }: AudioRequest, info: VideoInfo): number | null {
+  const clipEnd = end ?? info.duration;
+  if (!clipEnd) return null;
+  return (clipEnd - (start ?? 0)) / (postProcessing?.speed ?? 1);
+}
+
+/**
+ * Checks a request against MAX_DURATION_MINUTES and MAX_OUTPUT_MB before
+ * anything is downloaded. Returns an error message, or null when within limits.
+ */
+export function checkOutputLimits(request: AudioRequest, info: VideoInfo): string | null {
+  if (!hasOutputLimits()) return null;
+
+  const length = outputDuration(request, info);
+  if (length === null) {
+    // Live streams could run forever
+    return 'Downloads without a known duration are disabled on this server';
+  }
+
+  if (MAX_DURATION_SECONDS > 0 && length > MAX_DURATION_SECONDS) {
+    return `Downloads are limited to ${formatDuration(MAX_DURATION_SECONDS)}; this one is ${formatDuration(length)}`;
+  }
+
+  if (MAX_OUTPUT_BYTES > 0) {
+    const size = estimateOutputSize(request, info, length);
+    if (size !== null && size > MAX_OUTPUT_BYTES) {
+      return `The file would be about ${formatBytes(size)}, over the ${formatBytes(MAX_OUTPUT_BYTES)} limit`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * yt-dlp arguments that stop downloads over MAX_OUTPUT_MB once the site
+ * reports their size, instead of trusting the estimate alone.
+ */
+export function maxFilesizeArgs(): string[] {
+  return MAX_OUTPUT_BYTES > 0 ? ['--max-filesize', String(MAX_OUTPUT_BYTES)] : [];
+}
+
+// yt-dlp skips such downloads without failing
+const maxFilesizeRegex = /larger than max-filesize/;
+
+/**
+ * Throws when yt-dlp refused a download for MAX_OUTPUT_MB, or the finished
+ * file came out over it.
+ */
+export function checkOutputSize(size: number | null, ytDlpOutput = ''): void {
+  if (MAX_OUTPUT_BYTES === 0) return;
+  if (maxFilesizeRegex.test(ytDlpOutput)) {
+    throw new ApiError('invalid_request', `The download is over the ${formatBytes(MAX_OUTPUT_BYTES)} limit`);
+  }
+  if (size !== null && size > MAX_OUTPUT_BYTES) {
+    throw new ApiError('invalid_request', `The file is ${formatBytes(size)}, over the ${formatBytes(MAX_OUTPUT_BYTES)} limit`);
+  }
+}
+
+function estimateOutputSize({ format, original, formatId, quality, video }: AudioRequest, info: VideoInfo, length: number): number | null {
+  if (video) {
+    return estimateVideoSize(video, info, length);
+  }
+
+  if (!original && format !== 'best') {
+    return estimateSize(format || 'mp3', quality ?? {}, length);
+  }
+
+  // Kept as downloaded: size of the source stream, scaled to the clip
+  const source = formatId && !isSourcePreference(formatId)
+    ? info.formats.find(f => f.format_id === formatId)
+    : bestStream(info.formats);
+  if (!source) return null;
+  return streamSize(source.filesize, source.abr, info, length);
+}
+
+// The stream yt-dlp would pick and the audio merged into it, scaled to the clip
+function estimateVideoSize({ height, formatId, audio = true }: VideoOptions, info: VideoInfo, length: number): number | null {
+  const stream = formatId
+    ? info.videoFormats.find(f => f.format_id === formatId)
+    : info.videoFormats.find(f => !height || (f.height ?? 0) <= height);
+  if (!stream) return null;
+
+  const picture = streamSize(stream.filesize, stream.tbr, info, length);
+  const sound = audio && stream.acodec === 'none' ? bestStream(info.formats) : undefined;
+  return picture === null ? null : picture + (sound ? streamSize(sound.filesize, sound.abr, info, length) ?? 0 : 0);
+}
+
+function streamSize(filesize: number | undefined, kbps: number | undefined, info: VideoInfo, length: number): number | null {
+  if (filesize && info.duration) return Math.round(filesize * (length / info.duration));
+  return kbps ? Math.round((kbps * 1000 * length) / 8) : null;
+}
+
+function bestStream(formats: VideoFormat[]): VideoFormat | undefined {
+  return [...formats].sort((a, b) => (b.abr ?? 0) - (a.abr ?? 0))[0];
+}
@@ -0,0 +1,82 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { ApiError } from './error-codes';
+
+/**
+ * Structured logs: one JSON object per line, carrying the id of the request
+ * (and job) they were written for. Info and debug go to stdout, warnings and
+ * errors to stderr.
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type LogFields = Record<string, unknown>;
+
+export interface LogContext {
+  requestId?: string;
+  jobId?: string;
+}
+
+const LEVELS: Record<LogLevel | 'silent', number> = { debug: 10, info: 20, warn: 30, error: 40, silent: 100 };
+
+function parseLevel(value: string | undefined): LogLevel | 'silent' {
+  return value && value in LEVELS ? value as LogLevel | 'silent' : 'info';
+}
+
+// Kept on globalThis so every module reload shares the same context store
+const globalForLogs = globalThis as unknown as {
+  logContext?: AsyncLocalStorage<LogContext>;
+  logLevel?: LogLevel | 'silent';
+};
+
+const contextStore = globalForLogs.logContext ??= new AsyncLocalStorage<LogContext>();
+globalForLogs.logLevel ??= parseLevel(process.env.LOG_LEVEL);
+
+/**
+ * Changes the level at runtime, e.g. to keep the command-line client's
+ * output clean. LOG_LEVEL sets it for the server.
+ */
+export function setLogLevel(level: LogLevel | 'silent') {
+  globalForLogs.logLevel = level;
+}
+
+/**
+ * Runs `task` with `context` added to every line it logs, including from
+ * work it starts that outlives it, like jobs.
+ */
+export function runWithLogContext<T>(context: LogContext, task: () => T): T {
+  return contextStore.run({ ...contextStore.getStore(), ...context }, task);
+}
+
+export function currentLogContext(): LogContext {
+  return contextStore.getStore() ?? {};
+}
+
+// Errors don't serialise on their own; keep what helps find the cause
+function toJson(value: unknown): unknown {
+  if (value instanceof ApiError) {
+    return { name: value.name, code: value.code, message: value.message };
+  }
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message, stack: value.stack };
+  }
+  return value;
+}
+
+function write(level: LogLevel, message: string, fields: LogFields = {}) {
+  if (LEVELS[level] < LEVELS[globalForLogs.logLevel!]) return;
+
+  const entry: LogFields = { time: new Date().toISOString(), level, msg: message, ...contextStore.getStore() };
+  for (const [key, value] of Object.entries(fields)) {
+    if (value !== undefined) entry[key] = toJson(value);
+  }
+
+  const line = `${JSON.stringify(entry)}\n`;
+  if (LEVELS[level] >= LEVELS.warn) process.stderr.write(line);
+  else process.stdout.write(line);
+}
+
+export const logger = {
+  debug: (message: string, fields?: LogFields) => write('debug', message, fields),
+  info: (message: string, fields?: LogFields) => write('info', message, fields),
+  warn: (message: string, fields?: LogFields) => write('warn', message, fields),
+  error: (message: string, fields?: LogFields) => write('error', message, fields)
+};
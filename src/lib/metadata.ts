@@ -0,0 +1,98 @@
+export interface TrackMetadata {
+  title?: string;
+  artist?: string;
+  album?: string;
+  year?: string;
+  track?: string;
+  genre?: string;
+}
+
+// yt-dlp's FFmpegMetadata post-processor prefers `meta_*` fields over the video's own
+const META_FIELDS: Record<keyof TrackMetadata, string> = {
+  title: 'meta_title',
+  artist: 'meta_artist',
+  album: 'meta_album',
+  year: 'meta_date',
+  track: 'meta_track',
+  genre: 'meta_genre'
+};
+
+// Tags yt-dlp would otherwise fill from the video page; blanked so only the user's tags are written
+const CLEARED_FIELDS = [
+  'meta_description',
+  'meta_synopsis',
+  'meta_comment',
+  'meta_purl',
+  'meta_album_artist',
+  'meta_composer',
+  'meta_disc',
+  'meta_show',
+  'meta_season_number',
+  'meta_episode_id',
+  'meta_episode_sort'
+];
+
+export const FILENAME_TEMPLATES = {
+  'title': '%(meta_title,title)s',
+  'artist-title': '%(meta_artist,artist,uploader)s - %(meta_title,title)s',
+  'track-title': '%(meta_track|00)s - %(meta_title,title)s',
+  'track-artist-title': '%(meta_track|00)s - %(meta_artist,artist,uploader)s - %(meta_title,title)s'
+};
+
+export type FilenameTemplate = keyof typeof FILENAME_TEMPLATES;
+
+const MAX_TAG_LENGTH = 500;
+
+export function validateMetadata(metadata: unknown): string | null {
+  if (typeof metadata !== 'object' || metadata === null || Array.isArray(metadata)) {
+    return 'Metadata must be an object';
+  }
+
+  for (const [key, value] of Object.entries(metadata)) {
+    if (!(key in META_FIELDS)) {
+      return `Unknown metadata field: ${key}`;
+    }
+    if (value === undefined || value === '') continue;
+    if (typeof value !== 'string' || value.length > MAX_TAG_LENGTH) {
+      return `Metadata field ${key} must be a string of at most ${MAX_TAG_LENGTH} characters`;
+    }
+  }
+
+  const { year, track } = metadata as TrackMetadata;
+  if (year && !/^\d{4}$/.test(year)) {
+    return 'Year must have four digits';
+  }
+  if (track && !/^\d{1,3}(\/\d{1,3})?$/.test(track)) {
+    return 'Track number must look like "3" or "3/12"';
+  }
+
+  return null;
+}
+
+// Replacement strings go through re.sub in yt-dlp, so backslashes must be doubled
+function escapeReplacement(value: string): string {
+  return value.replace(/\\/g, '\\\\');
+}
+
+/**
+ * yt-dlp arguments that write exactly the given tags. Every tag starts out
+ * blank and is then replaced with the literal value, so nothing from the
+ * video page (description, URL, ...) ends up in the file.
+ */
+export function buildMetadataArgs(metadata: TrackMetadata): string[] {
+  const args: string[] = [];
+
+  for (const field of CLEARED_FIELDS) {
+    args.push('--parse-metadata', `:(?P<${field}>)`);
+  }
+
+  for (const [key, field] of Object.entries(META_FIELDS) as [keyof TrackMetadata, string][]) {
+    args.push('--parse-metadata', `:(?P<${field}>)`);
+    const value = metadata[key]?.trim();
+    if (value) {
+      args.push('--replace-in-metadata', field, '^$', escapeReplacement(value));
+    }
+  }
+
+  return args;
+}
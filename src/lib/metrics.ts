@@ -0,0 +1,138 @@
+/**
+ * Counters, histograms and gauges for /api/metrics, in the Prometheus text format.
+ * Values live in memory and start over when the server restarts.
+ */
+type Labels = Record<string, string>;
+
+interface Series {
+  labels: Labels;
+  value: number;
+  // Histograms only: observations at or below each bucket bound, and their sum
+  buckets?: number[];
+  sum?: number;
+}
+
+interface Metric {
+  name: string;
+  help: string;
+  type: 'counter' | 'gauge' | 'histogram';
+  bounds?: number[];
+  series: Map<string, Series>;
+  // Gauges read when scraped instead of being kept up to date
+  collect?: () => Promise<Series[]> | Series[];
+}
+
+// Kept on globalThis so the counts survive module reloads in development
+const globalForMetrics = globalThis as unknown as { metrics?: Map<string, Metric> };
+
+const registry: Map<string, Metric> = globalForMetrics.metrics ?? new Map();
+globalForMetrics.metrics = registry;
+
+function register(metric: Omit<Metric, 'series'>): Metric {
+  const existing = registry.get(metric.name);
+  if (existing) {
+    // A reloaded module brings a fresh collect function; the counts stay
+    existing.collect = metric.collect;
+    return existing;
+  }
+  const created = { ...metric, series: new Map() };
+  registry.set(metric.name, created);
+  return created;
+}
+
+const labelKey = (labels: Labels) => JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+
+function seriesOf(metric: Metric, labels: Labels): Series {
+  const key = labelKey(labels);
+  let series = metric.series.get(key);
+  if (!series) {
+    series = { labels, value: 0 };
+    if (metric.bounds) {
+      series.buckets = metric.bounds.map(() => 0);
+      series.sum = 0;
+    }
+    metric.series.set(key, series);
+  }
+  return series;
+}
+
+export function counter(name: string, help: string) {
+  const metric = register({ name, help, type: 'counter' });
+  return {
+    inc: (labels: Labels = {}, amount = 1) => {
+      seriesOf(metric, labels).value += amount;
+    }
+  };
+}
+
+export function histogram(name: string, help: string, bounds: number[]) {
+  const metric = register({ name, help, type: 'histogram', bounds });
+  const observe = (labels: Labels, value: number) => {
+    const series = seriesOf(metric, labels);
+    series.value++;
+    series.sum! += value;
+    bounds.forEach((bound, index) => {
+      if (value <= bound) series.buckets![index]++;
+    });
+  };
+  return {
+    observe,
+    // Starts a timer; call the result when done to record and return the seconds passed
+    startTimer: (labels: Labels = {}) => {
+      const started = performance.now();
+      return (extra: Labels = {}): number => {
+        const seconds = (performance.now() - started) / 1000;
+        observe({ ...labels, ...extra }, seconds);
+        return seconds;
+      };
+    }
+  };
+}
+
+/**
+ * A gauge read when scraped, from state the server already keeps.
+ */
+export function gauge(name: string, help: string, collect: () => Promise<{ labels?: Labels; value: number }[]> | { labels?: Labels; value: number }[]) {
+  register({
+    name,
+    help,
+    type: 'gauge',
+    collect: async () => (await collect()).map(({ labels = {}, value }) => ({ labels, value }))
+  });
+}
+
+const escapeLabel = (value: string) => value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabel(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+/**
+ * Every metric in the Prometheus text exposition format.
+ */
+export async function renderMetrics(): Promise<string> {
+  const lines: string[] = [];
+
+  for (const metric of registry.values()) {
+    const series = metric.collect ? await metric.collect() : [...metric.series.values()];
+    lines.push(`# HELP ${metric.name} ${metric.help}`, `# TYPE ${metric.name} ${metric.type}`);
+
+    for (const { labels, value, buckets, sum } of series) {
+      if (metric.type !== 'histogram') {
+        lines.push(`${metric.name}${formatLabels(labels)} ${value}`);
+        continue;
+      }
+      metric.bounds!.forEach((bound, index) => {
+        lines.push(`${metric.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${buckets![index]}`);
+      });
+      lines.push(
+        `${metric.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${value}`,
+        `${metric.name}_sum${formatLabels(labels)} ${sum}`,
+        `${metric.name}_count${formatLabels(labels)} ${value}`
+      );
+    }
+  }
+
+  return `${lines.join('\n')}\n`;
+}
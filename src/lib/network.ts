@@ -0,0 +1,67 @@
+import { copyFile, rm } from 'fs/promises';
+import type { NextRequest } from 'next/server';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { requestUser } from './auth';
+import { ApiError } from './error-codes';
+
+// Netscape-format cookie jar for sites that need a signed-in account
+const COOKIES_FILE = process.env.YTDLP_COOKIES_FILE || '';
+
+// e.g. "http://proxy:3128" or "socks5://127.0.0.1:1080"
+const PROXY = process.env.YTDLP_PROXY || '';
+
+// Local IP to connect from, on hosts with several
+const SOURCE_ADDRESS = process.env.YTDLP_SOURCE_ADDRESS || '';
+
+const USER_AGENT = process.env.YTDLP_USER_AGENT || '';
+
+// API keys or the basic-auth user name allowed to use the cookies; "*" allows everyone
+const COOKIES_USERS = (process.env.COOKIES_USERS || '').split(',').map(user => user.trim()).filter(Boolean);
+
+export function isCookiesEnabled(): boolean {
+  return COOKIES_FILE !== '';
+}
+
+/**
+ * Checks a request's `cookies` opt-in. Returns the error to answer with, or
+ * null when the request didn't ask for cookies or may use them.
+ */
+export function checkCookieAccess(request: NextRequest, cookies: boolean | undefined): ApiError | null {
+  if (!cookies) return null;
+  if (!isCookiesEnabled()) {
+    return new ApiError('cookies_not_allowed', 'This server has no cookies configured');
+  }
+
+  const user = requestUser(request);
+  if (!COOKIES_USERS.includes('*') && !(user && COOKIES_USERS.includes(user))) {
+    return new ApiError('cookies_not_allowed');
+  }
+  return null;
+}
+
+/**
+ * Runs `run` with the yt-dlp arguments for the configured proxy, source
+ * address and user agent, plus the cookie jar when `cookies` is set. yt-dlp
+ * writes the jar back when it exits, so each run gets its own copy rather
+ * than concurrent runs overwriting the shared file.
+ */
+export async function withNetworkArgs<T>(cookies: boolean | undefined, run: (args: string[]) => Promise<T>): Promise<T> {
+  const args: string[] = [];
+  if (PROXY) args.push('--proxy', PROXY);
+  if (SOURCE_ADDRESS) args.push('--source-address', SOURCE_ADDRESS);
+  if (USER_AGENT) args.push('--user-agent', USER_AGENT);
+
+  if (!cookies || !COOKIES_FILE) {
+    return run(args);
+  }
+
+  const jar = join(tmpdir(), `yt-dlp-cookies-${uuidv4()}.txt`);
+  await copyFile(COOKIES_FILE, jar);
+  try {
+    return await run([...args, '--cookies', jar]);
+  } finally {
+    await rm(jar, { force: true }).catch(() => {});
+  }
+}
@@ -0,0 +1,58 @@
+import { extname } from 'path';
+import { Feed, feedItemFile, podcastPath } from './feeds';
+import { getContentType } from './ytdlp';
+
+// Control characters aren't allowed anywhere in XML 1.0
+const INVALID_XML = /[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g;
+
+const XML_ENTITIES: Record<string, string> = { '<': '&lt;', '>': '&gt;', '&': '&amp;', '"': '&quot;', '\'': '&apos;' };
+
+function escapeXml(value: string): string {
+  return value.replace(INVALID_XML, '').replace(/[<>&"']/g, (char) => XML_ENTITIES[char]);
+}
+
+/**
+ * RSS 2.0 with iTunes tags for a feed's converted episodes, which podcast
+ * apps subscribe to. Links are absolute, made from `baseUrl`.
+ */
+export function buildPodcastRss(feed: Feed, baseUrl: string): string {
+  const ready = feed.items.filter(item => item.status === 'ready');
+  const image = feed.image ?? ready.find(item => item.thumbnail)?.thumbnail ?? null;
+  const feedUrl = `${baseUrl}${podcastPath(feed)}`;
+
+  const items = ready.map((item) => {
+    const file = feedItemFile(feed, item);
+    const enclosureUrl = `${baseUrl}${podcastPath(feed, `${item.id}${extname(file.filename)}`)}`;
+    return [
+      '    <item>',
+      `      <title>${escapeXml(item.title)}</title>`,
+      `      <description>${escapeXml(item.description || item.title)}</description>`,
+      `      <link>${escapeXml(item.url)}</link>`,
+      `      <guid isPermaLink="false">${item.id}</guid>`,
+      `      <pubDate>${new Date(item.publishedAt).toUTCString()}</pubDate>`,
+      `      <enclosure url="${escapeXml(enclosureUrl)}" length="${file.size}" type="${getContentType(file.filename)}"/>`,
+      `      <itunes:duration>${Math.round(item.duration)}</itunes:duration>`,
+      item.author && `      <itunes:author>${escapeXml(item.author)}</itunes:author>`,
+      item.thumbnail && `      <itunes:image href="${escapeXml(item.thumbnail)}"/>`,
+      '    </item>'
+    ].filter(Boolean).join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:itunes="http://www.itunes.com/dtds/podcast-1.0.dtd" xmlns:atom="http://www.w3.org/2005/Atom">',
+    '  <channel>',
+    `    <title>${escapeXml(feed.title)}</title>`,
+    `    <description>${escapeXml(feed.description || feed.title)}</description>`,
+    `    <link>${escapeXml(`${baseUrl}/`)}</link>`,
+    `    <atom:link href="${escapeXml(feedUrl)}" rel="self" type="application/rss+xml"/>`,
+    `    <lastBuildDate>${new Date().toUTCString()}</lastBuildDate>`,
+    '    <itunes:explicit>false</itunes:explicit>',
+    '    <itunes:type>episodic</itunes:type>',
+    image && `    <itunes:image href="${escapeXml(image)}"/>`,
+    ...items,
+    '  </channel>',
+    '</rss>',
+    ''
+  ].filter(item => item !== null).join('\n');
+}
@@ -0,0 +1,88 @@
+// Post-processing options; shared by the download route (validation) and the page
+
+/**
+ * Optional ffmpeg steps applied after yt-dlp has extracted the audio, in this
+ * order: silence trim, speed, fades, loudness normalisation.
+ */
+export interface PostProcessing {
+  // Target integrated loudness in LUFS (EBU R128), e.g. -14 or -23
+  loudness?: number;
+  trimSilence?: boolean;
+  // Seconds
+  fadeIn?: number;
+  fadeOut?: number;
+  // Playback speed factor, 0.5 to 2
+  speed?: number;
+  // Change tempo only (default) rather than tempo and pitch
+  keepPitch?: boolean;
+}
+
+export interface LoudnessReport {
+  target: number;
+  // Integrated loudness, true peak and loudness range before normalisation
+  measured: number;
+  truePeak: number;
+  range: number;
+  // Integrated loudness of the normalised file
+  output: number | null;
+}
+
+const MIN_LUFS = -70;
+const MAX_LUFS = -5;
+export const MAX_FADE_SECONDS = 60;
+export const MIN_SPEED = 0.5;
+export const MAX_SPEED = 2;
+
+export const LOUDNESS_PRESETS = [
+  { value: -14, label: '-14 LUFS (streaming)' },
+  { value: -16, label: '-16 LUFS (podcasts)' },
+  { value: -23, label: '-23 LUFS (EBU R128 broadcast)' }
+];
+
+export function hasPostProcessing(steps: PostProcessing | undefined): steps is PostProcessing {
+  return !!steps && (
+    steps.loudness !== undefined ||
+    !!steps.trimSilence ||
+    !!steps.fadeIn ||
+    !!steps.fadeOut ||
+    (steps.speed !== undefined && steps.speed !== 1)
+  );
+}
+
+// Silence trimming and speed changes move audio against the video's timestamps
+export function shiftsTimestamps(steps: PostProcessing): boolean {
+  return !!steps.trimSilence || (steps.speed !== undefined && steps.speed !== 1);
+}
+
+/**
+ * Checks post-processing options. Returns an error message, or null when valid.
+ */
+export function validatePostProcessing(steps: unknown): string | null {
+  if (typeof steps !== 'object' || steps === null || Array.isArray(steps)) {
+    return 'Post-processing must be an object';
+  }
+
+  const { loudness, trimSilence, fadeIn, fadeOut, speed, keepPitch } = steps as PostProcessing;
+  const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+  if (loudness !== undefined && (!isNumber(loudness) || loudness < MIN_LUFS || loudness > MAX_LUFS)) {
+    return `Loudness target must be between ${MIN_LUFS} and ${MAX_LUFS} LUFS`;
+  }
+
+  for (const value of [fadeIn, fadeOut]) {
+    if (value !== undefined && (!isNumber(value) || value < 0 || value > MAX_FADE_SECONDS)) {
+      return `Fades must be between 0 and ${MAX_FADE_SECONDS} seconds`;
+    }
+  }
+
+  if (speed !== undefined && (!isNumber(speed) || speed < MIN_SPEED || speed > MAX_SPEED)) {
+    return `Speed must be between ${MIN_SPEED} and ${MAX_SPEED}`;
+  }
+
+  if ((trimSilence !== undefined && typeof trimSilence !== 'boolean') ||
+      (keepPitch !== undefined && typeof keepPitch !== 'boolean')) {
+    return 'Silence trimming and pitch options must be true or false';
+  }
+
+  return null;
+}
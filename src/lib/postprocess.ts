@@ -0,0 +1,232 @@
+import { rename, unlink } from 'fs/promises';
+import { extname } from 'path';
+import type { ConvertedFile } from './download';
+import { runFfmpeg } from './ffmpeg';
+import { LoudnessReport, PostProcessing } from './postprocess-options';
+import { AudioQuality, CODEC_CAPABILITIES, encoderArgs } from './quality';
+
+// loudnorm defaults apart from the target; -1.5 dBTP leaves room for lossy encoders
+const TRUE_PEAK = -1.5;
+const LOUDNESS_RANGE = 11;
+
+// Quieter than this for at least half a second counts as silence
+const SILENCE_THRESHOLD = '-50dB';
+const SILENCE_DURATION = 0.5;
+
+interface AudioAnalysis {
+  duration: number;
+  sampleRate: number;
+  // Source bit depth for lossless files, so filtering doesn't change it
+  bitDepth: 16 | 24 | 32 | undefined;
+  // Audible part of the file
+  start: number;
+  end: number;
+}
+
+// Duration: 00:03:21.45, start: ...
+const durationRegex = /Duration: (\d+):(\d+):(\d+(?:\.\d+)?)/;
+// Stream #0:0: Audio: flac, 44100 Hz, stereo, s32 (24 bit)
+const audioStreamRegex = /Audio: [^,]+, (\d+) Hz, [^,]+, (\w+)(?: \((\d+) bit\))?/;
+const silenceStartRegex = /silence_start: (-?[\d.]+)/;
+const silenceEndRegex = /silence_end: ([\d.]+)/;
+
+async function analyse(filePath: string, trimSilence: boolean, signal?: AbortSignal): Promise<AudioAnalysis> {
+  // Without trimming only the header is needed
+  const stderr = await runFfmpeg([
+    '-i', filePath,
+    '-vn',
+    ...(trimSilence ? ['-af', `silencedetect=noise=${SILENCE_THRESHOLD}:d=${SILENCE_DURATION}`] : ['-t', '0']),
+    '-f', 'null', '-'
+  ], signal);
+
+  const durationMatch = stderr.match(durationRegex);
+  const streamMatch = stderr.match(audioStreamRegex);
+  if (!durationMatch || !streamMatch) {
+    throw new Error('Could not read the converted audio');
+  }
+
+  const duration = parseInt(durationMatch[1], 10) * 3600 + parseInt(durationMatch[2], 10) * 60 + parseFloat(durationMatch[3]);
+  const sampleFormat = streamMatch[2];
+  const bits = streamMatch[3] ? parseInt(streamMatch[3], 10) : sampleFormat.startsWith('s16') ? 16 : sampleFormat.startsWith('s32') ? 32 : undefined;
+
+  let start = 0;
+  let end = duration;
+  if (trimSilence) {
+    // Walk silencedetect's start/end pairs; an unterminated start runs to the end of the file
+    const silences: { start: number; end: number }[] = [];
+    for (const line of stderr.split('\n')) {
+      const silenceStart = line.match(silenceStartRegex);
+      const silenceEnd = line.match(silenceEndRegex);
+      if (silenceStart) {
+        silences.push({ start: Math.max(0, parseFloat(silenceStart[1])), end: duration });
+      } else if (silenceEnd && silences.length > 0) {
+        silences[silences.length - 1].end = parseFloat(silenceEnd[1]);
+      }
+    }
+
+    const leading = silences[0];
+    if (leading && leading.start <= 0.05) {
+      start = leading.end;
+    }
+    const trailing = silences[silences.length - 1];
+    if (trailing && trailing.end >= duration - 0.05 && trailing.start > start) {
+      end = trailing.start;
+    }
+    // An entirely silent file is left as it is
+    if (end <= start) {
+      start = 0;
+      end = duration;
+    }
+  }
+
+  return {
+    duration,
+    sampleRate: parseInt(streamMatch[1], 10),
+    bitDepth: bits === 16 || bits === 24 || bits === 32 ? bits : undefined,
+    start,
+    end
+  };
+}
+
+// Every filter except loudnorm, which is measured on the result of these
+function buildFilters(steps: PostProcessing, analysis: AudioAnalysis): string[] {
+  const filters: string[] = [];
+  const speed = steps.speed ?? 1;
+
+  if (analysis.start > 0 || analysis.end < analysis.duration) {
+    filters.push(`atrim=start=${analysis.start}:end=${analysis.end}`, 'asetpts=PTS-STARTPTS');
+  }
+
+  if (speed !== 1) {
+    if (steps.keepPitch === false) {
+      // Resampling changes pitch along with tempo, like playing a record faster
+      filters.push(`asetrate=${Math.round(analysis.sampleRate * speed)}`, `aresample=${analysis.sampleRate}`);
+    } else {
+      filters.push(`atempo=${speed}`);
+    }
+  }
+
+  const length = (analysis.end - analysis.start) / speed;
+  if (steps.fadeIn) {
+    filters.push(`afade=t=in:st=0:d=${Math.min(steps.fadeIn, length)}`);
+  }
+  if (steps.fadeOut) {
+    const fadeOut = Math.min(steps.fadeOut, length);
+    filters.push(`afade=t=out:st=${(length - fadeOut).toFixed(3)}:d=${fadeOut}`);
+  }
+
+  return filters;
+}
+
+interface LoudnormStats {
+  input_i: string;
+  input_tp: string;
+  input_lra: string;
+  input_thresh: string;
+  output_i: string;
+  target_offset: string;
+}
+
+// loudnorm prints its statistics as a JSON object at the end of stderr
+function parseLoudnormStats(stderr: string): LoudnormStats {
+  const json = stderr.slice(stderr.lastIndexOf('{'), stderr.lastIndexOf('}') + 1);
+  try {
+    return JSON.parse(json);
+  } catch {
+    throw new Error('Could not measure loudness');
+  }
+}
+
+/**
+ * Applies the post-processing steps to `file` in place by re-encoding it in
+ * the same format. Loudness is normalised in two passes: the first measures
+ * the filtered audio, the second applies a linear gain towards the target.
+ */
+export async function postProcess(
+  file: ConvertedFile,
+  format: string,
+  quality: AudioQuality | undefined,
+  steps: PostProcessing,
+  { onLine, signal }: { onLine?: (line: string) => void; signal?: AbortSignal } = {}
+): Promise<LoudnessReport | null> {
+  const analysis = await analyse(file.filePath, !!steps.trimSilence, signal);
+  const filters = buildFilters(steps, analysis);
+
+  let report: LoudnessReport | null = null;
+  let loudnorm: string | null = null;
+
+  if (steps.loudness !== undefined) {
+    onLine?.('[Loudness] Measuring loudness');
+    const measure = `loudnorm=I=${steps.loudness}:TP=${TRUE_PEAK}:LRA=${LOUDNESS_RANGE}:print_format=json`;
+    const stats = parseLoudnormStats(await runFfmpeg([
+      '-i', file.filePath,
+      '-vn',
+      '-af', [...filters, measure].join(','),
+      '-f', 'null', '-'
+    ], signal));
+
+    const measured = parseFloat(stats.input_i);
+    // Digital silence measures as -inf; there is nothing to normalise
+    if (Number.isFinite(measured)) {
+      report = {
+        target: steps.loudness,
+        measured,
+        truePeak: parseFloat(stats.input_tp),
+        range: parseFloat(stats.input_lra),
+        output: null
+      };
+      loudnorm = [
+        `loudnorm=I=${steps.loudness}:TP=${TRUE_PEAK}:LRA=${LOUDNESS_RANGE}`,
+        `measured_I=${stats.input_i}:measured_TP=${stats.input_tp}:measured_LRA=${stats.input_lra}`,
+        `measured_thresh=${stats.input_thresh}:offset=${stats.target_offset}`,
+        'linear=true:print_format=json'
+      ].join(':');
+    }
+  }
+
+  // loudnorm works at 192 kHz internally, so resample back to the file's rate
+  const chain = loudnorm ? [...filters, loudnorm, `aresample=${analysis.sampleRate}`] : filters;
+  if (chain.length === 0) {
+    // e.g. trimming a file without leading or trailing silence
+    return report;
+  }
+
+  onLine?.('[AudioFilters] Applying audio filters');
+  const lossless = CODEC_CAPABILITIES[format].bitDepths.includes(analysis.bitDepth ?? 0);
+  const ext = extname(file.filename);
+  const output = `${file.filePath.slice(0, -ext.length)}.filtered${ext}`;
+
+  const stderr = await runFfmpeg([
+    '-i', file.filePath,
+    '-map', '0:a',
+    // Keep an embedded cover; Ogg can't hold one as a stream, see validateAudioRequest
+    '-map', '0:v?',
+    '-map_metadata', '0',
+    '-af', chain.join(','),
+    ...encoderArgs(format, lossless ? { ...quality, bitDepth: quality?.bitDepth ?? analysis.bitDepth } : quality),
+    '-c:v', 'copy',
+    ...(ext === '.mp3' ? ['-id3v2_version', '3'] : []),
+    output
+  ], signal);
+
+  if (report && loudnorm) {
+    const outputLoudness = parseFloat(parseLoudnormStats(stderr).output_i);
+    report.output = Number.isFinite(outputLoudness) ? outputLoudness : null;
+  }
+
+  await unlink(file.filePath);
+  await rename(output, file.filePath);
+
+  return report;
+}
+
+// Response headers describing a normalised file
+export function loudnessHeaders(report: LoudnessReport | null | undefined): Record<string, string> {
+  if (!report) return {};
+  return {
+    'X-Loudness-Target': String(report.target),
+    'X-Loudness-Measured': report.measured.toFixed(1),
+    'X-Loudness-True-Peak': report.truePeak.toFixed(1),
+    ...(report.output !== null ? { 'X-Loudness-Output': report.output.toFixed(1) } : {})
+  };
+}
@@ -0,0 +1,125 @@
+import { ChildProcess, spawn } from 'child_process';
+import { ApiError, ErrorCode } from './error-codes';
+import { ProcessTimeoutError } from './errors';
+
+const envSeconds = (name: string, fallback: number) =>
+  Math.max(0, parseInt(process.env[name] ?? String(fallback), 10) || 0);
+
+// Per-stage limits in seconds; 0 turns a limit off
+export const TIMEOUTS = {
+  // yt-dlp looking up a video or listing a playlist
+  info: envSeconds('INFO_TIMEOUT_SECONDS', 120),
+  // yt-dlp downloading and converting one video
+  download: envSeconds('DOWNLOAD_TIMEOUT_SECONDS', 1800),
+  // Each ffmpeg pass: filters, covers, chapter splitting
+  ffmpeg: envSeconds('FFMPEG_TIMEOUT_SECONDS', 600)
+};
+
+// Commands the server can't work without, and how their absence is reported
+const MISSING_CODES: Record<string, ErrorCode> = {
+  'yt-dlp': 'ytdlp_missing',
+  'ffmpeg': 'ffmpeg_missing'
+};
+
+export interface ProcessOptions {
+  signal?: AbortSignal;
+  // Seconds before the process is killed; 0 or undefined means no limit
+  timeout?: number;
+  onStdout?: (data: string) => void;
+  onStderr?: (data: string) => void;
+}
+
+interface ProcessRegistry {
+  live: Set<ChildProcess>;
+}
+
+// Kept on globalThis so the exit hook is only added once across module reloads
+const globalForProcesses = globalThis as unknown as { processRegistry?: ProcessRegistry };
+
+const registry: ProcessRegistry = globalForProcesses.processRegistry ?? (() => {
+  const created: ProcessRegistry = { live: new Set() };
+  // Children run in their own process group, so they don't get the terminal's
+  // Ctrl-C; take them down with the server instead of leaving them running
+  process.once('exit', () => created.live.forEach(killTree));
+  return created;
+})();
+globalForProcesses.processRegistry = registry;
+
+/**
+ * Processes running right now, counted by command.
+ */
+export function liveProcessCounts(): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const child of registry.live) {
+    counts[child.spawnfile] = (counts[child.spawnfile] ?? 0) + 1;
+  }
+  return counts;
+}
+
+// Kills a process and everything it started, e.g. the ffmpeg yt-dlp runs
+function killTree(child: ChildProcess) {
+  if (child.pid === undefined || child.exitCode !== null || child.signalCode !== null) return;
+  try {
+    if (process.platform === 'win32') {
+      spawn('taskkill', ['/pid', String(child.pid), '/T', '/F']);
+    } else {
+      process.kill(-child.pid, 'SIGKILL');
+    }
+  } catch {
+    // Already gone
+  }
+}
+
+/**
+ * Runs a command and resolves with its exit code. Aborting `signal` or
+ * running past `timeout` kills the whole process tree and rejects with the
+ * abort reason or a ProcessTimeoutError.
+ */
+export function runProcess(command: string, args: string[], options: ProcessOptions = {}): Promise<number | null> {
+  const { signal, timeout, onStdout, onStderr } = options;
+
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    // A process group of its own, so the whole tree can be killed at once
+    const child = spawn(command, args, { detached: process.platform !== 'win32' });
+    registry.live.add(child);
+
+    let stopReason: unknown = null;
+    const stop = (reason: unknown) => {
+      if (stopReason) return;
+      stopReason = reason;
+      killTree(child);
+    };
+
+    const onAbort = () => stop(signal!.reason);
+    signal?.addEventListener('abort', onAbort, { once: true });
+    const timer = timeout ? setTimeout(() => stop(new ProcessTimeoutError(command, timeout)), timeout * 1000) : null;
+
+    const cleanup = () => {
+      registry.live.delete(child);
+      signal?.removeEventListener('abort', onAbort);
+      if (timer) clearTimeout(timer);
+    };
+
+    child.stdout.on('data', (data) => onStdout?.(data.toString()));
+    child.stderr.on('data', (data) => onStderr?.(data.toString()));
+
+    child.on('close', (code) => {
+      cleanup();
+      if (stopReason) reject(stopReason);
+      else resolve(code);
+    });
+
+    child.on('error', (err) => {
+      cleanup();
+      reject(stopReason ?? new ApiError(
+        MISSING_CODES[command] ?? 'internal_error',
+        `${command} not found. Please ensure ${command} is installed: ${err.message}`
+      ));
+    });
+  });
+}
@@ -0,0 +1,76 @@
+export type ProgressStage = 'preparing' | 'downloading' | 'post-processing';
+
+export interface JobProgress {
+  stage: ProgressStage;
+  percent: number | null;
+  speed: string | null;
+  eta: string | null;
+  // Name of the running post-processor, e.g. "ExtractAudio" or "EmbedThumbnail"
+  postprocessor: string | null;
+}
+
+export const INITIAL_PROGRESS: JobProgress = {
+  stage: 'preparing',
+  percent: null,
+  speed: null,
+  eta: null,
+  postprocessor: null
+};
+
+// [download]  45.3% of ~  3.52MiB at    1.21MiB/s ETA 00:02 (frag 3/10)
+const downloadRegex = /^\[download\]\s+([\d.]+)%(?:\s+of\s+~?\s*\S+)?(?:\s+at\s+(\S+))?(?:\s+ETA\s+(\S+))?/;
+
+// [ExtractAudio] Destination: ..., [Metadata] Adding metadata to ...
+const postprocessorRegex = /^\[(ExtractAudio|Metadata|MetadataParser|EmbedThumbnail|ThumbnailsConvertor|FixupM4a|FixupM3u8|FixupWebm|ModifyChapters|SplitChapters|SubtitlesConvertor|EmbedLyrics|Merger|VideoRemuxer|Loudness|AudioFilters|FFmpeg\w*)\]/;
+
+const POSTPROCESSOR_LABELS: Record<string, string> = {
+  ExtractAudio: 'Converting audio',
+  Metadata: 'Adding metadata',
+  MetadataParser: 'Adding metadata',
+  EmbedThumbnail: 'Embedding thumbnail',
+  ThumbnailsConvertor: 'Converting thumbnail',
+  ModifyChapters: 'Cutting sections',
+  SplitChapters: 'Splitting chapters',
+  SubtitlesConvertor: 'Converting subtitles',
+  Merger: 'Merging video and audio',
+  VideoRemuxer: 'Remuxing video',
+  EmbedLyrics: 'Adding lyrics',
+  Loudness: 'Measuring loudness',
+  AudioFilters: 'Applying audio filters'
+};
+
+export function postprocessorLabel(name: string): string {
+  return POSTPROCESSOR_LABELS[name] || 'Post-processing';
+}
+
+/**
+ * Folds one line of yt-dlp `--newline` output into the current progress.
+ * Lines that carry no progress information return the previous value unchanged.
+ */
+export function parseProgressLine(line: string, previous: JobProgress): JobProgress {
+  const download = line.match(downloadRegex);
+  if (download) {
+    const speed = download[2];
+    const eta = download[3];
+    return {
+      stage: 'downloading',
+      percent: Math.min(100, parseFloat(download[1])),
+      speed: speed && !speed.startsWith('Unknown') ? speed : null,
+      eta: eta && !eta.startsWith('Unknown') ? eta : null,
+      postprocessor: null
+    };
+  }
+
+  const postprocessor = line.match(postprocessorRegex);
+  if (postprocessor) {
+    return {
+      stage: 'post-processing',
+      percent: null,
+      speed: null,
+      eta: null,
+      postprocessor: postprocessor[1]
+    };
+  }
+
+  return previous;
+}
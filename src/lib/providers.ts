@@ -0,0 +1,205 @@
+import { isPlaylistUrl, isYouTubeHost, normalizeYouTubeUrl, videoIdFromUrl, videoUrl } from './youtube';
+
+/**
+ * A site yt-dlp can download from. Shared by the server (validation) and the
+ * page (labels), so it must stay free of Node imports.
+ */
+export interface Provider {
+  id: string;
+  name: string;
+  // Shape of the site's artwork: video stills or square covers
+  thumbnailAspect: 'wide' | 'square';
+  matchesHost: (hostname: string) => boolean;
+  // Canonical URL, or null when the link is not something that can be downloaded
+  normalize: (url: URL) => string | null;
+  isPlaylist: (url: URL) => boolean;
+  // Stable id of a single item, for caching; null for playlists
+  itemId: (url: URL) => string | null;
+  // URL of a playlist entry from its id; without it playlists can only be listed
+  entryUrl?: (id: string) => string | null;
+  thumbnail?: (itemId: string) => string;
+}
+
+// Public subset returned by /api/info
+export interface ProviderSummary {
+  id: string;
+  name: string;
+  thumbnailAspect: 'wide' | 'square';
+}
+
+export interface SourceMatch {
+  provider: Provider;
+  // Normalised URL handed to yt-dlp
+  url: string;
+  playlist: boolean;
+  itemId: string | null;
+}
+
+const pathSegments = (url: URL) => url.pathname.split('/').filter(Boolean);
+
+const youtube: Provider = {
+  id: 'youtube',
+  name: 'YouTube',
+  thumbnailAspect: 'wide',
+  matchesHost: isYouTubeHost,
+  normalize: (url) => normalizeYouTubeUrl(url.toString()),
+  isPlaylist: (url) => isPlaylistUrl(url.toString()),
+  itemId: (url) => isPlaylistUrl(url.toString()) ? null : videoIdFromUrl(url.toString()),
+  entryUrl: (id) => /^[\w-]{11}$/.test(id) ? videoUrl(id) : null,
+  thumbnail: (id) => `https://i.ytimg.com/vi/${id}/mqdefault.jpg`
+};
+
+// Paths under a SoundCloud user that list tracks rather than being one
+const SOUNDCLOUD_LISTS = ['sets', 'tracks', 'albums', 'popular-tracks', 'reposts', 'likes'];
+
+const soundcloud: Provider = {
+  id: 'soundcloud',
+  name: 'SoundCloud',
+  thumbnailAspect: 'square',
+  matchesHost: (hostname) => /^((www|m|on)\.)?soundcloud\.com$/.test(hostname),
+  normalize: (url) => {
+    // on.soundcloud.com short links are resolved by yt-dlp
+    if (url.hostname === 'on.soundcloud.com') return url.toString();
+    const segments = pathSegments(url);
+    return segments.length > 0 ? `https://soundcloud.com/${segments.join('/')}` : null;
+  },
+  isPlaylist: (url) => {
+    const segments = pathSegments(url);
+    return url.hostname !== 'on.soundcloud.com' && (segments.length === 1 || SOUNDCLOUD_LISTS.includes(segments[1]));
+  },
+  itemId: (url) => soundcloud.isPlaylist(url) ? null : pathSegments(url).join('/'),
+  // Flat playlists list tracks by numeric id, which the API URL resolves
+  entryUrl: (id) => /^\d+$/.test(id) ? `https://api.soundcloud.com/tracks/${id}` : null
+};
+
+const bandcamp: Provider = {
+  id: 'bandcamp',
+  name: 'Bandcamp',
+  thumbnailAspect: 'square',
+  matchesHost: (hostname) => /^[\w-]+\.bandcamp\.com$/.test(hostname),
+  normalize: (url) => `https://${url.hostname}${url.pathname.replace(/\/$/, '')}`,
+  // Albums and artist pages; only /track/ pages are single items
+  isPlaylist: (url) => pathSegments(url)[0] !== 'track',
+  itemId: (url) => pathSegments(url)[0] === 'track' ? `${url.hostname}/${pathSegments(url).join('/')}` : null
+};
+
+const vimeo: Provider = {
+  id: 'vimeo',
+  name: 'Vimeo',
+  thumbnailAspect: 'wide',
+  matchesHost: (hostname) => /^((www|player)\.)?vimeo\.com$/.test(hostname),
+  normalize: (url) => {
+    const id = vimeo.itemId(url);
+    if (id) return `https://vimeo.com/${id}`;
+    return pathSegments(url).length > 0 ? `https://vimeo.com${url.pathname}` : null;
+  },
+  isPlaylist: (url) => vimeo.itemId(url) === null,
+  // vimeo.com/123, vimeo.com/123/abcdef (unlisted), player.vimeo.com/video/123, vimeo.com/channels/x/123
+  itemId: (url) => {
+    const segments = pathSegments(url);
+    const index = segments.findIndex(segment => /^\d+$/.test(segment));
+    if (index === -1) return null;
+    if (index > 0 && !['video', 'channels', 'groups'].includes(segments[0])) return null;
+    const hash = segments[index + 1];
+    return hash && /^[0-9a-f]+$/.test(hash) ? `${segments[index]}/${hash}` : segments[index];
+  },
+  entryUrl: (id) => /^\d+$/.test(id) ? `https://vimeo.com/${id}` : null
+};
+
+const twitch: Provider = {
+  id: 'twitch',
+  name: 'Twitch',
+  thumbnailAspect: 'wide',
+  matchesHost: (hostname) => /^((www|m|clips)\.)?twitch\.tv$/.test(hostname),
+  normalize: (url) => {
+    const id = twitch.itemId(url);
+    if (id?.startsWith('v')) return `https://www.twitch.tv/videos/${id.slice(1)}`;
+    if (id) return `https://clips.twitch.tv/${id}`;
+    // A channel's past broadcasts; live streams can't be downloaded as a file
+    const segments = pathSegments(url);
+    return segments.length === 2 && segments[1] === 'videos' ? `https://www.twitch.tv/${segments[0]}/videos` : null;
+  },
+  isPlaylist: (url) => twitch.itemId(url) === null,
+  // VODs as "v<digits>" like yt-dlp names them, clips by slug
+  itemId: (url) => {
+    const segments = pathSegments(url);
+    if (url.hostname === 'clips.twitch.tv') return segments[0] ?? null;
+    if (segments[0] === 'videos' && /^\d+$/.test(segments[1] ?? '')) return `v${segments[1]}`;
+    if (segments[1] === 'clip' && segments[2]) return segments[2];
+    return null;
+  },
+  entryUrl: (id) => /^v\d+$/.test(id) ? `https://www.twitch.tv/videos/${id.slice(1)}` : null
+};
+
+export const PROVIDERS: Provider[] = [youtube, soundcloud, bandcamp, vimeo, twitch];
+
+// Comma-separated provider ids, e.g. "youtube,soundcloud"; all are enabled when unset
+function enabledProviderIds(): string[] | null {
+  const value = typeof process !== 'undefined' ? process.env.ENABLED_PROVIDERS : undefined;
+  return value ? value.split(',').map(id => id.trim().toLowerCase()).filter(Boolean) : null;
+}
+
+export function getEnabledProviders(): Provider[] {
+  const enabled = enabledProviderIds();
+  return enabled ? PROVIDERS.filter(provider => enabled.includes(provider.id)) : PROVIDERS;
+}
+
+export function getProvider(id: string): Provider | undefined {
+  return getEnabledProviders().find(provider => provider.id === id);
+}
+
+function parseSourceUrl(url: string): URL | null {
+  try {
+    const parsed = new URL(/^https?:\/\//i.test(url) ? url : `https://${url}`);
+    return parsed.protocol === 'https:' || parsed.protocol === 'http:' ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Finds the enabled provider for a URL and normalises it. Returns null for
+ * unsupported sites, disabled providers and links that aren't downloadable.
+ */
+export function matchSource(url: string): SourceMatch | null {
+  const parsed = parseSourceUrl(url.trim());
+  if (!parsed) return null;
+
+  const provider = getEnabledProviders().find(p => p.matchesHost(parsed.hostname.toLowerCase()));
+  const normalized = provider?.normalize(parsed);
+  if (!provider || !normalized) return null;
+
+  const playlist = provider.isPlaylist(parsed);
+  return { provider, url: normalized, playlist, itemId: playlist ? null : provider.itemId(parsed) };
+}
+
+/**
+ * Like matchSource, for requests that want one video. A YouTube link to a
+ * video inside a playlist (`watch?v=...&list=...`) keeps its video; other
+ * playlist and channel links return null.
+ */
+export function matchVideo(url: string): SourceMatch | null {
+  const source = matchSource(url);
+  if (!source?.playlist) return source;
+
+  const id = source.provider.id === 'youtube' ? videoIdFromUrl(url.trim()) : null;
+  return id ? { ...source, url: videoUrl(id), playlist: false, itemId: id } : null;
+}
+
+/**
+ * Checks a source URL. Returns an error message, or null when valid.
+ */
+export function validateSourceUrl(url: unknown): string | null {
+  if (!url) {
+    return 'URL is required';
+  }
+  if (typeof url !== 'string' || !matchSource(url)) {
+    const names = getEnabledProviders().map(provider => provider.name).join(', ');
+    return `Unsupported URL. Supported sites: ${names}`;
+  }
+  return null;
+}
+
+export function toProviderSummary({ id, name, thumbnailAspect }: Provider): ProviderSummary {
+  return { id, name, thumbnailAspect };
+}
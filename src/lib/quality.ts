@@ -0,0 +1,309 @@
+// Shared by the download route (validation, ffmpeg arguments) and the page (pickers, size estimate)
+
+export type BitrateMode = 'cbr' | 'vbr';
+
+export interface AudioQuality {
+  mode?: BitrateMode;
+  // kbps, for CBR everywhere and for Opus VBR (target bitrate)
+  bitrate?: number;
+  // yt-dlp's scale: 0 (best) to 10 (worst), for MP3 and Vorbis VBR
+  vbrLevel?: number;
+  sampleRate?: number;
+  channels?: 1 | 2;
+  bitDepth?: 16 | 24 | 32;
+}
+
+export interface CodecCapabilities {
+  modes: BitrateMode[];
+  bitrates: number[];
+  // Whether VBR is set by level (MP3, Vorbis) rather than by target bitrate (Opus)
+  vbrLevels: boolean;
+  sampleRates: number[];
+  bitDepths: number[];
+  // ffmpeg encoder, forced so yt-dlp can't fall back to copying the source stream
+  encoder: string;
+}
+
+const COMMON_RATES = [8000, 11025, 12000, 16000, 22050, 24000, 32000, 44100, 48000];
+const HIGH_RATES = [...COMMON_RATES, 88200, 96000, 176400, 192000];
+
+export const CODEC_CAPABILITIES: Record<string, CodecCapabilities> = {
+  mp3: {
+    modes: ['vbr', 'cbr'],
+    bitrates: [32, 48, 64, 96, 128, 160, 192, 224, 256, 320],
+    vbrLevels: true,
+    sampleRates: COMMON_RATES,
+    bitDepths: [],
+    encoder: 'libmp3lame'
+  },
+  aac: {
+    modes: ['cbr'],
+    bitrates: [64, 96, 128, 160, 192, 256, 320],
+    vbrLevels: false,
+    sampleRates: [...COMMON_RATES, 88200, 96000],
+    bitDepths: [],
+    encoder: 'aac'
+  },
+  m4a: {
+    modes: ['cbr'],
+    bitrates: [64, 96, 128, 160, 192, 256, 320],
+    vbrLevels: false,
+    sampleRates: [...COMMON_RATES, 88200, 96000],
+    bitDepths: [],
+    encoder: 'aac'
+  },
+  opus: {
+    modes: ['vbr', 'cbr'],
+    bitrates: [16, 24, 32, 48, 64, 96, 128, 160, 192, 256],
+    vbrLevels: false,
+    // libopus only encodes at these rates
+    sampleRates: [8000, 12000, 16000, 24000, 48000],
+    bitDepths: [],
+    encoder: 'libopus'
+  },
+  vorbis: {
+    modes: ['vbr', 'cbr'],
+    bitrates: [64, 96, 128, 160, 192, 256, 320],
+    vbrLevels: true,
+    sampleRates: COMMON_RATES,
+    bitDepths: [],
+    encoder: 'libvorbis'
+  },
+  flac: {
+    modes: [],
+    bitrates: [],
+    vbrLevels: false,
+    sampleRates: HIGH_RATES,
+    bitDepths: [16, 24],
+    encoder: 'flac'
+  },
+  alac: {
+    modes: [],
+    bitrates: [],
+    vbrLevels: false,
+    sampleRates: HIGH_RATES,
+    bitDepths: [16, 24],
+    encoder: 'alac'
+  },
+  wav: {
+    modes: [],
+    bitrates: [],
+    vbrLevels: false,
+    sampleRates: HIGH_RATES,
+    bitDepths: [16, 24, 32],
+    encoder: 'pcm_s16le'
+  }
+};
+
+// Sample formats per bit depth; PCM picks a codec instead
+const SAMPLE_FORMAT_ARGS: Record<string, Record<number, string[]>> = {
+  flac: {
+    16: ['-sample_fmt', 's16'],
+    24: ['-sample_fmt', 's32', '-bits_per_raw_sample', '24']
+  },
+  alac: {
+    16: ['-sample_fmt', 's16p'],
+    24: ['-sample_fmt', 's32p', '-bits_per_raw_sample', '24']
+  }
+};
+
+// Rough average bitrates (kbps) of VBR levels 0-10, for size estimates
+const VBR_LEVEL_KBPS: Record<string, number[]> = {
+  mp3: [245, 225, 190, 175, 165, 130, 115, 100, 85, 65, 45],
+  vorbis: [500, 320, 256, 224, 192, 160, 128, 112, 96, 80, 64]
+};
+
+// Used when re-encoding without explicit options, close to what yt-dlp's best quality gives
+const REENCODE_DEFAULTS: Record<string, string[]> = {
+  mp3: ['-q:a', '0'],
+  aac: ['-b:a', '256k'],
+  m4a: ['-b:a', '256k'],
+  opus: ['-b:a', '192k'],
+  vorbis: ['-q:a', '10']
+};
+
+// YouTube audio is 48 kHz stereo, so that is what unset options resolve to
+const SOURCE_SAMPLE_RATE = 48000;
+const SOURCE_CHANNELS = 2;
+
+export function hasQualityOptions(quality: AudioQuality | undefined): quality is AudioQuality {
+  return !!quality && Object.values(quality).some(value => value !== undefined);
+}
+
+/**
+ * Checks quality options against what the target codec supports.
+ * Returns an error message, or null when valid.
+ */
+export function validateQuality(format: string, quality: unknown): string | null {
+  if (typeof quality !== 'object' || quality === null || Array.isArray(quality)) {
+    return 'Quality must be an object';
+  }
+
+  const { mode, bitrate, vbrLevel, sampleRate, channels, bitDepth } = quality as AudioQuality;
+  const codec = CODEC_CAPABILITIES[format];
+  if (!codec) {
+    return hasQualityOptions(quality as AudioQuality) ? `${format} does not take quality options` : null;
+  }
+
+  const label = format.toUpperCase();
+
+  if (mode !== undefined && !codec.modes.includes(mode)) {
+    return codec.modes.length > 0
+      ? `${label} supports ${codec.modes.map(m => m.toUpperCase()).join(' and ')} only`
+      : `${label} is lossless and has no bitrate setting`;
+  }
+
+  if (mode === 'cbr' && bitrate === undefined) {
+    return `${label} CBR needs a bitrate`;
+  }
+
+  const usesLevel = mode === 'vbr' && codec.vbrLevels;
+
+  if (bitrate !== undefined) {
+    if (usesLevel) {
+      return `${label} VBR is set by level, not bitrate`;
+    }
+    if (!codec.bitrates.includes(bitrate)) {
+      return codec.bitrates.length > 0
+        ? `${label} bitrate must be one of ${codec.bitrates.join(', ')} kbps`
+        : `${label} is lossless and has no bitrate setting`;
+    }
+  }
+
+  if (vbrLevel !== undefined) {
+    if (!usesLevel) {
+      return `A VBR level only applies to ${label} in VBR mode`;
+    }
+    if (!Number.isInteger(vbrLevel) || vbrLevel < 0 || vbrLevel > 10) {
+      return 'VBR level must be between 0 (best) and 10';
+    }
+  }
+
+  if (sampleRate !== undefined && !codec.sampleRates.includes(sampleRate)) {
+    return `${label} sample rate must be one of ${codec.sampleRates.join(', ')} Hz`;
+  }
+
+  if (channels !== undefined && channels !== 1 && channels !== 2) {
+    return 'Channels must be 1 (mono) or 2 (stereo)';
+  }
+
+  if (bitDepth !== undefined && !codec.bitDepths.includes(bitDepth)) {
+    return codec.bitDepths.length > 0
+      ? `${label} bit depth must be one of ${codec.bitDepths.join(', ')}`
+      : `${label} has no bit depth setting`;
+  }
+
+  return null;
+}
+
+/**
+ * yt-dlp arguments for the requested quality. Without options this is the
+ * previous behaviour: best VBR quality, source sample rate and channels.
+ */
+export function buildQualityArgs(format: string, quality: AudioQuality | undefined): string[] {
+  const codec = CODEC_CAPABILITIES[format];
+  if (!codec || !hasQualityOptions(quality)) {
+    return ['--audio-quality', '0'];
+  }
+
+  const { mode, bitrate, vbrLevel, sampleRate, channels, bitDepth } = quality;
+  const args: string[] = [];
+  const ffmpegArgs: string[] = [];
+
+  if (format === 'wav') {
+    ffmpegArgs.push('-c:a', `pcm_s${bitDepth ?? 16}le`);
+  } else {
+    ffmpegArgs.push('-c:a', codec.encoder);
+  }
+
+  if (mode === 'vbr' && codec.vbrLevels) {
+    args.push('--audio-quality', String(vbrLevel ?? 0));
+  } else if (bitrate !== undefined) {
+    args.push('--audio-quality', `${bitrate}K`);
+    ffmpegArgs.push('-b:a', `${bitrate}k`);
+  } else {
+    args.push('--audio-quality', '0');
+  }
+
+  if (format === 'opus' && mode !== undefined) {
+    ffmpegArgs.push('-vbr', mode === 'cbr' ? 'off' : 'on');
+  }
+
+  if (sampleRate !== undefined) {
+    ffmpegArgs.push('-ar', String(sampleRate));
+  }
+  if (channels !== undefined) {
+    ffmpegArgs.push('-ac', String(channels));
+  }
+  if (bitDepth !== undefined && SAMPLE_FORMAT_ARGS[format]) {
+    ffmpegArgs.push(...SAMPLE_FORMAT_ARGS[format][bitDepth]);
+  }
+
+  args.push('--postprocessor-args', `ExtractAudio:${ffmpegArgs.join(' ')}`);
+  return args;
+}
+
+/**
+ * ffmpeg encoder arguments for re-encoding an already converted file in the
+ * same format, e.g. after audio filters. Sample rate and channels are left
+ * alone since the file already has the requested ones.
+ */
+export function encoderArgs(format: string, quality: AudioQuality = {}): string[] {
+  const codec = CODEC_CAPABILITIES[format];
+  const { mode, bitrate, vbrLevel, bitDepth } = quality;
+  const args = ['-c:a', format === 'wav' ? `pcm_s${bitDepth ?? 16}le` : codec.encoder];
+
+  if (mode === 'vbr' && codec.vbrLevels) {
+    // Same mapping yt-dlp applies to --audio-quality: lame counts up, vorbis down
+    const level = vbrLevel ?? 0;
+    args.push('-q:a', String(format === 'vorbis' ? 10 - level : level));
+  } else if (bitrate !== undefined) {
+    args.push('-b:a', `${bitrate}k`);
+  } else {
+    args.push(...(REENCODE_DEFAULTS[format] ?? []));
+  }
+
+  if (format === 'opus' && mode !== undefined) {
+    args.push('-vbr', mode === 'cbr' ? 'off' : 'on');
+  }
+  if (bitDepth !== undefined && SAMPLE_FORMAT_ARGS[format]) {
+    args.push(...SAMPLE_FORMAT_ARGS[format][bitDepth]);
+  }
+
+  return args;
+}
+
+/**
+ * Estimated output size in bytes, or null when it can't be guessed
+ * (original quality, or "best" which depends on the source).
+ */
+export function estimateSize(format: string, quality: AudioQuality, duration: number): number | null {
+  const codec = CODEC_CAPABILITIES[format];
+  if (!codec || !duration) return null;
+
+  const sampleRate = quality.sampleRate ?? SOURCE_SAMPLE_RATE;
+  const channels = quality.channels ?? SOURCE_CHANNELS;
+
+  let kbps: number;
+  if (codec.modes.length === 0) {
+    // Lossless: PCM size, and FLAC/ALAC typically compress music to ~60%
+    const bitDepth = quality.bitDepth ?? 16;
+    const pcmKbps = (sampleRate * bitDepth * channels) / 1000;
+    kbps = format === 'wav' ? pcmKbps : pcmKbps * 0.6;
+  } else if (quality.mode === 'vbr' && codec.vbrLevels) {
+    kbps = VBR_LEVEL_KBPS[format][quality.vbrLevel ?? 0];
+  } else if (quality.bitrate !== undefined) {
+    kbps = quality.bitrate;
+  } else {
+    // Default is best VBR quality
+    kbps = VBR_LEVEL_KBPS[format]?.[0] ?? Math.max(...codec.bitrates);
+  }
+
+  return Math.round((kbps * 1000 * duration) / 8);
+}
+
+export const formatBytes = (bytes: number) => {
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  return `${(bytes / 1024 / 1024 / 1024).toFixed(2)} GB`;
+};
@@ -0,0 +1,113 @@
+import { createHash } from 'crypto';
+import { IncomingMessage, Server } from 'http';
+import { NextRequest, NextResponse } from 'next/server';
+import { validApiKey } from './auth';
+
+// Requests per minute to endpoints that start yt-dlp; 0 turns the limit off
+const IP_LIMIT = Math.max(0, parseInt(process.env.RATE_LIMIT_PER_MINUTE ?? '30', 10) || 0);
+const API_KEY_LIMIT = Math.max(0, parseInt(process.env.API_KEY_RATE_LIMIT_PER_MINUTE ?? '120', 10) || 0);
+
+// Reverse proxies in front of the server; forwarding headers are ignored without any
+const TRUST_PROXY = Math.max(0, parseInt(process.env.TRUST_PROXY || '0', 10) || 0);
+
+// Token buckets: each client starts full and refills `limit` tokens per minute
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+interface RateLimitStore {
+  buckets: Map<string, Bucket>;
+  prunedAt: number;
+}
+
+// Kept on globalThis so the counts survive module reloads in development
+const globalForRateLimit = globalThis as unknown as { rateLimitStore?: RateLimitStore };
+
+const store: RateLimitStore = globalForRateLimit.rateLimitStore ?? {
+  buckets: new Map(),
+  prunedAt: 0
+};
+globalForRateLimit.rateLimitStore = store;
+
+// Set from the connection a request came on, replacing whatever the client sent
+const CONNECTION_ADDRESS_HEADER = 'x-connection-address';
+
+/**
+ * Stamps every request the server receives with the address of its
+ * connection, which route handlers otherwise can't see. Called on server start.
+ */
+export function trackConnectionAddresses() {
+  const globalForServer = globalThis as unknown as { connectionAddressesTracked?: boolean };
+  if (globalForServer.connectionAddressesTracked) return;
+  globalForServer.connectionAddressesTracked = true;
+
+  const emit = Server.prototype.emit;
+  Server.prototype.emit = function (this: Server, event: string | symbol, ...args: unknown[]) {
+    if (event === 'request') {
+      const request = args[0] as IncomingMessage;
+      request.headers[CONNECTION_ADDRESS_HEADER] = request.socket.remoteAddress ?? 'unknown';
+    }
+    return emit.apply(this, [event, ...args] as Parameters<typeof emit>);
+  };
+}
+
+/**
+ * The client's address. Without TRUST_PROXY that is the connection's own,
+ * as clients can send forwarding headers themselves. Behind proxies it is
+ * the X-Forwarded-For entry the outermost one added.
+ */
+export function clientAddress(request: NextRequest): string {
+  const connection = request.headers.get(CONNECTION_ADDRESS_HEADER) || 'unknown';
+  if (TRUST_PROXY === 0) return connection;
+
+  const forwarded = (request.headers.get('x-forwarded-for') ?? '').split(',').map(entry => entry.trim()).filter(Boolean);
+  if (forwarded.length > 0) {
+    // Entries left of those the proxies appended came from the client
+    return forwarded[Math.max(0, forwarded.length - TRUST_PROXY)];
+  }
+  return request.headers.get('x-real-ip') || connection;
+}
+
+/**
+ * Counts a request against its API key, or its address when it has none.
+ * Returns a 429 response once the client is over its limit, else null.
+ */
+export function rateLimit(request: NextRequest): NextResponse | null {
+  const apiKey = validApiKey(request);
+  const limit = apiKey ? API_KEY_LIMIT : IP_LIMIT;
+  if (limit === 0) return null;
+
+  // Keys are hashed so they don't sit in memory in plain text
+  const id = apiKey
+    ? `key:${createHash('sha256').update(apiKey).digest('hex')}`
+    : `ip:${clientAddress(request)}`;
+
+  const now = Date.now();
+  pruneBuckets(now);
+
+  const bucket = store.buckets.get(id) ?? { tokens: limit, updatedAt: now };
+  bucket.tokens = Math.min(limit, bucket.tokens + ((now - bucket.updatedAt) / 60_000) * limit);
+  bucket.updatedAt = now;
+  store.buckets.set(id, bucket);
+
+  if (bucket.tokens < 1) {
+    const retryAfter = Math.ceil(((1 - bucket.tokens) * 60) / limit);
+    return NextResponse.json(
+      { error: `Too many requests, try again in ${retryAfter}s`, code: 'rate_limited' },
+      { status: 429, headers: { 'Retry-After': String(retryAfter) } }
+    );
+  }
+
+  bucket.tokens -= 1;
+  return null;
+}
+
+// A bucket untouched for a minute is full again, the same as having none
+function pruneBuckets(now: number) {
+  if (now - store.prunedAt < 60_000) return;
+  store.prunedAt = now;
+  for (const [id, bucket] of store.buckets) {
+    if (now - bucket.updatedAt >= 60_000) store.buckets.delete(id);
+  }
+}
@@ -0,0 +1,286 @@
+import { copyFile, mkdir, readFile, rename, rm, writeFile } from 'fs/promises';
+import { extname, join, resolve } from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import type { ConvertedFile } from './download';
+import { ApiError } from './error-codes';
+import { logger } from './logger';
+import { signPath, verifySignedPath } from './signed-links';
+
+export interface Share {
+  id: string;
+  filename: string;
+  size: number;
+  createdAt: number;
+  expiresAt: number;
+  // Null means no limit
+  maxDownloads: number | null;
+  downloads: number;
+}
+
+// Where shared files are kept until their link expires
+const SHARES_DIR = resolve(process.env.SHARES_DIR || join(process.cwd(), '.shares'));
+
+// Longest a share link may last
+const SHARE_MAX_HOURS = Math.max(1, parseInt(process.env.SHARE_MAX_HOURS || '168', 10) || 168);
+
+const DEFAULT_HOURS = Math.min(24, SHARE_MAX_HOURS);
+
+// How often expired shares are deleted
+const SWEEP_INTERVAL_MS = 5 * 60 * 1000;
+
+// Unfinished downloads nobody resumed for this long are given up
+const TRANSFER_IDLE_MS = 30 * 60 * 1000;
+
+const INDEX_FILE = join(SHARES_DIR, 'shares.json');
+
+// A counted download, which may take several requests to finish
+interface Transfer {
+  shareId: string;
+  // Sent so far, across resumed requests
+  bytes: number;
+  // Requests still sending, and when one last started or ended
+  requests: number;
+  updatedAt: number;
+}
+
+interface ShareStore {
+  shares: Map<string, Share> | null;
+  // By transfer id; not persisted, so a restart counts unfinished downloads again
+  transfers: Map<string, Transfer>;
+  // Index writes run one after another
+  pending: Promise<unknown>;
+  sweeper: NodeJS.Timeout | null;
+}
+
+// Kept on globalThis so the index survives module reloads in development
+const globalForShares = globalThis as unknown as { shareStore?: ShareStore };
+
+const store: ShareStore = globalForShares.shareStore ?? {
+  shares: null,
+  transfers: new Map(),
+  pending: Promise.resolve(),
+  sweeper: null
+};
+globalForShares.shareStore = store;
+
+async function loadShares(): Promise<Map<string, Share>> {
+  if (store.shares) return store.shares;
+
+  let shares: Share[] = [];
+  try {
+    shares = JSON.parse(await readFile(INDEX_FILE, 'utf8'));
+  } catch {
+    // Missing or unreadable index: start empty
+  }
+  store.shares = new Map(shares.map(share => [share.id, share]));
+  return store.shares;
+}
+
+async function saveShares(shares: Map<string, Share>) {
+  await mkdir(SHARES_DIR, { recursive: true });
+  const temp = `${INDEX_FILE}.tmp`;
+  await writeFile(temp, JSON.stringify([...shares.values()], null, 2));
+  await rename(temp, INDEX_FILE);
+}
+
+function serialize<T>(task: () => Promise<T>): Promise<T> {
+  const result = store.pending.then(task);
+  store.pending = result.catch(() => {});
+  return result;
+}
+
+function sharePath(share: Share): string {
+  return join(SHARES_DIR, `${share.id}${extname(share.filename)}`);
+}
+
+export function shareFile(share: Share): ConvertedFile {
+  return { filename: share.filename, filePath: sharePath(share), size: share.size };
+}
+
+// Path of the file route; the signature covers the share id and the expiry
+function filePath(id: string): string {
+  return `/api/v1/shares/${id}/file`;
+}
+
+export function toShareSnapshot(share: Share) {
+  return { ...share, url: signPath(filePath(share.id), share.expiresAt) };
+}
+
+function isUsedUp(share: Share): boolean {
+  return share.maxDownloads !== null && share.downloads >= share.maxDownloads;
+}
+
+function isLive(transfer: Transfer, now = Date.now()): boolean {
+  return transfer.requests > 0 || now - transfer.updatedAt < TRANSFER_IDLE_MS;
+}
+
+function hasLiveTransfers(shareId: string, now = Date.now()): boolean {
+  return [...store.transfers.values()].some(transfer => transfer.shareId === shareId && isLive(transfer, now));
+}
+
+function forgetTransfers(shareId: string) {
+  for (const [id, transfer] of store.transfers) {
+    if (transfer.shareId === shareId) store.transfers.delete(id);
+  }
+}
+
+/**
+ * Checks share options. Returns an error message, or null when valid.
+ */
+export function validateShareOptions({ expiresInHours, maxDownloads }: { expiresInHours?: number; maxDownloads?: number }): string | null {
+  if (expiresInHours !== undefined && (!Number.isInteger(expiresInHours) || expiresInHours < 1 || expiresInHours > SHARE_MAX_HOURS)) {
+    return `Share links can last from 1 to ${SHARE_MAX_HOURS} hours`;
+  }
+  if (maxDownloads !== undefined && (!Number.isInteger(maxDownloads) || maxDownloads < 1)) {
+    return 'Max downloads must be a whole number of at least 1';
+  }
+  return null;
+}
+
+export async function listShares(): Promise<Share[]> {
+  const now = Date.now();
+  return [...(await loadShares()).values()]
+    .filter(share => share.expiresAt > now)
+    .sort((a, b) => b.createdAt - a.createdAt);
+}
+
+/**
+ * Keeps a copy of a converted file and returns the share for it. The copy
+ * outlives the job, which deletes its own file once downloaded.
+ */
+export function createShare(file: ConvertedFile, { expiresInHours = DEFAULT_HOURS, maxDownloads }: {
+  expiresInHours?: number;
+  maxDownloads?: number;
+}): Promise<Share> {
+  return serialize(async () => {
+    const shares = await loadShares();
+    const now = Date.now();
+    const share: Share = {
+      id: uuidv4(),
+      filename: file.filename,
+      size: file.size,
+      createdAt: now,
+      expiresAt: now + expiresInHours * 60 * 60 * 1000,
+      maxDownloads: maxDownloads ?? null,
+      downloads: 0
+    };
+    await mkdir(SHARES_DIR, { recursive: true });
+    await copyFile(file.filePath, sharePath(share));
+    shares.set(share.id, share);
+    await saveShares(shares);
+    return share;
+  });
+}
+
+/**
+ * Revokes a share: the link stops working and the file is deleted.
+ */
+export function deleteShare(id: string): Promise<boolean> {
+  return serialize(async () => {
+    const shares = await loadShares();
+    const share = shares.get(id);
+    if (!share) return false;
+    shares.delete(id);
+    forgetTransfers(id);
+    await rm(sharePath(share), { force: true });
+    await saveShares(shares);
+    return true;
+  });
+}
+
+/**
+ * Checks a signed link and returns the share with the id of the transfer
+ * the request belongs to. `transferId` comes from an earlier request of the
+ * same client: while less than the whole file has been sent under it, the
+ * request resumes that download. Any other request counts a new one.
+ * Throws `unauthorized` for bad signatures and `not_found` once the share is
+ * used up or gone.
+ */
+export function openShare(id: string, params: URLSearchParams, transferId: string | null): Promise<{ share: Share; transferId: string }> {
+  return serialize(async () => {
+    if (!verifySignedPath(filePath(id), params)) {
+      throw new ApiError('unauthorized', 'This link is invalid or has expired');
+    }
+
+    const shares = await loadShares();
+    const share = shares.get(id);
+    const transfer = transferId ? store.transfers.get(transferId) : undefined;
+    const resuming = !!share && transfer?.shareId === id && transfer.bytes < share.size && isLive(transfer);
+    if (!share || share.expiresAt <= Date.now() || (!resuming && isUsedUp(share))) {
+      throw new ApiError('not_found', 'This link has expired or reached its download limit');
+    }
+    if (resuming) {
+      transfer.requests++;
+      transfer.updatedAt = Date.now();
+      return { share, transferId: transferId! };
+    }
+
+    share.downloads++;
+    await saveShares(shares);
+    const created = uuidv4();
+    store.transfers.set(created, { shareId: id, bytes: 0, requests: 1, updatedAt: Date.now() });
+    return { share, transferId: created };
+  });
+}
+
+/**
+ * Records what a request sent. A transfer ends once the whole file's worth
+ * was sent, or TRANSFER_IDLE_MS after its last request when it wasn't; a
+ * share whose downloads ran out is deleted when its last transfer ends.
+ */
+export async function finishShareDownload(transferId: string, bytes: number): Promise<void> {
+  const transfer = store.transfers.get(transferId);
+  if (!transfer) return;
+
+  const share = (await loadShares()).get(transfer.shareId);
+  transfer.bytes += bytes;
+  transfer.requests--;
+  transfer.updatedAt = Date.now();
+  if (!share || transfer.bytes >= share.size) {
+    store.transfers.delete(transferId);
+  }
+
+  if (share && isUsedUp(share) && !hasLiveTransfers(share.id)) {
+    await deleteShare(share.id);
+  }
+}
+
+/**
+ * Deletes shares whose links have expired, and used-up ones whose unfinished
+ * downloads were given up. Returns how many were removed.
+ */
+export function sweepShares(): Promise<number> {
+  return serialize(async () => {
+    const shares = await loadShares();
+    const now = Date.now();
+    for (const [id, transfer] of store.transfers) {
+      if (!isLive(transfer, now)) store.transfers.delete(id);
+    }
+    const expired = [...shares.values()].filter(share =>
+      share.expiresAt <= now || (isUsedUp(share) && !hasLiveTransfers(share.id, now))
+    );
+    for (const share of expired) {
+      shares.delete(share.id);
+      forgetTransfers(share.id);
+      await rm(sharePath(share), { force: true });
+    }
+    if (expired.length > 0) await saveShares(shares);
+    return expired.length;
+  });
+}
+
+/**
+ * Sweeps once now and then every 5 minutes. Called on server start.
+ */
+export function startShareSweeper() {
+  if (store.sweeper) return;
+
+  const sweep = () => sweepShares()
+    .then((removed) => {
+      if (removed > 0) logger.info('Removed expired and used-up shares', { removed });
+    })
+    .catch((error) => logger.error('Error sweeping shares', { error }));
+
+  void sweep();
+  store.sweeper = setInterval(sweep, SWEEP_INTERVAL_MS).unref();
+}
@@ -0,0 +1,33 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+// Key for signing links. Without LINK_SECRET a random one is made at start,
+// so links stop working when the server restarts
+const globalForLinks = globalThis as unknown as { linkSecret?: Buffer };
+const LINK_SECRET = process.env.LINK_SECRET
+  ? Buffer.from(process.env.LINK_SECRET)
+  : (globalForLinks.linkSecret ??= randomBytes(32));
+
+function signature(path: string, expires: number): string {
+  return createHmac('sha256', LINK_SECRET).update(`${path}\n${expires}`).digest('base64url');
+}
+
+/**
+ * Adds an expiry and a signature to a path, so it can be fetched without
+ * credentials until `expiresAt` (milliseconds since the epoch).
+ */
+export function signPath(path: string, expiresAt: number): string {
+  const expires = Math.floor(expiresAt / 1000);
+  return `${path}?expires=${expires}&signature=${signature(path, expires)}`;
+}
+
+/**
+ * Checks the expiry and signature query parameters of a signed path.
+ */
+export function verifySignedPath(path: string, params: URLSearchParams): boolean {
+  const expires = Number(params.get('expires'));
+  const given = Buffer.from(params.get('signature') ?? '');
+  if (!Number.isInteger(expires) || expires * 1000 < Date.now()) return false;
+
+  const expected = Buffer.from(signature(path, expires));
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
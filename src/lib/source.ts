@@ -0,0 +1,41 @@
+// Which source stream yt-dlp downloads; shared by the server and the page
+
+// Preferences accepted as `formatId` besides the exact ids listed by /api/info
+export const SOURCE_PREFERENCES: Record<string, { label: string; selector: string }> = {
+  'best': { label: 'Best available', selector: 'bestaudio/best' },
+  'best-m4a': { label: 'Best M4A (AAC)', selector: 'bestaudio[ext=m4a]' },
+  'best-opus': { label: 'Best Opus', selector: 'bestaudio[acodec=opus]' }
+};
+
+const formatIdRegex = /^[\w-]{1,32}$/;
+
+export function isSourcePreference(formatId: string): boolean {
+  return formatId in SOURCE_PREFERENCES;
+}
+
+export function isValidFormatId(formatId: unknown): formatId is string {
+  return typeof formatId === 'string' && formatIdRegex.test(formatId);
+}
+
+// yt-dlp `-f` value for a preference or an exact format id
+export function formatSelector(formatId: string): string {
+  return SOURCE_PREFERENCES[formatId]?.selector ?? formatId;
+}
+
+/**
+ * The audio format a stream ends up as when remuxed without re-encoding,
+ * named like the entries of AUDIO_FORMATS.
+ */
+export function passthroughFormat(acodec: string): string {
+  if (acodec.startsWith('mp4a')) return 'm4a';
+  if (acodec === 'mp3' || acodec === 'flac' || acodec === 'opus' || acodec === 'vorbis') return acodec;
+  return 'opus';
+}
+
+/**
+ * Best guess at the passthrough format before the stream is known.
+ * YouTube's best audio is Opus unless M4A was asked for.
+ */
+export function guessPassthroughFormat(formatId: string | undefined): string {
+  return formatId === 'best-m4a' ? 'm4a' : 'opus';
+}
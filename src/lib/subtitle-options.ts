@@ -0,0 +1,85 @@
+// Subtitle options; shared by the download route (validation) and the page
+
+import { PostProcessing, shiftsTimestamps } from './postprocess-options';
+
+export type SubtitleFormat = 'srt' | 'vtt' | 'txt';
+
+// 'only' delivers just the subtitles, 'lyrics' writes the transcript into the
+// audio's lyrics tag and 'sidecar' zips the subtitle file with the audio
+export type SubtitleMode = 'only' | 'lyrics' | 'sidecar';
+
+export interface SubtitleOptions {
+  // Language key from /api/info, e.g. "en", "pt-BR" or "en-orig"
+  language: string;
+  // The site's automatic captions rather than subtitles uploaded with the video
+  automatic?: boolean;
+  // Defaults to SRT; lyrics are always plain text
+  format?: SubtitleFormat;
+  mode: SubtitleMode;
+}
+
+export const SUBTITLE_FORMATS: { value: SubtitleFormat; label: string; desc: string }[] = [
+  { value: 'srt', label: 'SRT', desc: 'Most players and editors' },
+  { value: 'vtt', label: 'VTT', desc: 'Web players' },
+  { value: 'txt', label: 'Text', desc: 'Plain transcript' }
+];
+
+// Containers with a lyrics tag ffmpeg can write
+export const LYRICS_SUPPORTED = ['mp3', 'm4a', 'alac'];
+
+const LANGUAGE_PATTERN = /^[A-Za-z0-9-]{1,32}$/;
+
+/**
+ * Checks subtitle options on their own. Returns an error message, or null when valid.
+ */
+export function validateSubtitles(subtitles: unknown): string | null {
+  if (typeof subtitles !== 'object' || subtitles === null || Array.isArray(subtitles)) {
+    return 'Subtitles must be an object';
+  }
+
+  const { language, automatic, format, mode } = subtitles as SubtitleOptions;
+  if (typeof language !== 'string' || !LANGUAGE_PATTERN.test(language)) {
+    return 'Invalid subtitle language';
+  }
+  if (automatic !== undefined && typeof automatic !== 'boolean') {
+    return 'Automatic captions must be true or false';
+  }
+  if (format !== undefined && !SUBTITLE_FORMATS.some(f => f.value === format)) {
+    return 'Invalid subtitle format';
+  }
+  if (mode !== 'only' && mode !== 'lyrics' && mode !== 'sidecar') {
+    return 'Invalid subtitle mode';
+  }
+  return null;
+}
+
+/**
+ * Checks subtitles bundled with the audio against the other options.
+ * `target` is the output format, or undefined while it isn't known yet.
+ */
+export function checkSubtitleCombination(
+  subtitles: SubtitleOptions,
+  { target, chapters, clipped, postProcessing }: {
+    target?: string;
+    chapters?: 'split' | 'embed';
+    clipped: boolean;
+    postProcessing?: PostProcessing;
+  }
+): string | null {
+  if (subtitles.mode === 'only') return null;
+
+  if (chapters === 'split') {
+    return 'Subtitles cannot be bundled with a track per chapter';
+  }
+  // Timestamps would be off, and yt-dlp doesn't cut subtitles to the section
+  if (clipped) {
+    return 'Subtitles cannot be bundled with a clip';
+  }
+  if (subtitles.mode === 'lyrics' && target !== undefined && !LYRICS_SUPPORTED.includes(target)) {
+    return 'Lyrics tags are only supported for MP3 and M4A';
+  }
+  if (subtitles.mode === 'sidecar' && subtitles.format !== 'txt' && postProcessing && shiftsTimestamps(postProcessing)) {
+    return 'Silence trimming and speed changes would put the subtitles out of sync';
+  }
+  return null;
+}
@@ -0,0 +1,124 @@
+import { readdir, readFile, rename, stat, unlink, writeFile } from 'fs/promises';
+import { extname, join } from 'path';
+import type { ConvertedFile } from './download';
+import { ApiError } from './error-codes';
+import { runFfmpeg } from './ffmpeg';
+import type { SubtitleOptions } from './subtitle-options';
+import { writeZipFile } from './zip';
+
+const SUBTITLE_EXTENSIONS = ['.srt', '.vtt', '.txt'];
+
+export function isSubtitleFile(filename: string): boolean {
+  return SUBTITLE_EXTENSIONS.includes(extname(filename).toLowerCase());
+}
+
+/**
+ * yt-dlp arguments that write the requested subtitles next to the output.
+ * Plain-text transcripts are made from VTT afterwards, see readSubtitles.
+ */
+export function buildSubtitleArgs({ language, automatic, format = 'srt' }: SubtitleOptions): string[] {
+  return [
+    automatic ? '--write-auto-subs' : '--write-subs',
+    '--sub-langs', language,
+    '--sub-format', 'vtt/srt/best',
+    '--convert-subs', format === 'srt' ? 'srt' : 'vtt'
+  ];
+}
+
+/**
+ * Turns WebVTT into a plain transcript: cue text only, without timings,
+ * styling tags or the repeated lines of rolling automatic captions.
+ */
+export function vttToText(vtt: string): string {
+  const lines: string[] = [];
+
+  for (const block of vtt.replace(/\r/g, '').split(/\n{2,}/)) {
+    const cue = block.split('\n');
+    const timing = cue.findIndex(line => line.includes('-->'));
+    if (timing === -1) continue;
+
+    for (const raw of cue.slice(timing + 1)) {
+      const line = raw
+        .replace(/<[^>]*>/g, '')
+        .replace(/&nbsp;/g, ' ')
+        .replace(/&amp;/g, '&')
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .trim();
+      if (line && !lines.slice(-2).includes(line)) lines.push(line);
+    }
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Finds the subtitle file yt-dlp wrote into `dir` and converts it to the
+ * requested format. Throws `subtitles_unavailable` when there is none.
+ */
+export async function readSubtitles(dir: string, { language, format = 'srt' }: SubtitleOptions): Promise<ConvertedFile> {
+  const filename = (await readdir(dir)).find(isSubtitleFile);
+  if (!filename) {
+    throw new ApiError('subtitles_unavailable', `No subtitles in "${language}" were found for this video`);
+  }
+
+  let filePath = join(dir, filename);
+  if (format === 'txt') {
+    const text = vttToText(await readFile(filePath, 'utf8'));
+    await unlink(filePath);
+    filePath = filePath.replace(/\.[^.]+$/, '.txt');
+    await writeFile(filePath, text);
+  }
+
+  const name = filePath.slice(dir.length + 1);
+  return { filename: name, filePath, size: (await stat(filePath)).size };
+}
+
+// ffmetadata values escape these characters with a backslash
+const escapeMetadata = (value: string) => value.replace(/[=;#\\\n]/g, (char) => `\\${char}`);
+
+/**
+ * Writes `text` into the lyrics tag of `file`, replacing it in place. The
+ * transcript goes through a metadata file, as it can be longer than a
+ * command-line argument may be.
+ */
+export async function embedLyrics(file: ConvertedFile, text: string, signal?: AbortSignal): Promise<void> {
+  const ext = extname(file.filename);
+  const base = file.filePath.slice(0, -ext.length);
+  const metadataPath = `${base}.ffmetadata`;
+  const output = `${base}.lyrics${ext}`;
+
+  // The existing tags, so replacing the global metadata keeps them
+  await runFfmpeg(['-i', file.filePath, '-f', 'ffmetadata', metadataPath], signal);
+  await writeFile(metadataPath, `${(await readFile(metadataPath, 'utf8')).trimEnd()}\nlyrics=${escapeMetadata(text.trim())}\n`);
+
+  await runFfmpeg([
+    '-i', file.filePath,
+    '-f', 'ffmetadata', '-i', metadataPath,
+    '-map', '0',
+    '-map_metadata', '1',
+    '-c', 'copy',
+    ...(ext === '.mp3' ? ['-id3v2_version', '3'] : []),
+    output
+  ], signal);
+
+  await unlink(metadataPath);
+  await unlink(file.filePath);
+  await rename(output, file.filePath);
+}
+
+/**
+ * Zips the audio with its subtitle file, which yt-dlp named after it.
+ */
+export async function bundleSubtitles(file: ConvertedFile, subtitles: ConvertedFile): Promise<ConvertedFile> {
+  const base = file.filename.replace(/\.[^.]+$/, '');
+  const filename = `${base}.zip`;
+  const filePath = join(file.filePath, '..', filename);
+
+  await writeZipFile([
+    { path: file.filePath, name: file.filename },
+    { path: subtitles.filePath, name: subtitles.filename }
+  ], filePath);
+
+  return { ...file, filename, filePath, size: (await stat(filePath)).size };
+}
@@ -0,0 +1,208 @@
+import { classifyYtDlpError } from './errors';
+import { withNetworkArgs } from './network';
+import { runProcess, TIMEOUTS } from './process';
+import { acquireYtDlpSlot, ytDlpDuration } from './ytdlp';
+import type { components } from './api-types';
+
+// The shapes /api/v1/info answers with, generated from openapi.json; the
+// route adds `provider`
+type Schemas = components['schemas'];
+export type VideoFormat = Schemas['VideoFormat'];
+export type VideoStream = Schemas['VideoStream'];
+export type Chapter = Schemas['Chapter'];
+export type SubtitleTrack = Schemas['SubtitleTrack'];
+export type VideoInfo = Omit<Schemas['VideoInfo'], 'provider'>;
+export type PlaylistEntry = Schemas['PlaylistEntry'];
+export type PlaylistInfo = Omit<Schemas['PlaylistInfo'], 'provider'>;
+export type VideoDetails = Schemas['VideoDetails'];
+
+// One yt-dlp lookup: what the page needs to pick a download, and the rest
+export interface VideoLookup {
+  info: VideoInfo;
+  details: VideoDetails;
+}
+
+// The fields read from yt-dlp's format list
+interface RawFormat {
+  format_id: string;
+  ext: string;
+  acodec: string;
+  vcodec: string;
+  abr?: number;
+  tbr?: number;
+  width?: number;
+  height?: number;
+  fps?: number;
+  filesize?: number;
+  format_note?: string;
+  audio_ext: string;
+}
+
+// yt-dlp's subtitles and automatic_captions: language key to the files on offer
+type RawSubtitles = Record<string, { ext: string; name?: string }[]>;
+
+/**
+ * Lists the subtitle languages of a video. Automatic captions come machine
+ * translated into every language; only the original track (or the video's
+ * own language) is kept unless that is all there is.
+ */
+function listSubtitles(data: { subtitles?: RawSubtitles; automatic_captions?: RawSubtitles; language?: string }): SubtitleTrack[] {
+  const toTracks = (raw: RawSubtitles, automatic: boolean) => Object.entries(raw)
+    .filter(([language, files]) => language !== 'live_chat' && files.length > 0)
+    .map(([language, files]) => ({ language, name: files[0].name || language, automatic }));
+
+  const automatic = toTracks(data.automatic_captions || {}, true);
+  const originals = automatic.filter(t => t.language.endsWith('-orig') || t.language === data.language);
+
+  return [...toTracks(data.subtitles || {}, false), ...(originals.length > 0 ? originals : automatic)];
+}
+
+export interface LookupOptions {
+  signal?: AbortSignal;
+  // Pass the server's cookie jar; check the caller may use it first
+  cookies?: boolean;
+}
+
+async function runYtDlpJson(args: string[], { signal, cookies }: LookupOptions): Promise<string> {
+  const release = await acquireYtDlpSlot(signal);
+  const stopTimer = ytDlpDuration.startTimer({ kind: 'info' });
+  let status = 'error';
+  try {
+    let stdout = '';
+    let stderr = '';
+    const code = await withNetworkArgs(cookies, (networkArgs) => runProcess('yt-dlp', [...networkArgs, ...args], {
+      signal,
+      timeout: TIMEOUTS.info,
+      onStdout: (data) => {
+        stdout += data;
+      },
+      onStderr: (data) => {
+        stderr += data;
+      }
+    }));
+    if (code !== 0) {
+      throw classifyYtDlpError(stderr);
+    }
+    status = 'ok';
+    return stdout;
+  } finally {
+    stopTimer({ status });
+    release();
+  }
+}
+
+/**
+ * Looks a video up with yt-dlp. `id` is the canonical id the details are
+ * filed under. Most callers want the cached lookups in info-cache.ts.
+ */
+export async function fetchVideo(url: string, id: string, options: LookupOptions = {}): Promise<VideoLookup> {
+  const stdout = await runYtDlpJson(['-j', '--no-warnings', '--no-playlist', url], options);
+
+  let data;
+  try {
+    data = JSON.parse(stdout);
+  } catch {
+    throw new Error('Failed to parse video info');
+  }
+
+  // Filter audio-only formats; some sites (Bandcamp, SoundCloud) leave vcodec out
+  const audioFormats = (data.formats || [])
+    .filter((f: RawFormat) =>
+      (f.vcodec === 'none' || !f.vcodec) && f.acodec !== 'none'
+    )
+    .map((f: RawFormat): VideoFormat => ({
+      format_id: f.format_id,
+      ext: f.audio_ext || f.ext,
+      acodec: f.acodec || f.ext,
+      abr: f.abr,
+      filesize: f.filesize,
+      format_note: f.format_note
+    }));
+
+  // Streams with a picture; storyboards and the like have no height
+  const videoFormats = (data.formats || [])
+    .filter((f: RawFormat) => f.vcodec && f.vcodec !== 'none' && f.height)
+    .map((f: RawFormat): VideoStream => ({
+      format_id: f.format_id,
+      ext: f.ext,
+      vcodec: f.vcodec,
+      acodec: f.acodec || 'none',
+      width: f.width,
+      height: f.height,
+      fps: f.fps,
+      tbr: f.tbr,
+      filesize: f.filesize,
+      format_note: f.format_note
+    }))
+    .sort((a: VideoStream, b: VideoStream) => (b.height ?? 0) - (a.height ?? 0) || (b.tbr ?? 0) - (a.tbr ?? 0));
+
+  const chapters: Chapter[] = (data.chapters || []).map((c: Chapter, index: number) => ({
+    title: c.title || `Chapter ${index + 1}`,
+    start_time: c.start_time,
+    end_time: c.end_time
+  }));
+
+  const info: VideoInfo = {
+    type: 'video',
+    title: data.title,
+    thumbnail: data.thumbnail,
+    duration: data.duration,
+    uploader: data.uploader || data.artist || data.channel || '',
+    description: data.description || '',
+    upload_date: data.upload_date ?? null,
+    formats: audioFormats,
+    videoFormats,
+    chapters,
+    subtitles: listSubtitles(data)
+  };
+
+  const details: VideoDetails = {
+    id,
+    url: data.webpage_url || url,
+    title: data.title,
+    uploader: info.uploader,
+    channel_url: data.channel_url || data.uploader_url || null,
+    description: info.description,
+    upload_date: info.upload_date,
+    duration: info.duration,
+    view_count: data.view_count ?? null,
+    like_count: data.like_count ?? null,
+    tags: data.tags || [],
+    categories: data.categories || [],
+    chapters,
+    fetchedAt: Date.now()
+  };
+
+  return { info, details };
+}
+
+export async function getPlaylistInfo(url: string, options: LookupOptions = {}): Promise<PlaylistInfo> {
+  // --flat-playlist lists the entries without resolving each video
+  const stdout = await runYtDlpJson(['-J', '--flat-playlist', '--no-warnings', url], options);
+
+  let data;
+  try {
+    data = JSON.parse(stdout);
+  } catch {
+    throw new Error('Failed to parse playlist info');
+  }
+
+  const entries: PlaylistEntry[] = (data.entries || [])
+    .filter((e: { id?: string; _type?: string }) => e.id && e._type !== 'playlist')
+    .map((e: { id: string; title?: string; duration?: number }) => ({
+      id: e.id,
+      title: e.title || e.id,
+      duration: e.duration ?? null
+    }));
+
+  const thumbnails: { url: string }[] = data.thumbnails || [];
+
+  return {
+    type: 'playlist',
+    id: data.id,
+    title: data.title,
+    uploader: data.uploader || data.channel || '',
+    thumbnail: thumbnails.length > 0 ? thumbnails[thumbnails.length - 1].url : null,
+    entries
+  };
+}
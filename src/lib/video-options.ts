@@ -0,0 +1,87 @@
+// Video download options; shared by the download route (validation) and the page
+
+import type { CoverMode } from './cover';
+import { hasPostProcessing, PostProcessing } from './postprocess-options';
+import { AudioQuality } from './quality';
+import { isValidFormatId } from './source';
+import type { SubtitleOptions } from './subtitle-options';
+
+export type VideoContainer = 'mp4' | 'mkv' | 'webm';
+
+export interface VideoOptions {
+  // Tallest resolution to download, e.g. 1080; the best available when omitted
+  height?: number;
+  // Exact video stream from /api/info; takes precedence over height
+  formatId?: string;
+  container: VideoContainer;
+  // Merge in the best audio stream (default), or keep the picture only
+  audio?: boolean;
+}
+
+export const VIDEO_CONTAINERS: { value: VideoContainer; label: string; desc: string }[] = [
+  { value: 'mp4', label: 'MP4', desc: 'Plays everywhere, including slide decks' },
+  { value: 'mkv', label: 'MKV', desc: 'Any codec, never re-encoded' },
+  { value: 'webm', label: 'WebM', desc: 'VP9 or AV1, for the web' }
+];
+
+const MAX_HEIGHT = 4320;
+
+export function isVideoContainer(value: unknown): value is VideoContainer {
+  return VIDEO_CONTAINERS.some(c => c.value === value);
+}
+
+/**
+ * Checks video options on their own. Returns an error message, or null when valid.
+ */
+export function validateVideoOptions(video: unknown): string | null {
+  if (typeof video !== 'object' || video === null || Array.isArray(video)) {
+    return 'Video options must be an object';
+  }
+
+  const { height, formatId, container, audio } = video as VideoOptions;
+  if (!isVideoContainer(container)) {
+    return 'Invalid video container';
+  }
+  if (height !== undefined && (!Number.isInteger(height) || height < 1 || height > MAX_HEIGHT)) {
+    return `Video height must be a whole number of pixels up to ${MAX_HEIGHT}`;
+  }
+  if (formatId !== undefined && !isValidFormatId(formatId)) {
+    return 'Invalid video format';
+  }
+  if (audio !== undefined && typeof audio !== 'boolean') {
+    return 'Video audio must be true or false';
+  }
+  return null;
+}
+
+/**
+ * Checks the rest of a request against video mode, where the audio
+ * extraction options don't apply.
+ */
+export function checkVideoCombination({ format, original, formatId, quality, postProcessing, chapters, cover, subtitles }: {
+  format?: string;
+  original?: boolean;
+  formatId?: string;
+  quality?: AudioQuality;
+  postProcessing?: PostProcessing;
+  chapters?: 'split' | 'embed';
+  cover?: CoverMode;
+  subtitles?: SubtitleOptions;
+}): string | null {
+  if (format !== undefined || original || formatId !== undefined) {
+    return 'Video downloads choose their streams with the video options, not format, original or formatId';
+  }
+  if (quality !== undefined || hasPostProcessing(postProcessing)) {
+    return 'Audio quality options and filters don\'t apply to video downloads';
+  }
+  if (chapters === 'split') {
+    return 'Video downloads cannot be split into chapters';
+  }
+  if (cover === 'square' || cover === 'custom') {
+    return 'Cropped or custom covers are only supported for audio';
+  }
+  if (subtitles && subtitles.mode !== 'sidecar') {
+    return 'Subtitles can only be zipped with a video';
+  }
+  return null;
+}
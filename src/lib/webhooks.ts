@@ -0,0 +1,199 @@
+import { createHmac } from 'crypto';
+import type { LookupAddress } from 'dns';
+import { lookup } from 'dns/promises';
+import { request as httpRequest } from 'http';
+import { request as httpsRequest } from 'https';
+import { isIP } from 'net';
+import { extname } from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import type { components } from './api-types';
+import { getVideoInfo } from './info-cache';
+import type { Job } from './jobs';
+import { outputDuration } from './limits';
+import { logger } from './logger';
+import { signPath } from './signed-links';
+import { targetFormatOf } from './ytdlp';
+
+// Key the payloads are signed with; callbacks are refused until it is set
+const WEBHOOK_SECRET = process.env.WEBHOOK_SECRET || '';
+
+// Deliveries tried per callback, waiting twice as long after each failure
+const MAX_ATTEMPTS = Math.max(1, parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '5', 10) || 5);
+const FIRST_RETRY_MS = 10 * 1000;
+
+// How long the receiver may take to answer one delivery
+const DELIVERY_TIMEOUT_MS = 10 * 1000;
+
+// Where a job reports back, and the address its file link is built on
+export interface WebhookTarget {
+  url: string;
+  origin: string;
+}
+
+// Body of a delivery, as documented in openapi.json
+export type WebhookPayload = components['schemas']['WebhookPayload'];
+
+// Loopback, private, shared (CGNAT), link-local and multicast addresses, so
+// callbacks can't reach services behind the server
+function isPrivateAddress(address: string): boolean {
+  const host = address.toLowerCase();
+
+  if (isIP(host) === 4) {
+    const [a, b] = host.split('.').map(Number);
+    return a === 0 || a === 10 || a === 127 || (a === 100 && b >= 64 && b <= 127) || (a === 169 && b === 254)
+      || (a === 172 && b >= 16 && b <= 31) || (a === 192 && b === 168) || a >= 224;
+  }
+  if (isIP(host) === 6) {
+    // IPv4-mapped, in either the dotted (::ffff:127.0.0.1) or hex (::ffff:7f00:1) form
+    if (host.startsWith('::ffff:')) return true;
+    return host === '::' || host === '::1' || /^f[cd]/.test(host) || /^fe[89ab]/.test(host) || host.startsWith('ff');
+  }
+  return true;
+}
+
+/**
+ * The address a callback host resolves to, or null when any of its
+ * addresses is private or it doesn't resolve.
+ */
+async function resolvePublicAddress(hostname: string): Promise<LookupAddress | null> {
+  const host = hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  if (host === 'localhost' || host.endsWith('.localhost')) return null;
+
+  const addresses = isIP(host)
+    ? [{ address: host, family: isIP(host) }]
+    : await lookup(host, { all: true }).catch(() => []);
+  if (addresses.length === 0 || addresses.some(({ address }) => isPrivateAddress(address))) return null;
+  return addresses[0];
+}
+
+/**
+ * Checks a callback URL. Returns an error message, or null when valid.
+ * Deliveries check the address again, as DNS can change in between.
+ */
+export async function validateCallbackUrl(url: unknown): Promise<string | null> {
+  if (!WEBHOOK_SECRET) {
+    return 'Callbacks are not enabled on this server';
+  }
+  if (typeof url !== 'string') {
+    return 'Callback URL must be a string';
+  }
+
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return 'Callback URL is not valid';
+  }
+  if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+    return 'Callback URL must use http or https';
+  }
+  if (parsed.username || parsed.password) {
+    return 'Callback URL must not contain credentials';
+  }
+  if (!await resolvePublicAddress(parsed.hostname)) {
+    return 'Callback URL must point at a public address';
+  }
+  return null;
+}
+
+/**
+ * Signature of a delivery, sent as `X-Webhook-Signature: sha256=<hex>`.
+ * Receivers recompute it over `<X-Webhook-Timestamp>.<raw body>`.
+ */
+export function signPayload(timestamp: number, body: string): string {
+  return `sha256=${createHmac('sha256', WEBHOOK_SECRET).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+async function buildPayload(job: Job, origin: string, linkExpiresAt: number): Promise<WebhookPayload> {
+  const { request } = job;
+  // Usually answered from the cache the job's validation filled
+  const info = await getVideoInfo(request.url, { cookies: request.cookies }).catch(() => null);
+  const complete = job.status === 'complete' && job.file !== null;
+
+  return {
+    event: complete ? 'job.complete' : 'job.error',
+    jobId: job.id,
+    status: complete ? 'complete' : 'error',
+    url: request.url,
+    title: request.metadata?.title || info?.title || null,
+    format: job.file ? extname(job.file.filename).slice(1) : targetFormatOf(request),
+    filename: job.file?.filename ?? null,
+    size: job.file?.size ?? null,
+    duration: info ? outputDuration(request, info) : null,
+    fileUrl: complete ? `${origin}${signPath(`/api/v1/jobs/${job.id}/file`, linkExpiresAt)}` : null,
+    linkExpiresAt: complete ? linkExpiresAt : null,
+    error: job.error,
+    errorCode: job.errorCode,
+    finishedAt: job.finishedAt ?? Date.now()
+  };
+}
+
+// One POST; true when the receiver answered 2xx
+// POSTs to `address`, the checked one, rather than whatever the name resolves
+// to by now. Redirects aren't followed, as they would dodge the check too.
+function post(url: URL, address: LookupAddress, headers: Record<string, string>, body: string): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const send = url.protocol === 'https:' ? httpsRequest : httpRequest;
+    const request = send(url, {
+      method: 'POST',
+      headers: { ...headers, 'Content-Length': String(Buffer.byteLength(body)) },
+      lookup: (_hostname, options, callback) => {
+        if (options.all) callback(null, [address]);
+        else callback(null, address.address, address.family);
+      },
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS)
+    }, (response) => {
+      // A reset after the headers would otherwise be an uncaught error
+      response.on('error', () => {});
+      response.resume();
+      resolve(response.statusCode ?? 0);
+    });
+    request.on('error', reject);
+    request.end(body);
+  });
+}
+
+async function deliver(url: string, event: WebhookPayload['event'], deliveryId: string, body: string): Promise<boolean> {
+  const timestamp = Math.floor(Date.now() / 1000);
+  try {
+    const parsed = new URL(url);
+    const address = await resolvePublicAddress(parsed.hostname);
+    if (!address) return false;
+
+    const status = await post(parsed, address, {
+      'Content-Type': 'application/json',
+      'X-Webhook-Event': event,
+      'X-Webhook-Id': deliveryId,
+      'X-Webhook-Timestamp': String(timestamp),
+      'X-Webhook-Signature': signPayload(timestamp, body)
+    }, body);
+    return status >= 200 && status < 300;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Tells a job's callback URL that it finished, retrying with exponential
+ * backoff. Never throws; failed deliveries are logged.
+ */
+export async function sendJobWebhook(job: Job, target: WebhookTarget, linkExpiresAt: number): Promise<void> {
+  let payload: WebhookPayload;
+  try {
+    payload = await buildPayload(job, target.origin, linkExpiresAt);
+  } catch (error) {
+    logger.error('Webhook payload could not be built', { jobId: job.id, error });
+    return;
+  }
+  const body = JSON.stringify(payload);
+  // The same id on every attempt, so receivers can drop duplicates
+  const deliveryId = uuidv4();
+
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    if (await deliver(target.url, payload.event, deliveryId, body)) return;
+    if (attempt < MAX_ATTEMPTS) {
+      await new Promise(resolve => setTimeout(resolve, FIRST_RETRY_MS * 2 ** (attempt - 1)).unref());
+    }
+  }
+  logger.error('Webhook delivery failed', { jobId: job.id, url: target.url, attempts: MAX_ATTEMPTS });
+}
@@ -0,0 +1,87 @@
+// youtube.com with its www., m. and music. variants, the youtu.be short links and privacy-mode embeds
+const youtubeHostRegex = /^((www|m|music)\.)?(youtube\.com|youtube-nocookie\.com)$|^youtu\.be$/;
+
+// Channel pages: /channel/UC..., /c/name, /user/name and /@handle
+const channelPathRegex = /^\/(channel\/[^/]+|c\/[^/]+|user\/[^/]+|@[^/]+)(\/(videos|streams|shorts|playlists))?\/?$/;
+
+export function isYouTubeHost(hostname: string): boolean {
+  return youtubeHostRegex.test(hostname);
+}
+
+function parseUrl(url: string): URL | null {
+  try {
+    return new URL(/^https?:\/\//.test(url) ? url : `https://${url}`);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * True for playlist links (anything carrying a `list=` parameter) and channel pages.
+ */
+export function isPlaylistUrl(url: string): boolean {
+  const parsed = parseUrl(url);
+  if (!parsed) return false;
+  if (parsed.searchParams.has('list')) return true;
+  return parsed.hostname.endsWith('youtube.com') && channelPathRegex.test(parsed.pathname);
+}
+
+/**
+ * Canonical www.youtube.com form of a video, playlist or channel link, so
+ * Shorts, YouTube Music, mobile and youtu.be links all look the same.
+ * Returns null when the link points at neither.
+ */
+export function normalizeYouTubeUrl(url: string): string | null {
+  if (isPlaylistUrl(url)) {
+    const parsed = parseUrl(url)!;
+    const list = parsed.searchParams.get('list');
+    if (list) {
+      return `https://www.youtube.com/playlist?list=${encodeURIComponent(list)}`;
+    }
+    parsed.protocol = 'https:';
+    parsed.hostname = 'www.youtube.com';
+    return normalizePlaylistUrl(parsed.toString());
+  }
+
+  const id = videoIdFromUrl(url);
+  return id ? videoUrl(id) : null;
+}
+
+/**
+ * Rewrites a bare channel URL to its uploads tab, so yt-dlp returns videos
+ * instead of a list of tabs. Playlist URLs are returned unchanged.
+ */
+export function normalizePlaylistUrl(url: string): string {
+  const parsed = parseUrl(url);
+  if (!parsed || parsed.searchParams.has('list')) return url;
+
+  const match = parsed.pathname.match(channelPathRegex);
+  if (match && !match[2]) {
+    parsed.pathname = `/${match[1]}/videos`;
+    return parsed.toString();
+  }
+  return url;
+}
+
+const videoIdRegex = /^[\w-]{11}$/;
+
+/**
+ * The 11-character video id of a watch, youtu.be, shorts, embed or live link, or null.
+ */
+export function videoIdFromUrl(url: string): string | null {
+  const parsed = parseUrl(url);
+  if (!parsed) return null;
+
+  let id: string | null;
+  if (parsed.hostname.endsWith('youtu.be')) {
+    id = parsed.pathname.slice(1);
+  } else {
+    id = parsed.searchParams.get('v') ?? parsed.pathname.match(/^\/(shorts|embed|live)\/([^/]+)/)?.[2] ?? null;
+  }
+
+  return id && videoIdRegex.test(id) ? id : null;
+}
+
+export function videoUrl(id: string): string {
+  return `https://www.youtube.com/watch?v=${encodeURIComponent(id)}`;
+}
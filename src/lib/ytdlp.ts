@@ -0,0 +1,412 @@
+import { mkdir, readdir, rm, stat } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { v4 as uuidv4 } from 'uuid';
+import type { CoverMode } from './cover';
+import { classifyYtDlpError, ServerBusyError } from './errors';
+import { maxFilesizeArgs } from './limits';
+import { logger } from './logger';
+import { buildMetadataArgs, TrackMetadata } from './metadata';
+import { histogram } from './metrics';
+import { withNetworkArgs } from './network';
+import { runProcess, TIMEOUTS } from './process';
+import { AudioQuality, buildQualityArgs } from './quality';
+import { formatSelector, guessPassthroughFormat } from './source';
+import type { SubtitleOptions } from './subtitle-options';
+import { buildSubtitleArgs } from './subtitles';
+import type { VideoOptions } from './video-options';
+
+// Available audio formats from yt-dlp
+export const AUDIO_FORMATS = ['best', 'aac', 'alac', 'flac', 'm4a', 'mp3', 'opus', 'vorbis', 'wav'];
+
+// Formats that can carry chapter markers
+export const CHAPTERS_SUPPORTED = ['m4a', 'mp3', 'opus'];
+
+// Formats that support thumbnail embedding, video containers included
+export const THUMBNAIL_SUPPORTED = ['mp3', 'mkv', 'mka', 'ogg', 'opus', 'flac', 'm4a', 'mp4', 'm4v', 'mov'];
+
+export const CONTENT_TYPES: Record<string, string> = {
+  'mp3': 'audio/mpeg',
+  'm4a': 'audio/mp4',
+  'aac': 'audio/aac',
+  'opus': 'audio/ogg',
+  'ogg': 'audio/ogg',
+  'webm': 'video/webm',
+  'mp4': 'video/mp4',
+  'mkv': 'video/x-matroska',
+  'flac': 'audio/flac',
+  'wav': 'audio/wav',
+  'alac': 'audio/mp4',
+  'vorbis': 'audio/ogg',
+  'zip': 'application/zip',
+  'srt': 'application/x-subrip',
+  'vtt': 'text/vtt',
+  'txt': 'text/plain; charset=utf-8'
+};
+
+export function getContentType(filename: string): string {
+  const ext = filename.split('.').pop()?.toLowerCase() || 'audio';
+  return CONTENT_TYPES[ext] || 'application/octet-stream';
+}
+
+export function isThumbnailFile(filename: string): boolean {
+  return filename.endsWith('.jpg') || filename.endsWith('.png') || filename.endsWith('.webp');
+}
+
+interface AudioArgsOptions {
+  url: string;
+  outputTemplate: string;
+  format?: string;
+  // Remux the source stream without re-encoding
+  original?: boolean;
+  // Exact yt-dlp format id or one of SOURCE_PREFERENCES; yt-dlp picks when omitted
+  formatId?: string;
+  // Clip boundaries in seconds; either may be omitted
+  start?: number;
+  end?: number;
+  embedChapters?: boolean;
+  // When given, exactly these tags are written instead of the video's own
+  metadata?: TrackMetadata;
+  cover?: CoverMode;
+  // Ignored for "original", which keeps the source stream
+  quality?: AudioQuality;
+  // Written next to the audio, for embedding or bundling afterwards
+  subtitles?: SubtitleOptions;
+  // Download the video instead of extracting the audio
+  video?: VideoOptions;
+}
+
+/**
+ * The format the file ends up in: the container for video downloads. For
+ * "original" this is a guess until the stream is known, see validateAgainstVideo.
+ */
+export function targetFormatOf({ format, original, formatId, video }: {
+  format?: string;
+  original?: boolean;
+  formatId?: string;
+  video?: VideoOptions;
+}): string {
+  if (video) return video.container;
+  return original ? guessPassthroughFormat(formatId) : format || 'mp3';
+}
+
+// Picks the video (and audio) streams and the container of a video download
+function buildVideoStreamArgs({ height, formatId, container, audio = true }: VideoOptions): string[] {
+  const limit = height ? `[height<=${height}]` : '';
+  let selector: string;
+  if (formatId) {
+    selector = audio ? `${formatId}+bestaudio/${formatId}` : formatId;
+  } else {
+    selector = audio ? `bestvideo*${limit}+bestaudio/best${limit}` : `bestvideo${limit}`;
+  }
+
+  const args = ['-f', selector];
+  // Prefer streams the container holds as they are; MKV takes anything
+  if (container !== 'mkv') {
+    args.push('-S', container === 'mp4' ? 'ext:mp4:m4a' : 'ext:webm:webm');
+  }
+  args.push('--merge-output-format', container, '--remux-video', container);
+  return args;
+}
+
+export function buildAudioArgs({
+  url,
+  outputTemplate,
+  format,
+  original,
+  formatId,
+  start,
+  end,
+  embedChapters,
+  metadata,
+  cover = 'thumbnail',
+  quality,
+  subtitles,
+  video
+}: AudioArgsOptions): string[] {
+  const targetFormat = targetFormatOf({ format, original, formatId, video });
+
+  const args = formatId ? ['-f', formatSelector(formatId)] : [];
+  args.push(...maxFilesizeArgs());
+
+  if (video) {
+    args.push(...buildVideoStreamArgs(video));
+  } else if (original) {
+    // "best" makes yt-dlp copy the audio stream into a matching container
+    // (opus, m4a, ...) instead of transcoding it
+    args.push('-x', '--audio-format', 'best');
+  } else {
+    args.push('-x', '--audio-format', targetFormat, ...buildQualityArgs(targetFormat, quality));
+  }
+
+  // Only add thumbnail embedding for supported formats.
+  // Square and custom covers are embedded afterwards, see cover.ts
+  if (cover === 'thumbnail' && THUMBNAIL_SUPPORTED.includes(targetFormat)) {
+    args.push('--embed-thumbnail');
+  } else if (cover === 'square') {
+    args.push('--write-thumbnail');
+  }
+
+  args.push('--embed-metadata');
+  if (metadata) {
+    args.push(...buildMetadataArgs(metadata));
+  } else {
+    args.push('--parse-metadata', 'description:(?s)(?P<meta_comment>.+)');
+  }
+
+  // Only fetch the requested section; cutting at exact timestamps needs re-encoding at the cuts
+  if (start !== undefined || end !== undefined) {
+    args.push(
+      '--download-sections', `*${start ?? 0}-${end ?? 'inf'}`,
+      '--force-keyframes-at-cuts'
+    );
+  }
+
+  if (embedChapters) {
+    args.push('--embed-chapters');
+  }
+
+  if (subtitles) {
+    args.push(...buildSubtitleArgs(subtitles));
+  }
+
+  args.push(
+    '-o', outputTemplate,
+    '--no-warnings',
+    '--no-playlist',
+    url
+  );
+
+  return args;
+}
+
+const TEMP_ROOT = join(tmpdir(), 'yt-audio-downloads');
+
+// Temp directories older than this that no download is using are left over from crashes
+const TEMP_MAX_AGE_MS = Math.max(1, parseInt(process.env.TEMP_MAX_AGE_MINUTES || '120', 10) || 120) * 60 * 1000;
+
+const SWEEP_INTERVAL_MS = 15 * 60 * 1000;
+
+interface TempDirs {
+  inUse: Set<string>;
+  sweeper: NodeJS.Timeout | null;
+}
+
+// Kept on globalThis so the set and the timer survive module reloads in development
+const globalForTempDirs = globalThis as unknown as { tempDirs?: TempDirs };
+
+const tempDirs: TempDirs = globalForTempDirs.tempDirs ?? { inUse: new Set(), sweeper: null };
+globalForTempDirs.tempDirs = tempDirs;
+
+// Create a unique temp directory for a download
+export async function createTempDir(): Promise<string> {
+  const tempDir = join(TEMP_ROOT, uuidv4());
+  tempDirs.inUse.add(tempDir);
+  await mkdir(tempDir, { recursive: true });
+  return tempDir;
+}
+
+export async function removeTempDir(tempDir: string): Promise<void> {
+  tempDirs.inUse.delete(tempDir);
+  // Ignore cleanup errors
+  await rm(tempDir, { recursive: true, force: true }).catch(() => {});
+}
+
+/**
+ * Deletes temp directories that no download in this process is using and
+ * that haven't changed for TEMP_MAX_AGE_MINUTES. Returns how many were removed.
+ */
+export async function sweepTempDirs(): Promise<number> {
+  const names = await readdir(TEMP_ROOT).catch(() => [] as string[]);
+  let removed = 0;
+
+  for (const name of names) {
+    const tempDir = join(TEMP_ROOT, name);
+    if (tempDirs.inUse.has(tempDir)) continue;
+
+    const stats = await stat(tempDir).catch(() => null);
+    if (stats && Date.now() - stats.mtimeMs > TEMP_MAX_AGE_MS) {
+      await rm(tempDir, { recursive: true, force: true }).catch(() => {});
+      removed++;
+    }
+  }
+  return removed;
+}
+
+/**
+ * Sweeps once now and then every 15 minutes. Called on server start.
+ */
+export function startTempDirSweeper() {
+  if (tempDirs.sweeper) return;
+
+  const sweep = () => sweepTempDirs()
+    .then((removed) => {
+      if (removed > 0) logger.info('Removed stale temp directories', { removed });
+    })
+    .catch((error) => logger.error('Error sweeping temp directories', { error }));
+
+  void sweep();
+  tempDirs.sweeper = setInterval(sweep, SWEEP_INTERVAL_MS).unref();
+}
+
+// Metrics scrapes can come every few seconds; a walk of the temp directories is slow
+const USAGE_CACHE_MS = 30 * 1000;
+
+// Kept on globalThis so the cached figures survive module reloads in development
+const globalForUsage = globalThis as unknown as {
+  tempDirUsage?: { usage: Promise<{ dirs: number; bytes: number }>; checkedAt: number };
+};
+
+/**
+ * How many temp directories exist, in use or left over, and the bytes in them.
+ * Counted at most every 30 seconds; concurrent callers share a count.
+ */
+export function tempDirUsage(): Promise<{ dirs: number; bytes: number }> {
+  const cached = globalForUsage.tempDirUsage;
+  if (cached && Date.now() - cached.checkedAt < USAGE_CACHE_MS) return cached.usage;
+
+  const usage = countTempDirUsage();
+  globalForUsage.tempDirUsage = { usage, checkedAt: Date.now() };
+  return usage;
+}
+
+async function countTempDirUsage(): Promise<{ dirs: number; bytes: number }> {
+  const names = await readdir(TEMP_ROOT).catch(() => [] as string[]);
+  let bytes = 0;
+
+  for (const name of names) {
+    const files = await readdir(join(TEMP_ROOT, name), { recursive: true, withFileTypes: true }).catch(() => []);
+    for (const file of files) {
+      if (!file.isFile()) continue;
+      const stats = await stat(join(file.parentPath, file.name)).catch(() => null);
+      bytes += stats?.size ?? 0;
+    }
+  }
+  return { dirs: names.length, bytes };
+}
+
+// yt-dlp processes allowed at once, across lookups, downloads and jobs
+const MAX_YTDLP_PROCESSES = Math.max(1, parseInt(process.env.MAX_YTDLP_PROCESSES || '4', 10) || 4);
+
+// Callers allowed to wait for a free process; further ones are turned away
+const MAX_YTDLP_WAITING = Math.max(0, parseInt(process.env.MAX_YTDLP_WAITING ?? '8', 10) || 0);
+
+interface ProcessSlots {
+  running: number;
+  waiting: (() => void)[];
+}
+
+// Kept on globalThis so the count survives module reloads in development
+const globalForSlots = globalThis as unknown as { ytDlpSlots?: ProcessSlots };
+
+const slots: ProcessSlots = globalForSlots.ytDlpSlots ?? { running: 0, waiting: [] };
+globalForSlots.ytDlpSlots = slots;
+
+/**
+ * Waits for one of the MAX_YTDLP_PROCESSES slots and returns its release
+ * function. With `queue`, waits however long the line is; for callers that
+ * are already bounded by a queue of their own, like jobs.
+ */
+export function acquireYtDlpSlot(signal?: AbortSignal, queue = false): Promise<() => void> {
+  // Cancelled before it got here, e.g. while waiting for a job or a lookup
+  if (signal?.aborted) {
+    return Promise.reject(signal.reason);
+  }
+
+  let released = false;
+  const release = () => {
+    if (released) return;
+    released = true;
+    // Hand the slot straight to the next caller in line
+    const next = slots.waiting.shift();
+    if (next) next();
+    else slots.running--;
+  };
+
+  if (slots.running < MAX_YTDLP_PROCESSES) {
+    slots.running++;
+    return Promise.resolve(release);
+  }
+  if (!queue && slots.waiting.length >= MAX_YTDLP_WAITING) {
+    return Promise.reject(new ServerBusyError());
+  }
+
+  return new Promise((resolve, reject) => {
+    const grant = () => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve(release);
+    };
+    const onAbort = () => {
+      slots.waiting = slots.waiting.filter(waiting => waiting !== grant);
+      reject(signal!.reason);
+    };
+    slots.waiting.push(grant);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// How long yt-dlp runs take once they have a slot; `kind` is info or download
+export const ytDlpDuration = histogram(
+  'ytdlp_duration_seconds',
+  'Time yt-dlp processes ran, by kind and outcome',
+  [0.5, 1, 2.5, 5, 10, 30, 60, 120, 300, 600, 1800]
+);
+
+export interface RunOptions {
+  // Called with every complete stdout line, e.g. `--newline` progress output
+  onLine?: (line: string) => void;
+  signal?: AbortSignal;
+  // Wait for a yt-dlp process instead of failing with ServerBusyError
+  queue?: boolean;
+  // Pass the server's cookie jar; check the caller may use it first
+  cookies?: boolean;
+}
+
+export async function runYtDlp(args: string[], options: RunOptions = {}): Promise<string> {
+  const release = await acquireYtDlpSlot(options.signal, options.queue);
+  const stopTimer = ytDlpDuration.startTimer({ kind: 'download' });
+  let status = 'error';
+  try {
+    const stdout = await withNetworkArgs(options.cookies, (networkArgs) => spawnYtDlp([...networkArgs, ...args], options));
+    status = 'ok';
+    return stdout;
+  } finally {
+    stopTimer({ status });
+    release();
+  }
+}
+
+async function spawnYtDlp(args: string[], { onLine, signal }: RunOptions): Promise<string> {
+  let stderr = '';
+  let stdout = '';
+  let pending = '';
+
+  const code = await runProcess('yt-dlp', args, {
+    signal,
+    timeout: TIMEOUTS.download,
+    onStderr: (data) => {
+      stderr += data;
+      logger.debug('yt-dlp stderr', { output: data });
+    },
+    onStdout: (data) => {
+      stdout += data;
+      if (onLine) {
+        pending += data;
+        const lines = pending.split(/\r?\n/);
+        pending = lines.pop() ?? '';
+        lines.forEach(onLine);
+      } else {
+        logger.debug('yt-dlp stdout', { output: data });
+      }
+    }
+  });
+
+  if (code !== 0) {
+    logger.error('yt-dlp failed', { code, stderr, stdout });
+    throw classifyYtDlpError(stderr);
+  }
+  if (onLine && pending) {
+    onLine(pending);
+  }
+  return stdout;
+}
@@ -0,0 +1,69 @@
+import archiver, { Archiver } from 'archiver';
+import { createReadStream, createWriteStream } from 'fs';
+import { Readable } from 'stream';
+import { bytesServed } from './file-response';
+
+export interface ZipStream {
+  archive: Archiver;
+  body: ReadableStream<Uint8Array>;
+}
+
+/**
+ * Creates a zip archive that is written to the response while entries are
+ * still being added. Audio is already compressed, so entries are stored as-is.
+ */
+export function createZipStream(): ZipStream {
+  const archive = archiver('zip', { store: true });
+  archive.on('data', (chunk: Buffer) => bytesServed.inc({ kind: 'archive' }, chunk.length));
+  const body = Readable.toWeb(archive) as ReadableStream<Uint8Array>;
+  return { archive, body };
+}
+
+/**
+ * Appends a file from disk and resolves once archiver has consumed it,
+ * so the caller can safely delete the source afterwards.
+ */
+export function appendFile(archive: Archiver, filePath: string, name: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const cleanup = () => {
+      archive.off('entry', onEntry);
+      archive.off('error', onError);
+      archive.off('close', onClose);
+    };
+    const onEntry = () => {
+      cleanup();
+      resolve();
+    };
+    const onError = (err: Error) => {
+      cleanup();
+      reject(err);
+    };
+    // The response stream was cancelled before the entry was written
+    const onClose = () => onError(new Error('Archive closed'));
+
+    archive.once('entry', onEntry);
+    archive.once('error', onError);
+    archive.once('close', onClose);
+    archive.append(createReadStream(filePath), { name });
+  });
+}
+
+/**
+ * Writes a zip of the given files to `destination` on disk.
+ */
+export function writeZipFile(files: { path: string; name: string }[], destination: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const archive = archiver('zip', { store: true });
+    const output = createWriteStream(destination);
+
+    output.on('close', () => resolve());
+    output.on('error', reject);
+    archive.on('error', reject);
+
+    archive.pipe(output);
+    for (const file of files) {
+      archive.file(file.path, { name: file.name });
+    }
+    archive.finalize();
+  });
+}
@@ -0,0 +1,11 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { checkAuth } from '@/lib/auth';
+
+export function proxy(request: NextRequest) {
+  return checkAuth(request) ?? NextResponse.next();
+}
+
+export const config = {
+  // Everything except build assets
+  matcher: ['/((?!_next/static|_next/image|favicon.ico).*)']
+};